@@ -0,0 +1,160 @@
+// Self-hostable signaling server for the P2P view: a stand-in for Ably that runs on a LAN
+// without internet access. Devices join a room, learn who else is in it, and exchange
+// WebRTC offers, answers and ICE candidates through it. It also relays messages between
+// devices that could not open a direct connection; those are end-to-end encrypted by the
+// clients, so the server never sees their content.
+//
+//   npm run signaling                          # ws://0.0.0.0:8787
+//   PORT=9000 npm run signaling
+//   TLS_CERT=cert.pem TLS_KEY=key.pem npm run signaling   # wss://, for pages served over https
+//
+// Protocol (JSON text frames):
+//   client → server  { type: 'join', room, id }
+//                    { type: 'signal', to, signal }
+//                    { type: 'data', to, data }
+//   server → client  { type: 'joined', members }       answer to join: ids already in the room
+//                    { type: 'peer-joined', id }  { type: 'peer-left', id }
+//                    { type: 'signal', from, signal }  { type: 'data', from, data }
+//                    { type: 'error', message }
+
+import { createServer as createHttpServer } from 'node:http'
+import { createServer as createHttpsServer } from 'node:https'
+import { readFileSync } from 'node:fs'
+import { pathToFileURL } from 'node:url'
+import { WebSocketServer } from 'ws'
+
+const PORT = Number(process.env.PORT) || 8787
+const HOST = process.env.HOST || '0.0.0.0'
+// Relayed transfer chunks are ~44KB; anything far bigger is not from the player
+const MAX_MESSAGE_BYTES = 256 * 1024
+// Connections that stop answering pings are dropped, so their peers see them leave
+const HEARTBEAT_MS = 30000
+const MAX_ID_LENGTH = 128
+
+/** @type {Map<string, Map<string, import('ws').WebSocket>>} room → id → socket */
+const rooms = new Map()
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+}
+
+function leave(socket) {
+  const { room, id } = socket
+  const members = room && rooms.get(room)
+  if (!members || members.get(id) !== socket) return
+  members.delete(id)
+  if (members.size === 0) rooms.delete(room)
+  members.forEach((other) => send(other, { type: 'peer-left', id }))
+  console.log(`[signaling] ${id} left ${room} (${members.size} remaining)`)
+}
+
+function join(socket, room, id) {
+  leave(socket)
+  let members = rooms.get(room)
+  if (!members) {
+    members = new Map()
+    rooms.set(room, members)
+  }
+  // A device that reconnects before its old socket timed out replaces it
+  const stale = members.get(id)
+  if (stale && stale !== socket) {
+    stale.room = null
+    stale.close(4000, 'replaced')
+  }
+  socket.room = room
+  socket.id = id
+  send(socket, { type: 'joined', members: [...members.keys()].filter((other) => other !== id) })
+  members.forEach((other, otherId) => otherId !== id && send(other, { type: 'peer-joined', id }))
+  members.set(id, socket)
+  console.log(`[signaling] ${id} joined ${room} (${members.size} present)`)
+}
+
+function handle(socket, message) {
+  if (message.type === 'join') {
+    const { room, id } = message
+    if (typeof room !== 'string' || typeof id !== 'string' || !id || id.length > MAX_ID_LENGTH) {
+      send(socket, { type: 'error', message: 'Invalid join' })
+      return
+    }
+    join(socket, room, id)
+    return
+  }
+
+  const members = socket.room && rooms.get(socket.room)
+  if (!members) {
+    send(socket, { type: 'error', message: 'Join a room first' })
+    return
+  }
+  const from = socket.id
+  switch (message.type) {
+    case 'signal': {
+      const target = members.get(message.to)
+      if (target) send(target, { type: 'signal', from, signal: message.signal })
+      break
+    }
+    case 'data': {
+      const target = members.get(message.to)
+      if (target) send(target, { type: 'data', from, data: message.data })
+      break
+    }
+    default:
+      send(socket, { type: 'error', message: `Unknown message type: ${message.type}` })
+  }
+}
+
+// Accepts WebSocket connections on an existing HTTP(S) server
+export function attachSignaling(server) {
+  const wss = new WebSocketServer({ server, maxPayload: MAX_MESSAGE_BYTES })
+
+  wss.on('connection', (socket, request) => {
+    socket.alive = true
+    socket.on('pong', () => {
+      socket.alive = true
+    })
+    socket.on('message', (raw, isBinary) => {
+      if (isBinary) return
+      let message
+      try {
+        message = JSON.parse(raw.toString())
+      } catch {
+        send(socket, { type: 'error', message: 'Invalid JSON' })
+        return
+      }
+      if (message && typeof message.type === 'string') handle(socket, message)
+    })
+    socket.on('close', () => leave(socket))
+    socket.on('error', (error) => console.warn('[signaling] Socket error:', error.message))
+    console.log('[signaling] Connection from', request.socket.remoteAddress)
+  })
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!socket.alive) {
+        socket.terminate()
+        return
+      }
+      socket.alive = false
+      socket.ping()
+    })
+  }, HEARTBEAT_MS)
+  wss.on('close', () => clearInterval(heartbeat))
+  return wss
+}
+
+function start() {
+  const { TLS_CERT, TLS_KEY } = process.env
+  const secure = Boolean(TLS_CERT && TLS_KEY)
+  const server = secure
+    ? createHttpsServer({ cert: readFileSync(TLS_CERT), key: readFileSync(TLS_KEY) })
+    : createHttpServer()
+  server.on('request', (_request, response) => {
+    response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' })
+    response.end('Servidor de sinalização do player P2P\n')
+  })
+  attachSignaling(server)
+  server.listen(PORT, HOST, () => {
+    console.log(`[signaling] Listening on ${secure ? 'wss' : 'ws'}://${HOST}:${PORT}`)
+  })
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) start()
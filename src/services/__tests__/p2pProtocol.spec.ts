@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeChunkFrame,
+  encodeChunkFrame,
+  helloMessage,
+  isCompatible,
+  MIN_PROTOCOL_VERSION,
+  parseMessage,
+  PROTOCOL_VERSION,
+} from '../p2pProtocol'
+
+const hello = helloMessage({ deviceId: 'device', nickname: 'Celular', challenge: 'abc' })
+
+const syncManifest = {
+  type: 'sync-manifest',
+  payload: {
+    syncId: 'y_1',
+    answer: false,
+    part: 0,
+    parts: 1,
+    playlists: [{ uid: 'p1', name: 'Rock', nameAt: 10, orderAt: 20 }],
+    entries: [{ playlist: 'p1', sha256: 'aa', position: 0, addedAt: 30 }],
+    deletions: [
+      { playlist: 'p2', deletedAt: 40 },
+      { playlist: 'p1', sha256: 'bb', deletedAt: 50 },
+    ],
+  },
+}
+
+describe('parseMessage', () => {
+  it('accepts well-formed messages', () => {
+    expect(parseMessage(hello)).toBe(hello)
+    expect(parseMessage({ type: 'request-playlists' })).not.toBeNull()
+    expect(parseMessage(syncManifest)).not.toBeNull()
+    expect(
+      parseMessage({
+        type: 'clone-complete',
+        payload: { transferId: 't', playlistName: 'Rock', missing: ['Sem áudio'] },
+      }),
+    ).not.toBeNull()
+  })
+
+  it('accepts optional fields and extra fields from newer peers', () => {
+    expect(
+      parseMessage({ type: 'hello', payload: { ...hello.payload, publicKey: 'key' } }),
+    ).not.toBeNull()
+    expect(
+      parseMessage({ type: 'hello', payload: { ...hello.payload, addedLater: 1 } }),
+    ).not.toBeNull()
+    expect(
+      parseMessage({ type: 'transfer-resume', payload: { transferId: 't', playlistId: 1 } }),
+    ).not.toBeNull()
+  })
+
+  it('rejects anything that is not a message of a known type', () => {
+    expect(parseMessage(null)).toBeNull()
+    expect(parseMessage('hello')).toBeNull()
+    expect(parseMessage({ payload: hello.payload })).toBeNull()
+    expect(parseMessage({ type: 'unknown', payload: {} })).toBeNull()
+    expect(parseMessage({ type: 'toString', payload: {} })).toBeNull()
+  })
+
+  it('rejects payloads with missing or mistyped fields', () => {
+    expect(parseMessage({ type: 'hello' })).toBeNull()
+    expect(parseMessage({ type: 'hello', payload: { ...hello.payload, version: '8' } })).toBeNull()
+    expect(parseMessage({ type: 'hello', payload: { ...hello.payload, publicKey: 1 } })).toBeNull()
+    expect(
+      parseMessage({ type: 'location', payload: { lat: 1, lng: 2, device: 'tablet' } }),
+    ).toBeNull()
+    expect(parseMessage({ type: 'clock-ping', payload: { sentAt: Number.NaN } })).toBeNull()
+    expect(
+      parseMessage({ type: 'clone-complete', payload: { transferId: 't', playlistName: 'Rock' } }),
+    ).toBeNull()
+  })
+
+  it('rejects negative or fractional counts', () => {
+    const request = { transferId: 't', playlistId: 1, songIndex: 0 }
+    expect(parseMessage({ type: 'request-song', payload: request })).not.toBeNull()
+    expect(
+      parseMessage({ type: 'request-song', payload: { ...request, songIndex: -1 } }),
+    ).toBeNull()
+    expect(
+      parseMessage({ type: 'request-song', payload: { ...request, playlistId: 1.5 } }),
+    ).toBeNull()
+  })
+
+  it('checks every item of a list', () => {
+    const entries = [...syncManifest.payload.entries, { playlist: 'p1', sha256: 'cc', position: 1 }]
+    expect(
+      parseMessage({ ...syncManifest, payload: { ...syncManifest.payload, entries } }),
+    ).toBeNull()
+    const deletions = [{ playlist: 'p1', sha256: 5, deletedAt: 1 }]
+    expect(
+      parseMessage({ ...syncManifest, payload: { ...syncManifest.payload, deletions } }),
+    ).toBeNull()
+  })
+
+  it('only accepts transfer chunks carrying binary data', () => {
+    const chunk = { transferId: 't', songIndex: 0, chunkIndex: 0 }
+    expect(
+      parseMessage({ type: 'transfer-chunk', payload: { ...chunk, data: new ArrayBuffer(4) } }),
+    ).not.toBeNull()
+    expect(parseMessage({ type: 'transfer-chunk', payload: { ...chunk, data: 'AAAA' } })).toBeNull()
+  })
+})
+
+describe('isCompatible', () => {
+  it('accepts peers whose version range overlaps ours', () => {
+    expect(isCompatible(hello.payload)).toBe(true)
+    expect(
+      isCompatible({
+        ...hello.payload,
+        version: PROTOCOL_VERSION + 1,
+        minVersion: PROTOCOL_VERSION,
+      }),
+    ).toBe(true)
+  })
+
+  it('rejects peers that are too old or need a newer version', () => {
+    expect(
+      isCompatible({ ...hello.payload, version: MIN_PROTOCOL_VERSION - 1, minVersion: 1 }),
+    ).toBe(false)
+    expect(
+      isCompatible({
+        ...hello.payload,
+        version: PROTOCOL_VERSION + 2,
+        minVersion: PROTOCOL_VERSION + 1,
+      }),
+    ).toBe(false)
+  })
+})
+
+describe('chunk frames', () => {
+  const chunk = {
+    transferId: 'transfer-é',
+    songIndex: 3,
+    chunkIndex: 7,
+    data: new Uint8Array([1, 2, 3, 4, 5]).buffer,
+  }
+
+  it('decodes what was encoded', () => {
+    const decoded = decodeChunkFrame(new Uint8Array(encodeChunkFrame(chunk)))
+    expect(decoded?.payload.transferId).toBe(chunk.transferId)
+    expect(decoded?.payload.songIndex).toBe(3)
+    expect(decoded?.payload.chunkIndex).toBe(7)
+    expect([...new Uint8Array(decoded!.payload.data)]).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('rejects truncated, padded and unknown frames', () => {
+    const frame = new Uint8Array(encodeChunkFrame(chunk))
+    expect(decodeChunkFrame(frame.subarray(0, frame.length - 1))).toBeNull()
+    expect(decodeChunkFrame(new Uint8Array([...frame, 0]))).toBeNull()
+    expect(decodeChunkFrame(new Uint8Array([9, ...frame.subarray(1)]))).toBeNull()
+    expect(decodeChunkFrame(new Uint8Array([1]))).toBeNull()
+  })
+})
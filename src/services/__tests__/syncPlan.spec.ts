@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest'
+import type { SyncEntry, SyncPlaylist } from '../p2pProtocol'
+import { planSync, type Manifest } from '../syncPlan'
+
+const playlist = (uid: string, name: string, nameAt = 0, orderAt = 0): SyncPlaylist => ({
+  uid,
+  name,
+  nameAt,
+  orderAt,
+})
+
+const songs = (uid: string, hashes: string[], addedAt = 0): SyncEntry[] =>
+  hashes.map((sha256, position) => ({ playlist: uid, sha256, position, addedAt }))
+
+const manifest = (parts: Partial<Manifest>): Manifest => ({
+  playlists: [],
+  entries: [],
+  deletions: [],
+  ...parts,
+})
+
+// Both devices must settle on the same library, each planning with the sides swapped
+function planBoth(local: Manifest, remote: Manifest, since = 0) {
+  const here = planSync(local, remote, true, since)
+  const there = planSync(remote, local, false, since)
+  return { here, there }
+}
+
+describe('planSync', () => {
+  describe('a playlist deleted on the other device', () => {
+    const local = manifest({
+      playlists: [playlist('p1', 'Rock', 100, 100)],
+      entries: songs('p1', ['a', 'b'], 100),
+    })
+
+    it('is deleted here when the deletion is newer than the last local change', () => {
+      const remote = manifest({ deletions: [{ playlist: 'p1', deletedAt: 200 }] })
+      const { here, there } = planBoth(local, remote, 50)
+
+      expect(here.deletePlaylists).toEqual([{ uid: 'p1', deletedAt: 200 }])
+      expect(here.settle).toEqual([])
+      expect(there.deletePlaylists).toEqual([])
+      expect(there.settle).toEqual([])
+      // Changed on one side and deleted on the other since the last sync
+      expect(here.conflicts).toHaveLength(1)
+      expect(here.conflicts[0].message).toContain('ficou apagada')
+    })
+
+    it('is kept, and restored on the other device, when changed after the deletion', () => {
+      const remote = manifest({ deletions: [{ playlist: 'p1', deletedAt: 90 }] })
+      const { here, there } = planBoth(local, remote, 50)
+
+      expect(here.deletePlaylists).toEqual([])
+      expect(here.conflicts[0].message).toContain('foi mantida')
+      expect(there.settle).toEqual([
+        {
+          uid: 'p1',
+          name: 'Rock',
+          nameAt: 100,
+          orderAt: 100,
+          songs: [
+            { hash: 'a', addedAt: 100 },
+            { hash: 'b', addedAt: 100 },
+          ],
+          removed: [],
+        },
+      ])
+    })
+
+    it('is not a conflict when the local change was already synced', () => {
+      const remote = manifest({ deletions: [{ playlist: 'p1', deletedAt: 200 }] })
+      const { here } = planBoth(local, remote, 150)
+
+      expect(here.deletePlaylists).toEqual([{ uid: 'p1', deletedAt: 200 }])
+      expect(here.conflicts).toEqual([])
+    })
+
+    it('passes on a deletion this device never had the playlist for', () => {
+      const remote = manifest({ deletions: [{ playlist: 'p9', deletedAt: 300 }] })
+      const { here } = planBoth(manifest({}), remote)
+
+      expect(here.deletions).toEqual([{ uid: 'p9', deletedAt: 300 }])
+      expect(here.deletePlaylists).toEqual([])
+    })
+  })
+
+  describe('a rename on one device and a reorder on the other', () => {
+    const local = manifest({
+      playlists: [playlist('p1', 'Rock nacional', 200, 100)],
+      entries: songs('p1', ['a', 'b', 'c'], 50),
+    })
+    const remote = manifest({
+      playlists: [playlist('p1', 'Rock', 100, 300)],
+      entries: songs('p1', ['c', 'a', 'b'], 50),
+    })
+
+    it('keeps both changes', () => {
+      const { here } = planBoth(local, remote, 150)
+      const [settled] = here.settle
+
+      expect(settled.name).toBe('Rock nacional')
+      expect(settled.nameAt).toBe(200)
+      expect(settled.orderAt).toBe(300)
+      expect(settled.songs.map((song) => song.hash)).toEqual(['c', 'a', 'b'])
+      expect(here.conflicts).toEqual([])
+    })
+
+    it('settles the same on both devices', () => {
+      const { here, there } = planBoth(local, remote, 150)
+      expect(there.settle).toEqual(here.settle)
+    })
+
+    it('logs a conflict when both devices renamed since the last sync', () => {
+      const renamed = manifest({ ...remote, playlists: [playlist('p1', 'Rock antigo', 180, 300)] })
+      const { here, there } = planBoth(local, renamed, 150)
+
+      expect(here.settle[0].name).toBe('Rock nacional')
+      expect(there.settle[0].name).toBe('Rock nacional')
+      expect(here.conflicts.map((conflict) => conflict.message)).toEqual([
+        'Renomeada nos dois dispositivos; ficou "Rock nacional".',
+      ])
+    })
+  })
+
+  describe('pairing playlists', () => {
+    it('pairs by uid even when the names differ', () => {
+      const local = manifest({
+        playlists: [playlist('p1', 'Rock', 100)],
+        entries: songs('p1', ['a']),
+      })
+      const remote = manifest({
+        playlists: [playlist('p1', 'Rock e pop', 200)],
+        entries: songs('p1', ['b']),
+      })
+      const { here } = planBoth(local, remote)
+
+      expect(here.relabel.size).toBe(0)
+      expect(here.settle).toHaveLength(1)
+      expect(here.settle[0].name).toBe('Rock e pop')
+      expect(here.settle[0].songs.map((song) => song.hash).sort()).toEqual(['a', 'b'])
+    })
+
+    it('pairs playlists of the same name unknown to the other device under the smaller uid', () => {
+      const local = manifest({
+        playlists: [playlist('p2', 'Rock')],
+        entries: songs('p2', ['a']),
+      })
+      const remote = manifest({
+        playlists: [playlist('p1', 'Rock')],
+        entries: songs('p1', ['b']),
+      })
+      const { here, there } = planBoth(local, remote)
+
+      expect(here.relabel).toEqual(new Map([['p2', 'p1']]))
+      expect(there.relabel).toEqual(new Map([['p1', 'p1']]))
+      expect(here.settle.map((settled) => settled.uid)).toEqual(['p1'])
+      expect(there.settle).toEqual(here.settle)
+    })
+
+    it('does not pair by name a playlist the other device knows by uid', () => {
+      const local = manifest({ playlists: [playlist('p2', 'Rock', 100, 100)] })
+      const remote = manifest({
+        playlists: [playlist('p1', 'Rock')],
+        deletions: [{ playlist: 'p2', deletedAt: 50 }],
+      })
+      const { here } = planBoth(local, remote)
+
+      expect(here.relabel.size).toBe(0)
+      expect(here.settle.map((settled) => settled.uid)).toEqual(['p1'])
+      expect(here.deletePlaylists).toEqual([])
+    })
+  })
+
+  describe('songs', () => {
+    it('removes a song whose removal is newer than its addition', () => {
+      const local = manifest({
+        playlists: [playlist('p1', 'Rock')],
+        entries: songs('p1', ['a', 'b'], 100),
+      })
+      const remote = manifest({
+        playlists: [playlist('p1', 'Rock')],
+        entries: songs('p1', ['a'], 100),
+        deletions: [{ playlist: 'p1', sha256: 'b', deletedAt: 200 }],
+      })
+      const { here, there } = planBoth(local, remote)
+
+      expect(here.settle[0].songs.map((song) => song.hash)).toEqual(['a'])
+      expect(here.settle[0].removed).toEqual([{ hash: 'b', deletedAt: 200 }])
+      expect(there.settle).toEqual(here.settle)
+    })
+
+    it('keeps a song added again after it was removed', () => {
+      const local = manifest({
+        playlists: [playlist('p1', 'Rock')],
+        entries: songs('p1', ['a', 'b'], 300),
+      })
+      const remote = manifest({
+        playlists: [playlist('p1', 'Rock')],
+        entries: songs('p1', ['a'], 100),
+        deletions: [{ playlist: 'p1', sha256: 'b', deletedAt: 200 }],
+      })
+      const { here } = planBoth(local, remote, 150)
+
+      expect(here.settle[0].songs.map((song) => song.hash)).toEqual(['a', 'b'])
+      expect(here.conflicts).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,100 @@
+import * as Ably from 'ably';
+import { PUBLIC_ROOM } from './rooms';
+import type { RelayedData, SignalingEvents, SignalingTransport } from './signaling';
+
+// The public room keeps the channel every client used before rooms existed
+const PUBLIC_CHANNEL_NAME = 'online-player-p2p-channel-v2';
+const ROOM_CHANNEL_PREFIX = 'online-player-room-';
+
+// Signaling over Ably's hosted channel: presence tells who is online, and 'data' messages
+// relay (encrypted) traffic for peers without a data channel
+export class AblySignaling implements SignalingTransport {
+  readonly kind = 'ably';
+  readonly trickle = true;
+  readonly relays = true;
+  readonly presence = true;
+  private ably: Ably.Realtime | null = null;
+  private channel: Ably.RealtimeChannel | null = null;
+  private localId = '';
+
+  constructor(private apiKey: string) {}
+
+  async connect(localId: string, room: string, events: SignalingEvents): Promise<void> {
+    this.localId = localId;
+    console.log('[Signaling] Creating Ably client with ID:', localId);
+    // Let Ably choose the best transport (WebSocket / fallback) for Safari reliability
+    this.ably = new Ably.Realtime({
+      key: this.apiKey,
+      clientId: localId,
+    });
+
+    // Log de estado da conexão Ably
+    this.ably.connection.on('connected', () => {
+      console.log('[Signaling] ✅ Ably connection state: CONNECTED');
+    });
+    this.ably.connection.on('disconnected', () => {
+      console.warn('[Signaling] ⚠️ Ably connection state: DISCONNECTED');
+    });
+    this.ably.connection.on('failed', () => {
+      console.error('[Signaling] ❌ Ably connection state: FAILED');
+    });
+    this.ably.connection.on('suspended', () => {
+      console.warn('[Signaling] ⚠️ Ably connection state: SUSPENDED');
+    });
+
+    const channelName = room === PUBLIC_ROOM ? PUBLIC_CHANNEL_NAME : `${ROOM_CHANNEL_PREFIX}${room}`;
+    console.log('[Signaling] Getting channel:', channelName);
+    this.channel = this.ably.channels.get(channelName);
+    // Ensure channel is attached before presence & subscriptions
+    await this.channel.attach();
+
+    this.channel.subscribe('signal', (message: Ably.Message) => {
+      const { to, from, signal } = message.data || {};
+      if (to === localId && from) events.signal(from, signal);
+    });
+
+    // Ably direct data (unicast) fallback
+    this.channel.subscribe('data', (message: Ably.Message) => {
+      const { to, from, data } = message.data || {};
+      if (!to || !from) return;
+      if (to !== localId) return;
+      if (from === localId) return;
+      events.data(from, data);
+    });
+
+    this.channel.presence.subscribe('enter', (member: Ably.PresenceMessage) => {
+      console.log('[Signaling] Peer entered:', member.clientId);
+      if (member.clientId !== localId) events.peer(member.clientId);
+    });
+
+    this.channel.presence.subscribe('leave', (member: Ably.PresenceMessage) => {
+      console.log('[Signaling] Peer left:', member.clientId);
+      events.leave(member.clientId);
+    });
+
+    console.log('[Signaling] Entering presence...');
+    await this.channel.presence.enter({ joinedAt: Date.now() });
+    console.log('[Signaling] Successfully entered presence');
+  }
+
+  async disconnect(): Promise<void> {
+    await this.channel?.detach();
+    this.ably?.close();
+    this.channel = null;
+    this.ably = null;
+  }
+
+  async members(): Promise<string[]> {
+    if (!this.channel) return [];
+    const members = await this.channel.presence.get();
+    return members.map((m: Ably.PresenceMessage) => m.clientId).filter((id) => id !== this.localId);
+  }
+
+  signal(to: string, signal: unknown): void {
+    this.channel?.publish('signal', { to, from: this.localId, signal });
+  }
+
+  send(to: string, data: RelayedData): void {
+    this.channel?.publish('data', { to, from: this.localId, data });
+  }
+}
@@ -0,0 +1,523 @@
+import { shallowRef } from 'vue'
+import { EQ_BANDS, type EqSettings } from './equalizer'
+
+// The start of the next track is decoded ahead and played from memory on the audio clock,
+// since a media element cannot be started at an exact time. The element takes over once
+// it has been lined up with the decoded audio.
+const HEAD_SECONDS = 8
+// Below this there is no time left to line the element up
+const MIN_HEAD_SECONDS = 1
+// Only the first bytes are decoded; this covers HEAD_SECONDS even for lossless files
+const HEAD_BYTES = 4 * 1024 * 1024
+// Lag between the element and the decoded audio that is small enough to hand over
+const ALIGN_TOLERANCE = 0.01
+const MAX_ALIGN_ATTEMPTS = 4
+const HANDOVER = 0.05
+// play() takes a moment to produce sound, so the element is started a hair early
+const PLAY_LEAD = 0.02
+// Timers and the audio clock drift apart a little, so the outgoing deck is released only
+// a moment after it has gone silent
+const RELEASE_DELAY = 0.1
+
+// The decoded start of a track, playing while its element catches up
+interface Head {
+  source: AudioBufferSourceNode
+  gain: GainNode
+  startAt: number // context time of the first sample
+  duration: number
+  lead: number // correction added to the element position at each seek
+  attempts: number
+  seeking: boolean // set while our own seek is in flight
+}
+
+// One of the two players the engine alternates between. The idle deck holds the
+// preloaded next track while the active one plays.
+interface Deck {
+  element: HTMLAudioElement
+  input: GainNode | null // mutes the element while the decoded head plays
+  normalizer: GainNode | null // loudness normalization for the track on this deck
+  trackGain: number
+  gain: GainNode | null // crossfades
+  objectUrl: string | null
+  queueId: number | null
+  decoded: AudioBuffer | null
+  head: Head | null
+}
+
+export class AudioEngine {
+  private context: AudioContext | null = null
+  private master: GainNode | null = null
+  private preamp: GainNode | null = null
+  private filters: BiquadFilterNode[] = []
+  private eq: EqSettings | null = null
+  private decks: [Deck, Deck]
+  private activeIndex = 0
+  private volume = 1
+  // Set from a switch until the previous track has gone silent on the idle deck
+  private fadeTimer: ReturnType<typeof setTimeout> | null = null
+  // Starts the element of the incoming deck just before its scheduled time
+  private startTimer: ReturnType<typeof setTimeout> | null = null
+  // The next track waits here until the idle deck is free again
+  private pendingPreload: { audio: Blob; queueId: number; trackGain: number } | null = null
+
+  // Taps the output for the visualizer; null until the graph exists
+  public readonly analyser = shallowRef<AnalyserNode | null>(null)
+
+  constructor() {
+    this.decks = [this.createDeck(), this.createDeck()]
+  }
+
+  get current(): HTMLAudioElement {
+    return this.decks[this.activeIndex].element
+  }
+
+  get currentQueueId(): number | null {
+    return this.decks[this.activeIndex].queueId
+  }
+
+  get preloadedQueueId(): number | null {
+    if (this.fadeTimer) return this.pendingPreload?.queueId ?? null
+    return this.idleDeck.queueId
+  }
+
+  get elements(): HTMLAudioElement[] {
+    return this.decks.map((deck) => deck.element)
+  }
+
+  // Web Audio is optional: without it tracks still play back to back, only without crossfades
+  // and without a join timed on the audio clock
+  get supportsCrossfade(): boolean {
+    return !!this.context
+  }
+
+  // Browsers only let an AudioContext start inside a user gesture, so entry points
+  // triggered by a click call this before doing anything asynchronous
+  unlock() {
+    this.ensureGraph()
+    if (this.context?.state === 'suspended') {
+      this.context.resume().catch((e) => console.warn('[AudioEngine] Failed to resume:', e))
+    }
+  }
+
+  // Loads a track into the active deck, replacing whatever was playing.
+  // `trackGain` is the linear normalization gain for this track.
+  load(audio: Blob, queueId: number, trackGain = 1) {
+    this.finishFade()
+    this.pendingPreload = null
+    const deck = this.decks[this.activeIndex]
+    this.setSource(deck, audio, queueId, trackGain)
+    this.setDeckGain(deck, 1)
+    this.release(this.idleDeck)
+  }
+
+  // Buffers the next track in the idle deck and decodes its start, so it can start without a gap
+  preload(audio: Blob, queueId: number, trackGain = 1) {
+    if (this.fadeTimer) {
+      this.pendingPreload = { audio, queueId, trackGain }
+      return
+    }
+    const deck = this.idleDeck
+    if (deck.queueId === queueId) return
+    this.setSource(deck, audio, queueId, trackGain)
+    this.setDeckGain(deck, 0)
+    this.decodeHead(deck, audio)
+  }
+
+  clearPreload() {
+    this.pendingPreload = null
+    if (!this.fadeTimer) this.release(this.idleDeck)
+  }
+
+  // Context time `seconds` from now, or null without Web Audio
+  clockIn(seconds: number): number | null {
+    return this.context ? this.context.currentTime + seconds : null
+  }
+
+  // Starts the preloaded deck at context time `at` (right away when null), while the outgoing
+  // track fades out over `fade` seconds from that moment, or is muted at it without a fade
+  switchToPreloaded(fade = 0, at: number | null = null) {
+    this.finishFade()
+    const previous = this.decks[this.activeIndex]
+    this.activeIndex = 1 - this.activeIndex
+    const next = this.decks[this.activeIndex]
+
+    this.unlock()
+    const context = this.context
+    if (!context) {
+      this.playDeck(next)
+      this.release(previous)
+      return
+    }
+
+    const start = Math.max(at ?? 0, context.currentTime)
+    this.startHead(next, start)
+    const wait = start - context.currentTime - PLAY_LEAD
+    if (wait > 0) {
+      this.startTimer = setTimeout(() => {
+        this.startTimer = null
+        this.playDeck(next)
+      }, wait * 1000)
+    } else {
+      this.playDeck(next)
+    }
+
+    if (fade > 0) {
+      this.rampDeckGain(next, 0, 1, start, fade)
+      this.rampDeckGain(previous, 1, 0, start, fade)
+    } else {
+      this.switchDeckGain(next, 1, start)
+      this.switchDeckGain(previous, 0, start)
+    }
+    this.fadeTimer = setTimeout(
+      () => this.finishFade(),
+      (start - context.currentTime + fade + RELEASE_DELAY) * 1000,
+    )
+  }
+
+  async play() {
+    this.unlock()
+    await this.current.play()
+  }
+
+  pause() {
+    // A pause in the middle of a crossfade drops the outgoing track
+    this.finishFade()
+    this.dropHead(this.decks[this.activeIndex])
+    this.current.pause()
+  }
+
+  stop() {
+    this.finishFade()
+    this.pendingPreload = null
+    this.decks.forEach((deck) => this.release(deck))
+  }
+
+  setVolume(volume: number) {
+    this.volume = volume
+    if (this.master) {
+      this.master.gain.value = volume
+    } else {
+      this.decks.forEach((deck) => this.applyTrackGain(deck))
+    }
+  }
+
+  // Updates the normalization of a loaded or preloaded track, e.g. after the setting changed
+  setTrackGain(queueId: number, trackGain: number) {
+    if (this.pendingPreload?.queueId === queueId) this.pendingPreload.trackGain = trackGain
+    for (const deck of this.decks) {
+      if (deck.queueId !== queueId) continue
+      deck.trackGain = trackGain
+      this.applyTrackGain(deck)
+    }
+  }
+
+  // Values are kept until the graph exists, so the EQ applies from the first track
+  setEqualizer(settings: EqSettings) {
+    this.eq = settings
+    if (!this.context || !this.preamp) return
+    const now = this.context.currentTime
+    // A short glide avoids clicks when the curve changes mid-track
+    this.preamp.gain.setTargetAtTime(Math.pow(10, settings.preamp / 20), now, 0.02)
+    this.filters.forEach((filter, index) => {
+      filter.gain.setTargetAtTime(settings.gains[index] ?? 0, now, 0.02)
+    })
+  }
+
+  dispose() {
+    this.stop()
+    this.context?.close()
+    this.context = null
+    this.master = null
+    this.preamp = null
+    this.filters = []
+    this.analyser.value = null
+  }
+
+  private get idleDeck(): Deck {
+    return this.decks[1 - this.activeIndex]
+  }
+
+  private createDeck(): Deck {
+    const element = new Audio()
+    element.preload = 'auto'
+    const deck: Deck = {
+      element,
+      input: null,
+      normalizer: null,
+      trackGain: 1,
+      gain: null,
+      objectUrl: null,
+      queueId: null,
+      decoded: null,
+      head: null,
+    }
+    element.addEventListener('timeupdate', () => this.alignHead(deck))
+    // Anything that moves the element away from the decoded audio ends the head early
+    element.addEventListener('seeking', () => {
+      if (deck.head?.seeking) {
+        deck.head.seeking = false
+      } else {
+        this.dropHead(deck)
+      }
+    })
+    element.addEventListener('ratechange', () => this.dropHead(deck))
+    element.addEventListener('pause', () => this.dropHead(deck))
+    return deck
+  }
+
+  // deck elements (or decoded heads) -> normalizers -> deck gains (crossfade) -> preamp -> EQ bands
+  //   -> master (volume) -> analyser -> speakers
+  private ensureGraph() {
+    if (this.context) return
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+    if (!AudioContextClass) return
+
+    try {
+      const context: AudioContext = new AudioContextClass()
+      const preamp = context.createGain()
+      const filters = EQ_BANDS.map((band) => {
+        const filter = context.createBiquadFilter()
+        filter.type = band.type
+        filter.frequency.value = band.frequency
+        filter.Q.value = band.q
+        filter.gain.value = 0
+        return filter
+      })
+      const master = context.createGain()
+      const analyser = context.createAnalyser()
+      analyser.fftSize = 256
+      master.gain.value = this.volume
+
+      let tail: AudioNode = preamp
+      for (const filter of filters) {
+        tail.connect(filter)
+        tail = filter
+      }
+      tail.connect(master)
+      master.connect(analyser)
+      analyser.connect(context.destination)
+
+      for (const deck of this.decks) {
+        deck.input = context.createGain()
+        deck.normalizer = context.createGain()
+        deck.gain = context.createGain()
+        deck.gain.gain.value = deck === this.decks[this.activeIndex] ? 1 : 0
+        context.createMediaElementSource(deck.element).connect(deck.input)
+        deck.input.connect(deck.normalizer)
+        deck.normalizer.connect(deck.gain)
+        deck.gain.connect(preamp)
+      }
+
+      this.context = context
+      this.master = master
+      this.preamp = preamp
+      this.filters = filters
+      this.analyser.value = analyser
+      // Volume and normalization now live in the graph
+      this.decks.forEach((deck) => this.applyTrackGain(deck))
+      if (this.eq) this.setEqualizer(this.eq)
+    } catch (error) {
+      console.error('[AudioEngine] Web Audio unavailable, crossfade disabled:', error)
+    }
+  }
+
+  private setSource(deck: Deck, audio: Blob, queueId: number, trackGain: number) {
+    deck.element.pause()
+    this.dropHead(deck)
+    deck.decoded = null
+    this.revoke(deck)
+    deck.objectUrl = URL.createObjectURL(audio)
+    deck.element.src = deck.objectUrl
+    deck.queueId = queueId
+    deck.trackGain = trackGain
+    this.applyTrackGain(deck)
+    deck.element.load()
+  }
+
+  // Without Web Audio the element volume is all there is, so gains above 1 are lost
+  private applyTrackGain(deck: Deck) {
+    if (deck.normalizer && this.context) {
+      deck.normalizer.gain.setTargetAtTime(deck.trackGain, this.context.currentTime, 0.02)
+      deck.element.volume = 1
+    } else {
+      deck.element.volume = Math.min(1, this.volume * deck.trackGain)
+    }
+  }
+
+  private setDeckGain(deck: Deck, value: number) {
+    if (!deck.gain || !this.context) return
+    deck.gain.gain.cancelScheduledValues(this.context.currentTime)
+    deck.gain.gain.value = value
+  }
+
+  private switchDeckGain(deck: Deck, value: number, at: number) {
+    if (!deck.gain || !this.context) return
+    deck.gain.gain.cancelScheduledValues(this.context.currentTime)
+    deck.gain.gain.setValueAtTime(value, at)
+  }
+
+  private rampDeckGain(deck: Deck, from: number, to: number, at: number, duration: number) {
+    if (!deck.gain) return
+    deck.gain.gain.cancelScheduledValues(at)
+    deck.gain.gain.setValueAtTime(from, at)
+    deck.gain.gain.linearRampToValueAtTime(to, at + duration)
+  }
+
+  // Ends a running crossfade: the incoming deck goes to full volume and the outgoing one stops.
+  // An incoming element that has not started yet stays paused.
+  private finishFade() {
+    if (!this.fadeTimer) return
+    clearTimeout(this.fadeTimer)
+    this.fadeTimer = null
+    this.cancelStart()
+    this.setDeckGain(this.decks[this.activeIndex], 1)
+    this.release(this.idleDeck)
+    if (this.pendingPreload) {
+      const { audio, queueId, trackGain } = this.pendingPreload
+      this.pendingPreload = null
+      this.preload(audio, queueId, trackGain)
+    }
+  }
+
+  private playDeck(deck: Deck) {
+    deck.element.play().catch((e) => console.warn('[AudioEngine] Failed to start next track:', e))
+  }
+
+  private cancelStart() {
+    if (this.startTimer) {
+      clearTimeout(this.startTimer)
+      this.startTimer = null
+    }
+  }
+
+  // Decodes only the first bytes: the whole track would take hundreds of megabytes decoded.
+  // Formats that cannot be cut this way simply start without a head.
+  private async decodeHead(deck: Deck, audio: Blob) {
+    const context = this.context
+    if (!context) return
+    const url = deck.objectUrl
+    const sliced = audio.size > HEAD_BYTES
+    try {
+      const data = await audio.slice(0, HEAD_BYTES).arrayBuffer()
+      const decoded = await context.decodeAudioData(data)
+      if (deck.objectUrl !== url) return
+      // The last frame of a cut file may be incomplete
+      const usable = sliced ? decoded.duration - 0.5 : decoded.duration
+      const seconds = Math.min(HEAD_SECONDS, usable)
+      if (seconds < MIN_HEAD_SECONDS) return
+      if (seconds === decoded.duration) {
+        deck.decoded = decoded
+        return
+      }
+      const length = Math.floor(seconds * decoded.sampleRate)
+      const head = context.createBuffer(decoded.numberOfChannels, length, decoded.sampleRate)
+      for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+        head.copyToChannel(decoded.getChannelData(channel).subarray(0, length), channel)
+      }
+      deck.decoded = head
+    } catch (e) {
+      console.warn('[AudioEngine] Could not decode the start of the next track:', e)
+    }
+  }
+
+  // Plays the decoded start of the deck from context time `at` with the element muted.
+  // Without a head the element is heard directly, starting as close to `at` as play() allows.
+  private startHead(deck: Deck, at: number) {
+    const buffer = deck.decoded
+    deck.decoded = null
+    if (!buffer || !this.context || !deck.input || !deck.normalizer) return
+    if (deck.element.playbackRate !== 1) return
+
+    const source = this.context.createBufferSource()
+    const gain = this.context.createGain()
+    source.buffer = buffer
+    source.connect(gain)
+    gain.connect(deck.normalizer)
+    const head: Head = {
+      source,
+      gain,
+      startAt: at,
+      duration: buffer.duration,
+      lead: 0,
+      attempts: 0,
+      seeking: false,
+    }
+    source.onended = () => {
+      gain.disconnect()
+      if (deck.head === head) deck.head = null
+    }
+    source.start(at)
+    // Should the element never line up, it is unmuted where the head runs out
+    const input = deck.input.gain
+    input.cancelScheduledValues(this.context.currentTime)
+    input.setValueAtTime(0, this.context.currentTime)
+    input.setValueAtTime(1, at + buffer.duration)
+    deck.head = head
+  }
+
+  // Called on timeupdate while a head plays: seeks the element until it runs in step with
+  // the decoded audio, then crossfades from one to the other
+  private alignHead(deck: Deck) {
+    const head = deck.head
+    if (!head || !this.context || !deck.input) return
+    if (head.seeking || deck.element.seeking || deck.element.paused) return
+    const now = this.context.currentTime
+    const expected = now - head.startAt
+    if (expected < 0 || head.duration - expected < HANDOVER * 2) return
+
+    const drift = deck.element.currentTime - expected
+    if (Math.abs(drift) > ALIGN_TOLERANCE) {
+      // Out of step it would be heard as a jump, so the head plays to its end instead,
+      // where startHead already unmutes the element
+      if (head.attempts >= MAX_ALIGN_ATTEMPTS) return
+      // A seek takes a moment to resume, so the correction accumulates across attempts
+      head.attempts++
+      head.lead -= drift
+      head.seeking = true
+      deck.element.currentTime = expected + head.lead
+      return
+    }
+
+    const input = deck.input.gain
+    input.cancelScheduledValues(now)
+    input.setValueAtTime(0, now)
+    input.linearRampToValueAtTime(1, now + HANDOVER)
+    head.gain.gain.setValueAtTime(1, now)
+    head.gain.gain.linearRampToValueAtTime(0, now + HANDOVER)
+    head.source.stop(now + HANDOVER)
+    deck.head = null
+  }
+
+  // Stops the decoded audio at once and lets the element be heard
+  private dropHead(deck: Deck) {
+    const head = deck.head
+    if (!head) return
+    deck.head = null
+    head.source.onended = null
+    head.source.stop()
+    head.gain.disconnect()
+    if (deck.input && this.context) {
+      deck.input.gain.cancelScheduledValues(this.context.currentTime)
+      deck.input.gain.value = 1
+    }
+  }
+
+  private release(deck: Deck) {
+    deck.element.pause()
+    this.dropHead(deck)
+    deck.decoded = null
+    deck.element.loop = false
+    deck.element.removeAttribute('src')
+    deck.element.load()
+    this.revoke(deck)
+    deck.queueId = null
+  }
+
+  // Each deck keeps at most one object URL alive
+  private revoke(deck: Deck) {
+    if (deck.objectUrl) {
+      URL.revokeObjectURL(deck.objectUrl)
+      deck.objectUrl = null
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { type Ref } from 'vue'
+import {
+  blobToBase64,
+  dataUrlToBlob,
+  dbService,
+  type Playlist,
+  type PlaylistEntry,
+  type Song,
+} from './db'
+import { audioExtension } from './importer'
+import type { SmartPlaylist } from './library'
+import { safeFileName } from './text'
+import { DownloadSink, ZipReader, ZipWriter, type ZipSink } from './zip'
+
+export type RestoreMode = 'merge' | 'replace'
+
+// The File System Access save dialog; only some browsers have it
+interface SaveFilePicker {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string
+    types?: Array<{ description: string; accept: Record<string, string[]> }>
+  }) => Promise<FileSystemFileHandle>
+}
+
+export interface BackupState {
+  running: boolean
+  operation: 'export' | 'restore' | null
+  processed: number // songs
+  total: number
+  bytesDone: number
+  bytesTotal: number
+  error: string | null
+  summary: string | null
+}
+
+// A song as described in the manifest; the audio and the embedded cover are separate files
+interface BackupSong extends Omit<Song, 'img'> {
+  id: number
+  audioFile: string
+  img?: string // non-embedded images, such as the default cover
+  coverFile?: string
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: string
+  // `sharing` since version 2; the library sync fields (`uid`, `nameAt`, `orderAt`, and
+  // `addedAt` of entries) since version 3
+  playlists: Array<Omit<Playlist, 'id'> & { id: number }>
+  entries: Array<Omit<PlaylistEntry, 'id'>>
+  smartPlaylists: SmartPlaylist[]
+  songs: BackupSong[]
+}
+
+const BACKUP_FORMAT = 'offline-player-backup'
+const BACKUP_VERSION = 3
+const MANIFEST_FILE = 'manifest.json'
+// Song metadata is read in pages while the archive is written
+const SONG_PAGE_SIZE = 200
+
+export function createBackupState(): BackupState {
+  return {
+    running: false,
+    operation: null,
+    processed: 0,
+    total: 0,
+    bytesDone: 0,
+    bytesTotal: 0,
+    error: null,
+    summary: null,
+  }
+}
+
+// Readable names for people who open the archive; the id prefix keeps them unique
+function audioFileName(song: Song & { id: number }): string {
+  const label = safeFileName(`${song.artist} - ${song.title}`)
+  return `audio/${song.id} - ${label}.${audioExtension(song.mimeType)}`
+}
+
+function coverFileName(songId: number, img: string): string {
+  const subtype = img.match(/^data:image\/([a-z0-9+.-]+)/i)?.[1] ?? 'jpeg'
+  return `covers/${songId}.${subtype === 'jpeg' ? 'jpg' : subtype}`
+}
+
+function coverType(fileName: string): string {
+  const extension = fileName.split('.').pop() ?? 'jpg'
+  return `image/${extension === 'jpg' ? 'jpeg' : extension}`
+}
+
+function backupFileName(): string {
+  return `biblioteca-${new Date().toISOString().slice(0, 10)}.zip`
+}
+
+export class BackupService {
+  private state: Ref<BackupState>
+  private cancelled = false
+
+  public onRestored: (() => void) | null = null
+
+  constructor(state: Ref<BackupState>) {
+    this.state = state
+  }
+
+  cancel() {
+    if (this.state.value.running) this.cancelled = true
+  }
+
+  clear() {
+    if (this.state.value.running) return
+    this.state.value = createBackupState()
+  }
+
+  // Must be called from a click: the save dialog is only allowed inside a user gesture
+  async exportLibrary() {
+    if (this.state.value.running) return
+    const fileHandle = await this.pickSaveFile()
+    if (fileHandle === null) return // dialog dismissed
+
+    this.start('export')
+    let writable: FileSystemWritableFileStream | null = null
+    try {
+      const download = fileHandle ? null : new DownloadSink()
+      if (fileHandle) writable = await fileHandle.createWritable()
+      const stream = writable
+      const sink: ZipSink = download ?? { write: (part) => stream!.write(part) }
+      const zip = new ZipWriter(sink)
+      const manifest = await this.buildManifest()
+      this.state.value.total = manifest.songs.length
+      this.state.value.bytesTotal = manifest.songs.reduce((sum, s) => sum + (s.size ?? 0), 0)
+
+      const json = new TextEncoder().encode(JSON.stringify(manifest))
+      await zip.add(MANIFEST_FILE, new Blob([json], { type: 'application/json' }))
+
+      for (let i = 0; i < manifest.songs.length; i += SONG_PAGE_SIZE) {
+        const page = manifest.songs.slice(i, i + SONG_PAGE_SIZE)
+        // Covers were left out of the manifest; fetch them again a page at a time
+        const covers = new Map(
+          (await dbService.getSongs(page.map((s) => s.id))).map((s) => [s.id!, s.img]),
+        )
+        for (const song of page) {
+          if (this.cancelled) throw new Error('Backup cancelado.')
+          const img = covers.get(song.id)
+          if (song.coverFile && img) await zip.add(song.coverFile, dataUrlToBlob(img))
+
+          const audio = await dbService.getSongAudio(song.id)
+          const base = this.state.value.bytesDone
+          if (audio) {
+            await zip.add(song.audioFile, audio, (bytes) => {
+              this.state.value.bytesDone = base + bytes
+            })
+          }
+          this.state.value.bytesDone = base + (song.size ?? 0)
+          this.state.value.processed++
+        }
+      }
+
+      await zip.finish()
+      if (writable) await writable.close()
+      download?.save(backupFileName())
+      this.state.value.summary = `${manifest.songs.length} música(s) e ${manifest.playlists.length} playlist(s) exportadas.`
+    } catch (error) {
+      await writable?.abort().catch(() => {})
+      this.fail(error, 'Falha ao exportar a biblioteca.')
+    } finally {
+      this.finish()
+    }
+  }
+
+  async restoreLibrary(file: File, mode: RestoreMode) {
+    if (this.state.value.running) return
+    this.start('restore')
+    try {
+      const zip = new ZipReader(file)
+      await zip.open()
+      if (!zip.has(MANIFEST_FILE)) throw new Error('Este arquivo não é um backup do player.')
+      const manifest = JSON.parse(await zip.readText(MANIFEST_FILE)) as BackupManifest
+      if (manifest.format !== BACKUP_FORMAT) throw new Error('Este arquivo não é um backup do player.')
+      if (manifest.version > BACKUP_VERSION) {
+        throw new Error('Este backup foi criado por uma versão mais nova do player.')
+      }
+
+      const songsById = new Map(manifest.songs.map((s) => [s.id, s]))
+      this.state.value.total = manifest.songs.length
+      this.state.value.bytesTotal = manifest.songs.reduce((sum, s) => sum + (s.size ?? 0), 0)
+
+      if (mode === 'replace') await dbService.clearLibrary()
+      const playlists = await this.restorePlaylists(manifest, mode)
+      const playlistIds = playlists.ids
+
+      // Entries in playlist order, so each playlist comes back in the same order
+      const entries = [...manifest.entries].sort(
+        (a, b) => a.playlistId - b.playlistId || a.position - b.position,
+      )
+      const restored = new Map<number, number>() // backup song id -> library song id
+      const missing: string[] = []
+      for (const entry of entries) {
+        if (this.cancelled) throw new Error('Restauração cancelada.')
+        const playlistId = playlistIds.get(entry.playlistId)
+        const song = songsById.get(entry.songId)
+        if (playlistId === undefined || !song) continue
+
+        const songId = restored.get(song.id)
+        if (songId === -1) continue
+        if (songId !== undefined) {
+          await dbService.addSongToPlaylist(songId, playlistId)
+          continue
+        }
+        if (!zip.has(song.audioFile)) {
+          missing.push(song.title)
+          restored.set(song.id, -1)
+          this.state.value.processed++
+          continue
+        }
+
+        const result = await dbService.addSong(await this.readSong(zip, song, playlistId))
+        restored.set(song.id, result.songId)
+        this.state.value.bytesDone += song.size ?? 0
+        this.state.value.processed++
+      }
+
+      await this.restoreSyncTimes(manifest, playlists, restored)
+      await this.restoreSmartPlaylists(manifest, mode)
+      const count = [...restored.values()].filter((id) => id !== -1).length
+      this.state.value.summary = `${count} música(s) e ${playlistIds.size} playlist(s) restauradas.`
+      if (missing.length > 0) {
+        this.state.value.error = `${missing.length} música(s) sem áudio no arquivo: ${missing.slice(0, 5).join(', ')}${missing.length > 5 ? '...' : ''}`
+      }
+    } catch (error) {
+      this.fail(error, 'Falha ao restaurar o backup.')
+    } finally {
+      this.finish()
+      // Even a partial or cancelled restore changed the library
+      this.onRestored?.()
+    }
+  }
+
+  // Returns undefined when the File System Access API is not available, null when the
+  // user dismissed the dialog
+  private async pickSaveFile(): Promise<FileSystemFileHandle | null | undefined> {
+    const target = window as Window & SaveFilePicker
+    if (typeof target.showSaveFilePicker !== 'function') return undefined
+    try {
+      return await target.showSaveFilePicker({
+        suggestedName: backupFileName(),
+        types: [{ description: 'Backup da biblioteca', accept: { 'application/zip': ['.zip'] } }],
+      })
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return null
+      // Some embedded browsers expose the API but refuse it; fall back to a download
+      console.warn('[Backup] Save dialog unavailable, downloading instead:', error)
+      return undefined
+    }
+  }
+
+  private async buildManifest(): Promise<BackupManifest> {
+    const playlists = await dbService.getPlaylists()
+    const entries = await dbService.getAllEntries()
+    const smartPlaylists = await dbService.getSmartPlaylists()
+
+    const songs: BackupSong[] = []
+    let afterId = 0
+    for (;;) {
+      const page = await dbService.getSongsAfter(afterId, SONG_PAGE_SIZE)
+      if (page.length === 0) break
+      for (const { img, ...meta } of page) {
+        const id = meta.id!
+        const song: BackupSong = { ...meta, id, audioFile: audioFileName({ ...meta, id, img }) }
+        if (img?.startsWith('data:image')) {
+          song.coverFile = coverFileName(id, img)
+        } else if (img) {
+          song.img = img
+        }
+        songs.push(song)
+      }
+      afterId = page[page.length - 1].id!
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      playlists: playlists.map(({ id, name, sharing, uid, nameAt, orderAt }) => ({
+        id: id!,
+        name,
+        sharing,
+        uid,
+        nameAt,
+        orderAt,
+      })),
+      entries: entries.map(({ playlistId, songId, position, addedAt }) => ({
+        playlistId,
+        songId,
+        position,
+        addedAt,
+      })),
+      smartPlaylists: smartPlaylists.map(({ id: _id, ...playlist }) => playlist),
+      songs,
+    }
+  }
+
+  // Maps backup playlist ids to library ones. Merging reuses the playlist with the same
+  // uid, else one with the same name; those keep their own sharing level and sync times.
+  // `created` lists the backup ids of playlists added as they were.
+  private async restorePlaylists(manifest: BackupManifest, mode: RestoreMode) {
+    const existing = mode === 'merge' ? await dbService.getPlaylists() : []
+    const ids = new Map<number, number>()
+    const created = new Set<number>()
+    for (const { id: backupId, ...playlist } of manifest.playlists) {
+      const match =
+        existing.find((p) => playlist.uid && p.uid === playlist.uid) ??
+        existing.find((p) => p.name.trim() === playlist.name.trim())
+      if (match) {
+        ids.set(backupId, match.id!)
+        continue
+      }
+      ids.set(backupId, await dbService.addRestoredPlaylist(playlist))
+      created.add(backupId)
+    }
+    return { ids, created }
+  }
+
+  // Adding the songs again moved the sync times of restored playlists to now; a sync
+  // partner would take that as changes made on this device
+  private async restoreSyncTimes(
+    manifest: BackupManifest,
+    playlists: { ids: Map<number, number>; created: Set<number> },
+    restored: Map<number, number>,
+  ) {
+    for (const playlist of manifest.playlists) {
+      if (playlist.orderAt === undefined || !playlists.created.has(playlist.id)) continue
+      const addedAt = new Map<number, number>()
+      for (const entry of manifest.entries) {
+        if (entry.playlistId !== playlist.id || entry.addedAt === undefined) continue
+        // -1 marks songs whose audio was missing
+        const songId = restored.get(entry.songId) ?? -1
+        if (songId !== -1) addedAt.set(songId, entry.addedAt)
+      }
+      await dbService.restoreSyncTimes(playlists.ids.get(playlist.id)!, playlist.orderAt, addedAt)
+    }
+  }
+
+  private async restoreSmartPlaylists(manifest: BackupManifest, mode: RestoreMode) {
+    const existing = mode === 'merge' ? await dbService.getSmartPlaylists() : []
+    for (const playlist of manifest.smartPlaylists ?? []) {
+      if (existing.some((p) => p.name === playlist.name)) continue
+      await dbService.saveSmartPlaylist(playlist)
+    }
+  }
+
+  private async readSong(zip: ZipReader, song: BackupSong, playlistId: number) {
+    const { id: _id, audioFile, coverFile, img, ...meta } = song
+    // Copied into memory one song at a time, so the stored Blob does not depend on the file
+    const audio = await zip.read(audioFile, song.mimeType)
+    const data = new Blob([await audio.arrayBuffer()], { type: song.mimeType || 'audio/mpeg' })
+    let cover = img || 'musica.png'
+    if (coverFile && zip.has(coverFile)) {
+      cover = await blobToBase64(await zip.read(coverFile, coverType(coverFile)))
+    }
+    return { ...meta, img: cover, data, playlistId }
+  }
+
+  private start(operation: 'export' | 'restore') {
+    this.cancelled = false
+    this.state.value = { ...createBackupState(), running: true, operation }
+  }
+
+  private fail(error: unknown, fallback: string) {
+    console.error('[Backup]', fallback, error)
+    this.state.value.error = (error instanceof Error && error.message) || fallback
+  }
+
+  private finish() {
+    this.state.value.running = false
+    this.cancelled = false
+  }
+}
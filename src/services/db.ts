@@ -1,24 +1,166 @@
 import Dexie, { type Table } from 'dexie'
+import type { ReplayGainInfo } from './tags'
+import type { SmartPlaylist, SmartRule } from './library'
+import { normalizeText, songSearchTokens, tokenize } from './text'
+
+// What other devices may do with a playlist: nothing ('private', also when unset), see its
+// songs ('visible'), or also download them ('downloadable')
+export type PlaylistSharing = 'private' | 'visible' | 'downloadable'
 
 export interface Playlist {
   id?: number
   name: string
+  sharing?: PlaylistSharing
+  // Library sync (v10, see librarySync.ts): the same playlist on every device has the same
+  // uid, and the times its name and its order last changed decide which device wins
+  uid?: string
+  nameAt?: number
+  orderAt?: number
 }
 
+// Song metadata only. Since v6 the audio lives in the separate `audio` table, so listing,
+// counting and paging songs never pull audio payloads into memory.
+// Since v7 songs form a shared library identified by the SHA-256 of their audio; playlists
+// reference them through `entries`, so one track can appear in many playlists.
 export interface Song {
   id?: number
-  playlistId: number
+  hash?: string
   title: string
   artist: string
   year: string
   img: string
   album?: string
+  track?: number
   duration?: number
-  data: string // Base64 Data URL
+  mimeType?: string
+  size?: number // bytes of audio
+  addedAt?: number
+  loudness?: number // integrated loudness measured on import, LUFS
+  peak?: number // measured sample peak, linear
+  replayGain?: ReplayGainInfo // as tagged in the file, if it was
+  playCount?: number
+  lastPlayedAt?: number
+}
+
+export interface PlaylistEntry {
+  id?: number
+  playlistId: number
+  songId: number
+  position: number
+  addedAt?: number // v10, for library sync
+}
+
+// A library song as it appears inside one playlist
+export interface PlaylistSong extends Song {
+  id: number
+  entryId: number
+  playlistId: number
+  position: number
+}
+
+export interface AddSongResult {
+  songId: number
+  entryId: number
+  // 'library': the audio already existed and was linked; 'playlist': it was already in this playlist
+  duplicate: 'library' | 'playlist' | null
+}
+
+// A song being received from another device (v9). It survives reloads, so the download
+// can resume from the chunks already stored once the sender is reachable again.
+export interface TransferRecord {
+  id: string
+  peerId: string
+  // Proven device id of the sender (see identity.ts), so the transfer resumes after it
+  // reconnects under a new peer id
+  deviceId?: string
+  // What was asked of the peer: a whole playlist, or one song of it
+  source: { playlistId: number; songIndex?: number }
+  playlistName: string
+  playlistId: number | null // local playlist the songs go into, created when the peer answers
+  totalSongs: number
+  doneSongs: number[]
+  partial?: IncomingSong // song whose chunks are being stored
+  createdAt: number
+}
+
+export interface IncomingSong {
+  songIndex: number
+  title: string
+  artist: string
+  album: string
+  duration: number
+  mimeType: string
+  size: number
+  sha256: string
+  totalChunks: number
+}
+
+export interface TransferChunk {
+  transferId: string
+  songIndex: number
+  chunkIndex: number
+  data: ArrayBuffer
+}
+
+// Blob since v5. ArrayBuffer is the fallback for browsers that refuse to store Blobs,
+// and a string is a legacy base64 data URL that has not been migrated yet.
+export type SongData = Blob | ArrayBuffer | string
+
+export interface SongAudio {
+  songId: number
+  data: SongData
+  mimeType?: string
+}
+
+// A song as it is handed to addSong: metadata, the audio payload and the target playlist
+export type NewSong = Omit<Song, 'id'> & { data: SongData; playlistId: number }
+
+// Rows written before v6 still carry their audio inline until the split migration reaches
+// them, and rows written before v7 still carry the playlistId they were created in.
+// `searchTokens` (v8) backs the multi-entry search index and never leaves this module.
+type StoredSong = Song & { data?: SongData | null; playlistId?: number; searchTokens?: string[] }
+
+export interface Setting {
+  key: string
+  value: any
+}
+
+// Something deleted from the library (v10), remembered so that devices syncing with this
+// one delete it too instead of bringing it back. Songs are removed from playlists, never
+// deleted on their own: a song goes when no playlist has it anymore.
+export interface SyncTombstone {
+  key: string // see tombstoneKey
+  playlistUid: string
+  sha256?: string // set when a song was removed from the playlist, unset when it was deleted
+  deletedAt: number
+}
+
+// The library as compared with another device: playlists with their uid, entries with
+// the hash of their song. Songs without a hash yet are left out until they have one.
+export interface SyncSnapshot {
+  playlists: Playlist[]
+  entries: Array<PlaylistEntry & { hash: string }>
+  tombstones: SyncTombstone[]
 }
 
-// This helper is used for the migration and for adding new songs
-function blobToBase64(blob: Blob): Promise<string> {
+const AUDIO_MIGRATION_KEY = 'audioSplitMigration'
+const AUDIO_MIGRATION_BATCH = 5
+const HASH_MIGRATION_KEY = 'libraryHashMigration'
+const SEARCH_INDEX_MIGRATION_KEY = 'searchIndexMigration'
+// Search tokens only need metadata, so these batches can be much larger
+const SEARCH_INDEX_BATCH = 200
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function createPlaylistUid(): string {
+  return `pl_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+function tombstoneKey(playlistUid: string, sha256?: string): string {
+  return sha256 ? `entry:${playlistUid}:${sha256}` : `playlist:${playlistUid}`
+}
+
+// Used by the v4 migration and for embedded covers
+export function blobToBase64(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     reader.onloadend = () => resolve(reader.result as string)
@@ -27,9 +169,58 @@ function blobToBase64(blob: Blob): Promise<string> {
   })
 }
 
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const separator = dataUrl.indexOf(',')
+  const header = dataUrl.substring(0, separator)
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'audio/mpeg'
+  const binary = atob(dataUrl.substring(separator + 1))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type: mimeType })
+}
+
+export function hasAudioData(data: SongData | null | undefined): data is SongData {
+  if (!data) return false
+  if (data instanceof Blob) return data.size > 0
+  if (data instanceof ArrayBuffer) return data.byteLength > 0
+  return typeof data === 'string' && data.length > 0
+}
+
+function audioSize(data: SongData): number {
+  if (data instanceof Blob) return data.size
+  if (data instanceof ArrayBuffer) return data.byteLength
+  return Math.floor((data.length - data.indexOf(',') - 1) * 0.75)
+}
+
+// Content hash used to recognise the same audio across imports and devices
+export async function hashAudio(data: SongData): Promise<string | undefined> {
+  if (!crypto?.subtle) return undefined
+  const buffer = await audioToBlob(data).arrayBuffer()
+  const digest = await crypto.subtle.digest('SHA-256', buffer)
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Normalizes whatever is stored as audio into a Blob ready for playback or transfer
+export function audioToBlob(data: SongData, mimeType?: string): Blob {
+  if (data instanceof Blob) return data
+  if (data instanceof ArrayBuffer) {
+    return new Blob([data], { type: mimeType || 'audio/mpeg' })
+  }
+  return dataUrlToBlob(data)
+}
+
 export class MySubClassedDexie extends Dexie {
   playlists!: Table<Playlist>
-  songs!: Table<Song>
+  songs!: Table<StoredSong>
+  audio!: Table<SongAudio>
+  entries!: Table<PlaylistEntry>
+  settings!: Table<Setting>
+  smartPlaylists!: Table<SmartPlaylist>
+  transfers!: Table<TransferRecord>
+  transferChunks!: Table<TransferChunk>
+  syncTombstones!: Table<SyncTombstone>
 
   constructor() {
     // Use a simple name, versioning is handled by .version() calls
@@ -74,16 +265,366 @@ export class MySubClassedDexie extends Dexie {
             }
           })
       })
+
+    // Version 5: audio goes back to binary (Blob) storage, which is ~33% smaller than base64.
+    // Rows are not rewritten here: DbService converts them in small resumable batches after
+    // open, so a large library does not block the upgrade transaction.
+    this.version(5).stores({
+      songs: '++id, playlistId, title',
+      settings: 'key',
+    })
+
+    // Version 6: audio payloads move out of `songs` into `audio`, keyed by song id.
+    // The same background migration moves (and converts) the existing payloads.
+    this.version(6).stores({
+      songs: '++id, playlistId, title',
+      audio: 'songId',
+      settings: 'key',
+    })
+
+    // Version 7: shared library. Every existing song gets an entry in the playlist it was
+    // created in, ordered by id. Only index keys are read, so no audio is loaded here.
+    // Hashes are filled in (and duplicates merged) by a background pass after open.
+    this.version(7)
+      .stores({
+        songs: '++id, playlistId, hash, title',
+        audio: 'songId',
+        entries: '++id, playlistId, songId, [playlistId+position]',
+        settings: 'key',
+      })
+      .upgrade(async (tx) => {
+        console.log('Upgrading database to version 7: creating playlist entries...')
+        const entries: PlaylistEntry[] = []
+        const positions = new Map<number, number>()
+        await tx
+          .table('songs')
+          .orderBy('playlistId')
+          .eachKey((playlistId, cursor) => {
+            const position = positions.get(playlistId as number) ?? 0
+            positions.set(playlistId as number, position + 1)
+            entries.push({
+              playlistId: playlistId as number,
+              songId: cursor.primaryKey as number,
+              position,
+            })
+          })
+        await tx.table('entries').bulkAdd(entries)
+      })
+
+    // Version 8: library search and smart playlists. IndexedDB fills the new indexes from
+    // the existing rows; the search tokens are computed by a background pass after open.
+    this.version(8).stores({
+      songs: '++id, playlistId, hash, title, artist, album, year, addedAt, lastPlayedAt, *searchTokens',
+      audio: 'songId',
+      entries: '++id, playlistId, songId, [playlistId+position]',
+      settings: 'key',
+      smartPlaylists: '++id, name',
+    })
+    // Version 9: partial downloads from other devices. Chunks are stored as they arrive so
+    // an interrupted transfer resumes instead of starting over.
+    this.version(9).stores({
+      songs: '++id, playlistId, hash, title, artist, album, year, addedAt, lastPlayedAt, *searchTokens',
+      audio: 'songId',
+      entries: '++id, playlistId, songId, [playlistId+position]',
+      settings: 'key',
+      smartPlaylists: '++id, name',
+      transfers: 'id, peerId',
+      transferChunks: '[transferId+songIndex+chunkIndex]',
+    })
+    // Version 10: library sync between devices. Every playlist gets a uid; times start at
+    // zero, so on a first sync whatever the other device changed since wins.
+    this.version(10)
+      .stores({
+        playlists: '++id, name, uid',
+        songs: '++id, playlistId, hash, title, artist, album, year, addedAt, lastPlayedAt, *searchTokens',
+        audio: 'songId',
+        entries: '++id, playlistId, songId, [playlistId+position]',
+        settings: 'key',
+        smartPlaylists: '++id, name',
+        transfers: 'id, peerId',
+        transferChunks: '[transferId+songIndex+chunkIndex]',
+        syncTombstones: 'key, playlistUid',
+      })
+      .upgrade(async (tx) => {
+        await tx
+          .table('playlists')
+          .toCollection()
+          .modify((playlist: Playlist) => {
+            playlist.uid = playlist.uid ?? createPlaylistUid()
+            playlist.nameAt = playlist.nameAt ?? 0
+            playlist.orderAt = playlist.orderAt ?? 0
+          })
+      })
   }
 }
 
 class DbService {
   private db: MySubClassedDexie
   private openPromise: Promise<any> | null = null
+  private songsListeners = new Set<() => void>()
 
   constructor() {
     this.db = new MySubClassedDexie()
     this.openPromise = this._ensureOpen()
+    this.openPromise
+      .then(() => this.migrateAudioPayloads())
+      .then(() => this.hashLibrary())
+      .then(() => this.indexLibrary())
+      .catch((e) => console.error('[DB] Background migration failed:', e))
+  }
+
+  // Moves inline audio (base64 from v4 or Blobs from v5) into the `audio` table as Blobs.
+  // The last processed id is stored in the settings table inside the same transaction,
+  // so an interrupted run resumes there on the next start.
+  private async migrateAudioPayloads() {
+    const state = await this.db.settings.get(AUDIO_MIGRATION_KEY)
+    if (state?.value?.done) return
+
+    let cursor: number = state?.value?.lastId ?? 0
+    let moved = 0
+    console.log('[DB] Moving inline audio to the audio table from id', cursor)
+
+    for (;;) {
+      const batch = await this.db.songs
+        .where(':id')
+        .above(cursor)
+        .limit(AUDIO_MIGRATION_BATCH)
+        .toArray()
+      if (batch.length === 0) break
+
+      await this.db.transaction('rw', this.db.songs, this.db.audio, this.db.settings, async () => {
+        for (const song of batch) {
+          cursor = song.id!
+          if (!hasAudioData(song.data)) continue
+          try {
+            const blob = audioToBlob(song.data, song.mimeType)
+            await this.db.audio.put({ songId: song.id!, data: blob, mimeType: blob.type })
+            // Setting a property to undefined makes Dexie remove it from the row
+            await this.db.songs.update(song.id!, {
+              data: undefined,
+              mimeType: blob.type,
+              size: blob.size,
+            })
+            moved++
+          } catch (e) {
+            console.error('[DB] Could not migrate song audio, keeping it inline:', song.title, e)
+          }
+        }
+        await this.db.settings.put({ key: AUDIO_MIGRATION_KEY, value: { lastId: cursor } })
+      })
+
+      // Yield between batches so playback and the UI stay responsive
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+
+    await this.db.settings.put({ key: AUDIO_MIGRATION_KEY, value: { lastId: cursor, done: true } })
+    console.log('[DB] Audio migration finished,', moved, 'song(s) moved')
+  }
+
+  // Computes the content hash of songs that predate v7 and merges identical audio into a
+  // single library song, repointing its playlist entries. Resumable like the audio migration.
+  // Songs stored later without a hash (addSong on an origin without crypto.subtle) are
+  // picked up on every start once hashing works.
+  private async hashLibrary() {
+    if (!crypto?.subtle) return
+    const state = await this.db.settings.get(HASH_MIGRATION_KEY)
+    let merged = 0
+    if (state?.value?.done) {
+      const ids = (await this.db.songs.filter((song) => !song.hash).primaryKeys()) as number[]
+      for (let start = 0; start < ids.length; start += AUDIO_MIGRATION_BATCH) {
+        merged += await this.hashSongs(ids.slice(start, start + AUDIO_MIGRATION_BATCH))
+      }
+      if (ids.length > 0) console.log('[DB] Hashed', ids.length, 'song(s),', merged, 'merged')
+      return
+    }
+
+    let cursor: number = state?.value?.lastId ?? 0
+    for (;;) {
+      const ids = (await this.db.songs
+        .where(':id')
+        .above(cursor)
+        .limit(AUDIO_MIGRATION_BATCH)
+        .primaryKeys()) as number[]
+      if (ids.length === 0) break
+      cursor = ids[ids.length - 1]
+      merged += await this.hashSongs(ids, cursor)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+
+    await this.db.settings.put({ key: HASH_MIGRATION_KEY, value: { lastId: cursor, done: true } })
+    console.log('[DB] Library hashing finished,', merged, 'duplicate song(s) merged')
+  }
+
+  // Hashes the given songs that have no hash yet, merging duplicates. With `cursor`, the
+  // migration progress is saved in the same transaction. Returns how many were merged.
+  private async hashSongs(ids: number[], cursor?: number): Promise<number> {
+    // Hash outside the transaction: WebCrypto promises would let it auto-commit
+    const hashes = new Map<number, string>()
+    for (const id of ids) {
+      const song = await this.db.songs.get(id)
+      if (!song || song.hash) continue
+      const audio = await this.getSongAudio(id)
+      const hash = audio && (await hashAudio(audio))
+      if (hash) hashes.set(id, hash)
+    }
+
+    let merged = 0
+    await this.db.transaction(
+      'rw',
+      [this.db.songs, this.db.audio, this.db.entries, this.db.settings],
+      async () => {
+        for (const [id, hash] of hashes) {
+          const original = await this.db.songs.where('hash').equals(hash).first()
+          if (original && original.id !== id) {
+            await this.mergeSongInto(id, original.id!)
+            merged++
+          } else {
+            await this.db.songs.update(id, { hash })
+          }
+        }
+        if (cursor !== undefined) {
+          await this.db.settings.put({ key: HASH_MIGRATION_KEY, value: { lastId: cursor } })
+        }
+      },
+    )
+    return merged
+  }
+
+  // Fills the search tokens of songs stored before v8. Resumable like the other passes.
+  private async indexLibrary() {
+    const state = await this.db.settings.get(SEARCH_INDEX_MIGRATION_KEY)
+    if (state?.value?.done) return
+
+    let cursor: number = state?.value?.lastId ?? 0
+    for (;;) {
+      const batch = await this.db.songs
+        .where(':id')
+        .above(cursor)
+        .limit(SEARCH_INDEX_BATCH)
+        .toArray()
+      if (batch.length === 0) break
+
+      await this.db.transaction('rw', this.db.songs, this.db.settings, async () => {
+        for (const song of batch) {
+          if (!song.searchTokens) {
+            await this.db.songs.update(song.id!, { searchTokens: songSearchTokens(song) })
+          }
+        }
+        cursor = batch[batch.length - 1].id!
+        await this.db.settings.put({ key: SEARCH_INDEX_MIGRATION_KEY, value: { lastId: cursor } })
+      })
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+
+    await this.db.settings.put({
+      key: SEARCH_INDEX_MIGRATION_KEY,
+      value: { lastId: cursor, done: true },
+    })
+    this.notifySongsChanged()
+  }
+
+  // Must run inside a transaction covering songs, audio and entries
+  private async mergeSongInto(duplicateId: number, originalId: number) {
+    const entries = await this.db.entries.where('songId').equals(duplicateId).toArray()
+    for (const entry of entries) {
+      const alreadyThere = await this.db.entries
+        .where('songId')
+        .equals(originalId)
+        .filter((e) => e.playlistId === entry.playlistId)
+        .count()
+      if (alreadyThere) {
+        await this.db.entries.delete(entry.id!)
+        await this.renumberPlaylist(entry.playlistId)
+      } else {
+        await this.db.entries.update(entry.id!, { songId: originalId })
+      }
+    }
+    await this.db.audio.delete(duplicateId)
+    await this.db.songs.delete(duplicateId)
+  }
+
+  // Strips inline payloads and legacy fields so callers only ever see library metadata
+  private toMeta(row: StoredSong): Song {
+    const { data: _data, playlistId: _playlistId, searchTokens: _searchTokens, ...meta } = row
+    return meta
+  }
+
+  private notifySongsChanged() {
+    this.songsListeners.forEach((listener) => listener())
+  }
+
+  private async renumberPlaylist(playlistId: number) {
+    const entries = await this.db.entries
+      .where('[playlistId+position]')
+      .between([playlistId, Dexie.minKey], [playlistId, Dexie.maxKey])
+      .toArray()
+    await Promise.all(
+      entries.map((entry, position) =>
+        entry.position === position ? null : this.db.entries.update(entry.id!, { position }),
+      ),
+    )
+  }
+
+  // Library sync bookkeeping (see librarySync.ts), inside the caller's transaction, which
+  // must cover playlists, songs and syncTombstones.
+  // A song was put in the playlist: its order changed, and an earlier removal is undone.
+  private async noteEntryAdded(playlistId: number, songId: number) {
+    const playlist = await this.db.playlists.get(playlistId)
+    if (!playlist?.uid) return
+    await this.db.playlists.update(playlistId, { orderAt: Date.now() })
+    const song = await this.db.songs.get(songId)
+    if (song?.hash) await this.db.syncTombstones.delete(tombstoneKey(playlist.uid, song.hash))
+  }
+
+  private async noteEntriesRemoved(entries: PlaylistEntry[], deletedAt = Date.now()) {
+    for (const entry of entries) {
+      const playlist = await this.db.playlists.get(entry.playlistId)
+      const song = await this.db.songs.get(entry.songId)
+      if (!playlist?.uid || !song?.hash) continue
+      await this.db.syncTombstones.put({
+        key: tombstoneKey(playlist.uid, song.hash),
+        playlistUid: playlist.uid,
+        sha256: song.hash,
+        deletedAt,
+      })
+    }
+  }
+
+  // Deletes library songs that are no longer referenced by any playlist and returns how many.
+  // Must run inside a transaction covering songs, audio and entries.
+  private async collectOrphans(songIds: number[]): Promise<number> {
+    let deleted = 0
+    for (const songId of new Set(songIds)) {
+      const references = await this.db.entries.where('songId').equals(songId).count()
+      if (references === 0) {
+        await this.db.audio.delete(songId)
+        await this.db.songs.delete(songId)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  // Ids of the songs whose value in a text index matches, read from the index keys only
+  private async matchIndexKeys(
+    index: 'title' | 'artist' | 'album' | 'year',
+    predicate: (key: string) => boolean,
+  ): Promise<Set<number>> {
+    const ids = new Set<number>()
+    await this.db.songs.orderBy(index).eachKey((key, cursor) => {
+      if (predicate(String(key))) ids.add(cursor.primaryKey as number)
+    })
+    return ids
+  }
+
+  private async allSongIds(): Promise<Set<number>> {
+    return new Set((await this.db.songs.toCollection().primaryKeys()) as number[])
+  }
+
+  private async complement(ids: Set<number>): Promise<Set<number>> {
+    const all = await this.allSongIds()
+    ids.forEach((id) => all.delete(id))
+    return all
   }
 
   private async _ensureOpen() {
@@ -111,7 +652,13 @@ class DbService {
 
   async addPlaylist(name: string): Promise<any> {
     await this.openPromise
-    const id = await this.db.playlists.add({ name })
+    const now = Date.now()
+    const id = await this.db.playlists.add({
+      name,
+      uid: createPlaylistUid(),
+      nameAt: now,
+      orderAt: now,
+    })
     await this.db.playlists.get(id)
     return id
   }
@@ -119,13 +666,51 @@ class DbService {
   async updatePlaylist(playlist: Playlist): Promise<number> {
     await this.openPromise
     if (playlist.id) {
-      await this.db.playlists.update(playlist.id, { name: playlist.name })
+      await this.db.playlists.update(playlist.id, { name: playlist.name, nameAt: Date.now() })
       const saved = await this.db.playlists.get(playlist.id)
       return saved && saved.name === playlist.name ? 1 : 0
     }
     return 0
   }
 
+  // Adds a playlist from a backup with the uid and library sync times it had; backups made
+  // before library sync get new ones
+  async addRestoredPlaylist(playlist: Omit<Playlist, 'id'>): Promise<number> {
+    await this.openPromise
+    const now = Date.now()
+    return (await this.db.playlists.add({
+      ...playlist,
+      uid: playlist.uid ?? createPlaylistUid(),
+      nameAt: playlist.nameAt ?? now,
+      orderAt: playlist.orderAt ?? now,
+    })) as number
+  }
+
+  // Puts back the order time and the entry times a restored playlist had, which adding its
+  // songs again moved to now. `addedAt` is by song id.
+  async restoreSyncTimes(
+    playlistId: number,
+    orderAt: number,
+    addedAt: Map<number, number>,
+  ): Promise<void> {
+    await this.openPromise
+    await this.db.transaction('rw', this.db.playlists, this.db.entries, async () => {
+      const entries = await this.db.entries.where('playlistId').equals(playlistId).toArray()
+      for (const entry of entries) {
+        const at = addedAt.get(entry.songId)
+        if (at !== undefined && at !== entry.addedAt) {
+          await this.db.entries.update(entry.id!, { addedAt: at })
+        }
+      }
+      await this.db.playlists.update(playlistId, { orderAt })
+    })
+  }
+
+  async setPlaylistSharing(playlistId: number, sharing: PlaylistSharing): Promise<void> {
+    await this.openPromise
+    await this.db.playlists.update(playlistId, { sharing })
+  }
+
   async getPlaylist(id: number): Promise<Playlist | undefined> {
     await this.openPromise
     try {
@@ -140,10 +725,12 @@ class DbService {
     playlistId: number,
     limit?: number,
     offset?: number,
-  ): Promise<Song[]> {
+  ): Promise<PlaylistSong[]> {
     await this.openPromise
     try {
-      let query = this.db.songs.where({ playlistId })
+      let query = this.db.entries
+        .where('[playlistId+position]')
+        .between([playlistId, Dexie.minKey], [playlistId, Dexie.maxKey])
 
       if (offset) {
         query = query.offset(offset)
@@ -152,51 +739,676 @@ class DbService {
         query = query.limit(limit)
       }
 
-      const songs = await query.toArray()
-      // Filter out songs that might have null data from a failed migration
-      return songs.filter((song) => song && typeof song.data === 'string' && song.data.length > 0)
+      const entries = await query.toArray()
+      const songs = await this.db.songs.bulkGet(entries.map((e) => e.songId))
+      const result: PlaylistSong[] = []
+      entries.forEach((entry, i) => {
+        const song = songs[i]
+        // Skip songs whose inline data was lost by a failed v4 migration
+        if (!song || song.data === null) return
+        result.push({
+          ...this.toMeta(song),
+          id: song.id!,
+          entryId: entry.id!,
+          playlistId: entry.playlistId,
+          position: entry.position,
+        })
+      })
+      return result
     } catch (error) {
       console.error('Error getting songs:', error)
       return []
     }
   }
 
-  async addSong(song: Omit<Song, 'id'>): Promise<any> {
+  async getSong(songId: number): Promise<Song | undefined> {
+    await this.openPromise
+    const row = await this.db.songs.get(songId)
+    return row ? this.toMeta(row) : undefined
+  }
+
+  // Loads the audio of one song; only called when a track is played or transferred
+  async getSongAudio(songId: number): Promise<Blob | undefined> {
     await this.openPromise
-    // The data is now expected to be a base64 string, as conversion happens in App.vue
-    if (!song.data || typeof song.data !== 'string' || song.data.length === 0) {
+    const audio = await this.db.audio.get(songId)
+    if (audio && hasAudioData(audio.data)) {
+      return audioToBlob(audio.data, audio.mimeType)
+    }
+    // Not migrated yet: the payload is still inline on the song row
+    const row = await this.db.songs.get(songId)
+    if (row && hasAudioData(row.data)) {
+      return audioToBlob(row.data, row.mimeType)
+    }
+    return undefined
+  }
+
+  // Returns songs in the same order as the ids; missing songs are skipped
+  async getSongs(songIds: number[]): Promise<Song[]> {
+    await this.openPromise
+    const rows = await this.db.songs.bulkGet(songIds)
+    return rows.filter((row): row is StoredSong => !!row).map((row) => this.toMeta(row))
+  }
+
+  // Every song of an album, used to derive album gain when the files carry no album tags
+  async getAlbumSongs(album: string, artist: string): Promise<Song[]> {
+    await this.openPromise
+    const rows = await this.db.songs
+      .where('album')
+      .equals(album)
+      .filter((song) => song.artist === artist)
+      .toArray()
+    return rows.map((row) => this.toMeta(row))
+  }
+
+  // Songs whose title, artist, album or year contain every word of the query as a prefix,
+  // ignoring case and accents. Only the longest word goes to the index; the rest filter.
+  async searchSongs(query: string, limit = 200): Promise<Song[]> {
+    await this.openPromise
+    const words = tokenize(query)
+    if (words.length === 0) return []
+    const longest = words.reduce((a, b) => (b.length > a.length ? b : a))
+
+    const ids = (await this.db.songs
+      .where('searchTokens')
+      .startsWith(longest)
+      .distinct()
+      .primaryKeys()) as number[]
+    const rows = await this.db.songs.bulkGet(ids)
+    return rows
+      .filter((row): row is StoredSong => !!row && row.data !== null)
+      .filter((row) =>
+        words.every((word) => row.searchTokens?.some((token) => token.startsWith(word))),
+      )
+      .sort((a, b) => a.title.localeCompare(b.title))
+      .slice(0, limit)
+      .map((row) => this.toMeta(row))
+  }
+
+  // Ids of the library songs matching one smart playlist rule. Text and dates are matched on
+  // index keys, so no song row is read here.
+  async getSongIdsMatching(rule: SmartRule): Promise<Set<number>> {
+    await this.openPromise
+    const value = normalizeText(rule.value)
+
+    switch (rule.field) {
+      case 'title':
+      case 'artist':
+      case 'album': {
+        if (rule.operator === 'is') {
+          return this.matchIndexKeys(rule.field, (key) => normalizeText(key) === value)
+        }
+        const containing = await this.matchIndexKeys(rule.field, (key) =>
+          normalizeText(key).includes(value),
+        )
+        return rule.operator === 'notContains' ? this.complement(containing) : containing
+      }
+      case 'year': {
+        const year = parseInt(value, 10)
+        if (Number.isNaN(year)) return new Set()
+        return this.matchIndexKeys('year', (key) => {
+          const keyYear = parseInt(key, 10)
+          if (Number.isNaN(keyYear)) return false
+          if (rule.operator === 'before') return keyYear < year
+          if (rule.operator === 'after') return keyYear > year
+          return keyYear === year
+        })
+      }
+      case 'addedAt':
+      case 'lastPlayedAt': {
+        if (rule.operator === 'never') {
+          const played = (await this.db.songs.where('lastPlayedAt').above(0).primaryKeys()) as number[]
+          return this.complement(new Set(played))
+        }
+        const days = Math.max(0, Number(rule.value) || 0)
+        const since = Date.now() - days * DAY_MS
+        const recent = new Set(
+          (await this.db.songs.where(rule.field).aboveOrEqual(since).primaryKeys()) as number[],
+        )
+        // Songs without the date (never played, or stored before it was recorded) are not recent
+        return rule.operator === 'notInLast' ? this.complement(recent) : recent
+      }
+      default:
+        return new Set()
+    }
+  }
+
+  // Counts a play, for "never played" and "played recently" rules
+  async recordPlay(songId: number): Promise<void> {
+    await this.openPromise
+    await this.db.songs
+      .where(':id')
+      .equals(songId)
+      .modify((song) => {
+        song.playCount = (song.playCount ?? 0) + 1
+        song.lastPlayedAt = Date.now()
+      })
+    this.notifySongsChanged()
+  }
+
+  async getSmartPlaylists(): Promise<SmartPlaylist[]> {
+    await this.openPromise
+    try {
+      return await this.db.smartPlaylists.toArray()
+    } catch (error) {
+      console.error('Error getting smart playlists:', error)
+      return []
+    }
+  }
+
+  async saveSmartPlaylist(playlist: SmartPlaylist): Promise<number> {
+    await this.openPromise
+    return (await this.db.smartPlaylists.put(playlist)) as number
+  }
+
+  async deleteSmartPlaylist(id: number): Promise<void> {
+    await this.openPromise
+    await this.db.smartPlaylists.delete(id)
+  }
+
+  // Called whenever library songs are added, deleted or played, so views built from rules
+  // (smart playlists) can refresh. Returns a function that removes the listener.
+  onSongsChanged(listener: () => void): () => void {
+    this.songsListeners.add(listener)
+    return () => this.songsListeners.delete(listener)
+  }
+
+  // Library songs in id order, a page at a time, so a full export never loads them all at once
+  async getSongsAfter(afterId: number, limit: number): Promise<Song[]> {
+    await this.openPromise
+    const rows = await this.db.songs.where(':id').above(afterId).limit(limit).toArray()
+    return rows.filter((row) => row.data !== null).map((row) => this.toMeta(row))
+  }
+
+  async getAllEntries(): Promise<PlaylistEntry[]> {
+    await this.openPromise
+    return await this.db.entries.toArray()
+  }
+
+  // Empties the library before a backup is restored in place of it. Settings are kept.
+  async clearLibrary(): Promise<void> {
+    await this.openPromise
+    await this.db.transaction(
+      'rw',
+      [
+        this.db.playlists,
+        this.db.songs,
+        this.db.audio,
+        this.db.entries,
+        this.db.smartPlaylists,
+        this.db.syncTombstones,
+      ],
+      async () => {
+        await Promise.all([
+          this.db.playlists.clear(),
+          this.db.songs.clear(),
+          this.db.audio.clear(),
+          this.db.entries.clear(),
+          this.db.smartPlaylists.clear(),
+          this.db.syncTombstones.clear(),
+        ])
+      },
+    )
+    this.notifySongsChanged()
+  }
+
+  async findSongByHash(hash: string): Promise<Song | undefined> {
+    await this.openPromise
+    const row = await this.db.songs.where('hash').equals(hash).first()
+    return row ? this.toMeta(row) : undefined
+  }
+
+  // Adds a song to a playlist. If the same audio is already in the library only a new
+  // playlist entry is created, so the payload is never stored twice.
+  async addSong(song: NewSong): Promise<AddSongResult> {
+    await this.openPromise
+    if (!hasAudioData(song.data)) {
       throw new Error('Dados de áudio inválidos ou vazios.')
     }
 
-    const id = await this.db.songs.add(song)
-    const saved = await this.db.songs.get(id)
+    const { data, playlistId, ...meta } = song
+    const hash = meta.hash ?? (await hashAudio(data))
+    if (hash) {
+      const existing = await this.db.songs.where('hash').equals(hash).first()
+      if (existing) {
+        const { entryId, created } = await this.addSongToPlaylist(existing.id!, playlistId)
+        return { songId: existing.id!, entryId, duplicate: created ? 'library' : 'playlist' }
+      }
+    }
 
-    if (!saved || !saved.data) {
-      await this.db.songs.delete(id)
+    const mimeType = (data instanceof Blob && data.type) || meta.mimeType
+    const row: Omit<StoredSong, 'id'> = {
+      ...meta,
+      hash,
+      mimeType,
+      size: audioSize(data),
+      // Restored songs keep the date they were first added
+      addedAt: meta.addedAt ?? Date.now(),
+      searchTokens: songSearchTokens(meta),
+    }
+
+    const insert = (payload: SongData) =>
+      this.db.transaction(
+        'rw',
+        [this.db.playlists, this.db.songs, this.db.audio, this.db.entries, this.db.syncTombstones],
+        async () => {
+          const songId = (await this.db.songs.add(row)) as number
+          await this.db.audio.add({ songId, data: payload, mimeType })
+          const position = await this.db.entries.where('playlistId').equals(playlistId).count()
+          const entryId = (await this.db.entries.add({
+            playlistId,
+            songId,
+            position,
+            addedAt: Date.now(),
+          })) as number
+          await this.noteEntryAdded(playlistId, songId)
+          return { songId, entryId }
+        },
+      )
+
+    let ids: { songId: number; entryId: number }
+    try {
+      ids = await insert(data)
+    } catch (error) {
+      // Some browsers (older Safari) cannot store Blobs in IndexedDB; keep the raw bytes instead
+      if (!(data instanceof Blob)) throw error
+      console.warn('[DB] Blob storage failed, falling back to ArrayBuffer:', error)
+      ids = await insert(await data.arrayBuffer())
+    }
+    const saved = await this.db.audio.get(ids.songId)
+
+    if (!saved || !hasAudioData(saved.data)) {
+      await this.removeEntry(ids.entryId)
       throw new Error('Falha ao salvar o arquivo de áudio. O armazenamento pode estar cheio.')
     }
 
-    return id
+    this.notifySongsChanged()
+    return { ...ids, duplicate: null }
+  }
+
+  // Links an existing library song to a playlist (appended at the end)
+  async addSongToPlaylist(
+    songId: number,
+    playlistId: number,
+  ): Promise<{ entryId: number; created: boolean }> {
+    await this.openPromise
+    return await this.db.transaction(
+      'rw',
+      [this.db.playlists, this.db.songs, this.db.entries, this.db.syncTombstones],
+      async () => {
+        const existing = await this.db.entries
+          .where('songId')
+          .equals(songId)
+          .filter((e) => e.playlistId === playlistId)
+          .first()
+        if (existing) return { entryId: existing.id!, created: false }
+
+        const position = await this.db.entries.where('playlistId').equals(playlistId).count()
+        const entryId = (await this.db.entries.add({
+          playlistId,
+          songId,
+          position,
+          addedAt: Date.now(),
+        })) as number
+        await this.noteEntryAdded(playlistId, songId)
+        return { entryId, created: true }
+      },
+    )
+  }
+
+  // Removes a song from one playlist; the audio is deleted once no playlist uses it anymore
+  async removeEntry(entryId: number): Promise<void> {
+    await this.openPromise
+    const deleted = await this.db.transaction(
+      'rw',
+      [this.db.playlists, this.db.songs, this.db.audio, this.db.entries, this.db.syncTombstones],
+      async () => {
+        const entry = await this.db.entries.get(entryId)
+        if (!entry) return 0
+        await this.noteEntriesRemoved([entry])
+        await this.db.entries.delete(entryId)
+        await this.renumberPlaylist(entry.playlistId)
+        return this.collectOrphans([entry.songId])
+      },
+    )
+    if (deleted > 0) this.notifySongsChanged()
   }
 
+  async moveEntry(entryId: number, toIndex: number): Promise<void> {
+    await this.openPromise
+    await this.db.transaction('rw', this.db.playlists, this.db.entries, async () => {
+      const entry = await this.db.entries.get(entryId)
+      if (!entry) return
+      const entries = await this.db.entries
+        .where('[playlistId+position]')
+        .between([entry.playlistId, Dexie.minKey], [entry.playlistId, Dexie.maxKey])
+        .toArray()
+      const from = entries.findIndex((e) => e.id === entryId)
+      const target = Math.max(0, Math.min(entries.length - 1, toIndex))
+      if (from === -1 || from === target) return
+
+      const [moved] = entries.splice(from, 1)
+      entries.splice(target, 0, moved)
+      await Promise.all(
+        entries.map((e, position) =>
+          e.position === position ? null : this.db.entries.update(e.id!, { position }),
+        ),
+      )
+      await this.db.playlists.update(entry.playlistId, { orderAt: Date.now() })
+    })
+  }
+
+  // Moves an entry to the end of another playlist without touching the audio
+  async moveEntryToPlaylist(entryId: number, targetPlaylistId: number): Promise<void> {
+    await this.openPromise
+    await this.db.transaction(
+      'rw',
+      [this.db.playlists, this.db.songs, this.db.audio, this.db.entries, this.db.syncTombstones],
+      async () => {
+        const entry = await this.db.entries.get(entryId)
+        if (!entry || entry.playlistId === targetPlaylistId) return
+
+        await this.noteEntriesRemoved([entry])
+        const alreadyThere = await this.db.entries
+          .where('songId')
+          .equals(entry.songId)
+          .filter((e) => e.playlistId === targetPlaylistId)
+          .count()
+        if (alreadyThere) {
+          await this.db.entries.delete(entryId)
+        } else {
+          const position = await this.db.entries
+            .where('playlistId')
+            .equals(targetPlaylistId)
+            .count()
+          await this.db.entries.update(entryId, {
+            playlistId: targetPlaylistId,
+            position,
+            addedAt: Date.now(),
+          })
+          await this.noteEntryAdded(targetPlaylistId, entry.songId)
+        }
+        await this.renumberPlaylist(entry.playlistId)
+      },
+    )
+  }
+
+  // Removes a song from the library and from every playlist
   async deleteSong(songId: number): Promise<void> {
     await this.openPromise
-    await this.db.songs.delete(songId)
+    await this.db.transaction(
+      'rw',
+      [this.db.playlists, this.db.songs, this.db.audio, this.db.entries, this.db.syncTombstones],
+      async () => {
+        const entries = await this.db.entries.where('songId').equals(songId).toArray()
+        await this.noteEntriesRemoved(entries)
+        await this.db.entries.bulkDelete(entries.map((e) => e.id!))
+        for (const playlistId of new Set(entries.map((e) => e.playlistId))) {
+          await this.renumberPlaylist(playlistId)
+        }
+        await this.db.audio.delete(songId)
+        await this.db.songs.delete(songId)
+      },
+    )
+    this.notifySongsChanged()
+  }
+
+  // Deleting a playlist only deletes songs that no other playlist references. `deletedAt`
+  // is earlier than now when the deletion was made on another device (library sync).
+  async deletePlaylist(playlistId: number, deletedAt = Date.now()): Promise<void> {
+    await this.openPromise
+    const deleted = await this.db.transaction(
+      'rw',
+      [this.db.playlists, this.db.songs, this.db.audio, this.db.entries, this.db.syncTombstones],
+      async () => {
+        const playlist = await this.db.playlists.get(playlistId)
+        const entries = await this.db.entries.where('playlistId').equals(playlistId).toArray()
+        await this.db.entries.bulkDelete(entries.map((e) => e.id!))
+        const orphans = await this.collectOrphans(entries.map((e) => e.songId))
+        await this.db.playlists.delete(playlistId)
+        if (playlist?.uid) {
+          // What was removed from it no longer matters, only that it is gone
+          await this.db.syncTombstones.where('playlistUid').equals(playlist.uid).delete()
+          await this.db.syncTombstones.put({
+            key: tombstoneKey(playlist.uid),
+            playlistUid: playlist.uid,
+            deletedAt,
+          })
+        }
+        return orphans
+      },
+    )
+    if (deleted > 0) this.notifySongsChanged()
+  }
+
+  // Everything library sync compares (see SyncSnapshot), read in one go
+  async getSyncSnapshot(): Promise<SyncSnapshot> {
+    await this.openPromise
+    return await this.db.transaction(
+      'r',
+      [this.db.playlists, this.db.songs, this.db.entries, this.db.syncTombstones],
+      async () => {
+        // Hashes come from the index keys, without reading song rows
+        const hashes = new Map<number, string>()
+        await this.db.songs.orderBy('hash').eachKey((hash, cursor) => {
+          hashes.set(cursor.primaryKey as number, String(hash))
+        })
+        const entries: SyncSnapshot['entries'] = []
+        for (const entry of await this.db.entries.toArray()) {
+          const hash = hashes.get(entry.songId)
+          if (hash) entries.push({ ...entry, hash })
+        }
+        return {
+          playlists: await this.db.playlists.toArray(),
+          entries,
+          tombstones: await this.db.syncTombstones.toArray(),
+        }
+      },
+    )
   }
 
-  async deletePlaylist(playlistId: number): Promise<void> {
+  // Gives a playlist the uid the same playlist has on another device, along with what
+  // was removed from it
+  async setPlaylistUid(playlistId: number, uid: string): Promise<void> {
     await this.openPromise
-    await this.db.transaction('rw', this.db.playlists, this.db.songs, async () => {
-      await this.db.songs.where('playlistId').equals(playlistId).delete()
-      await this.db.playlists.delete(playlistId)
+    await this.db.transaction('rw', this.db.playlists, this.db.syncTombstones, async () => {
+      const playlist = await this.db.playlists.get(playlistId)
+      if (!playlist || playlist.uid === uid) return
+      if (playlist.uid) {
+        const tombstones = await this.db.syncTombstones
+          .where('playlistUid')
+          .equals(playlist.uid)
+          .toArray()
+        await this.db.syncTombstones.bulkDelete(tombstones.map((t) => t.key))
+        await this.db.syncTombstones.bulkPut(
+          tombstones.map((t) => ({ ...t, key: tombstoneKey(uid, t.sha256), playlistUid: uid })),
+        )
+      }
+      await this.db.playlists.update(playlistId, { uid })
+    })
+  }
+
+  // Creates or renames the playlist with this uid as another device has it, keeping that
+  // device's time of the change. Returns the playlist id.
+  async putSyncedPlaylist(playlist: { uid: string; name: string; nameAt: number }): Promise<number> {
+    const { uid, name, nameAt } = playlist
+    await this.openPromise
+    return await this.db.transaction('rw', this.db.playlists, this.db.syncTombstones, async () => {
+      await this.db.syncTombstones.delete(tombstoneKey(uid))
+      const existing = await this.db.playlists.where('uid').equals(uid).first()
+      if (!existing) {
+        return (await this.db.playlists.add({ name, uid, nameAt, orderAt: 0 })) as number
+      }
+      if (existing.name !== name || existing.nameAt !== nameAt) {
+        await this.db.playlists.update(existing.id!, { name, nameAt })
+      }
+      return existing.id!
+    })
+  }
+
+  // Remembers deletions made on another device, so they reach devices synced later
+  async putTombstones(tombstones: SyncTombstone[]): Promise<void> {
+    await this.openPromise
+    await this.db.transaction('rw', this.db.syncTombstones, async () => {
+      for (const tombstone of tombstones) {
+        const known = await this.db.syncTombstones.get(tombstone.key)
+        if (known && known.deletedAt >= tombstone.deletedAt) continue
+        await this.db.syncTombstones.put(tombstone)
+      }
     })
   }
 
+  // Brings one playlist to what library sync decided: `songs` in this order, added at these
+  // times, and `removed` gone. Songs missing from the library are left out and their hashes
+  // returned; once they are added, settling again puts them in place. Entries the other
+  // device does not know (songs without a hash yet) keep their order after the rest.
+  async settleSyncedPlaylist(
+    playlistId: number,
+    songs: Array<{ hash: string; addedAt: number }>,
+    removed: Array<{ hash: string; deletedAt: number }>,
+    orderAt: number,
+  ): Promise<string[]> {
+    await this.openPromise
+    const { missing, orphans } = await this.db.transaction(
+      'rw',
+      [this.db.playlists, this.db.songs, this.db.audio, this.db.entries, this.db.syncTombstones],
+      async () => {
+        const playlist = await this.db.playlists.get(playlistId)
+        if (!playlist?.uid) return { missing: [] as string[], orphans: 0 }
+        const uid = playlist.uid
+        const entries = await this.db.entries
+          .where('[playlistId+position]')
+          .between([playlistId, Dexie.minKey], [playlistId, Dexie.maxKey])
+          .toArray()
+        const rows = await this.db.songs.bulkGet(entries.map((e) => e.songId))
+        const byHash = new Map<string, PlaylistEntry>()
+        entries.forEach((entry, i) => {
+          const hash = rows[i]?.hash
+          if (hash) byHash.set(hash, entry)
+        })
+
+        const gone = new Set<number>()
+        for (const { hash, deletedAt } of removed) {
+          const entry = byHash.get(hash)
+          if (entry) {
+            await this.db.entries.delete(entry.id!)
+            gone.add(entry.id!)
+          }
+          await this.db.syncTombstones.put({
+            key: tombstoneKey(uid, hash),
+            playlistUid: uid,
+            sha256: hash,
+            deletedAt,
+          })
+        }
+
+        const missing: string[] = []
+        const ordered: PlaylistEntry[] = []
+        for (const { hash, addedAt } of songs) {
+          await this.db.syncTombstones.delete(tombstoneKey(uid, hash))
+          const entry = byHash.get(hash)
+          if (entry) {
+            ordered.push({ ...entry, addedAt })
+            continue
+          }
+          const song = await this.db.songs.where('hash').equals(hash).first()
+          if (!song) {
+            missing.push(hash)
+            continue
+          }
+          const added: PlaylistEntry = { playlistId, songId: song.id!, position: -1, addedAt }
+          added.id = (await this.db.entries.add(added)) as number
+          ordered.push(added)
+        }
+        const placed = new Set(ordered.map((entry) => entry.id))
+        const rest = entries.filter((entry) => !placed.has(entry.id) && !gone.has(entry.id!))
+        const before = new Map(entries.map((entry) => [entry.id, entry]))
+        await Promise.all(
+          [...ordered, ...rest].map((entry, position) => {
+            const old = before.get(entry.id)
+            if (old && old.position === position && old.addedAt === entry.addedAt) return null
+            return this.db.entries.update(entry.id!, { position, addedAt: entry.addedAt })
+          }),
+        )
+        await this.db.playlists.update(playlistId, { orderAt })
+        const orphans = await this.collectOrphans(
+          entries.filter((e) => gone.has(e.id!)).map((e) => e.songId),
+        )
+        return { missing, orphans }
+      },
+    )
+    if (orphans > 0) this.notifySongsChanged()
+    return missing
+  }
+
+  async getSetting<T = any>(key: string): Promise<T | undefined> {
+    await this.openPromise
+    try {
+      return (await this.db.settings.get(key))?.value
+    } catch (error) {
+      console.error('Error reading setting:', key, error)
+      return undefined
+    }
+  }
+
+  async setSetting(key: string, value: any): Promise<void> {
+    await this.openPromise
+    await this.db.settings.put({ key, value })
+  }
+
+  async getTransfers(): Promise<TransferRecord[]> {
+    await this.openPromise
+    return await this.db.transfers.toArray()
+  }
+
+  async saveTransfer(record: TransferRecord): Promise<void> {
+    await this.openPromise
+    await this.db.transfers.put(record)
+  }
+
+  // Removes the transfer and every chunk stored for it
+  async deleteTransfer(transferId: string): Promise<void> {
+    await this.openPromise
+    await this.db.transaction('rw', this.db.transfers, this.db.transferChunks, async () => {
+      await this.db.transfers.delete(transferId)
+      await this.transferChunkRange(transferId).delete()
+    })
+  }
+
+  async putTransferChunk(chunk: TransferChunk): Promise<void> {
+    await this.openPromise
+    await this.db.transferChunks.put(chunk)
+  }
+
+  // Indexes of the chunks already stored for one song, read from the keys only
+  async getTransferChunkIndexes(transferId: string, songIndex: number): Promise<number[]> {
+    await this.openPromise
+    const keys = await this.transferChunkRange(transferId, songIndex).primaryKeys()
+    return keys.map((key) => (key as unknown as [string, number, number])[2])
+  }
+
+  // The stored chunks of one song in order, ready to be joined into a Blob
+  async getTransferChunks(transferId: string, songIndex: number): Promise<ArrayBuffer[]> {
+    await this.openPromise
+    const chunks = await this.transferChunkRange(transferId, songIndex).toArray()
+    return chunks.map((chunk) => chunk.data)
+  }
+
+  async deleteTransferChunks(transferId: string, songIndex: number): Promise<void> {
+    await this.openPromise
+    await this.transferChunkRange(transferId, songIndex).delete()
+  }
+
+  private transferChunkRange(transferId: string, songIndex?: number) {
+    const from = songIndex === undefined ? [transferId, Dexie.minKey] : [transferId, songIndex, Dexie.minKey]
+    const to = songIndex === undefined ? [transferId, Dexie.maxKey] : [transferId, songIndex, Dexie.maxKey]
+    return this.db.transferChunks.where('[transferId+songIndex+chunkIndex]').between(from, to, true, true)
+  }
+
   async getSongCountForPlaylist(playlistId: number): Promise<number> {
     await this.openPromise
     try {
-      // Efficient count without loading full song data
-      return await this.db.songs.where('playlistId').equals(playlistId).count()
+      // Efficient count without loading any song data
+      return await this.db.entries.where('playlistId').equals(playlistId).count()
     } catch (error) {
       console.error('Error counting songs for playlist:', playlistId, error)
       return 0
@@ -0,0 +1,209 @@
+import { ref } from 'vue'
+import { dbService } from './db'
+
+export interface EqBand {
+  frequency: number
+  type: BiquadFilterType
+  q: number
+}
+
+// Gains in dB, one per band in EQ_BANDS order
+export interface EqSettings {
+  preamp: number
+  gains: number[]
+}
+
+export interface EqPreset extends EqSettings {
+  id: string
+  name: string
+  builtIn: boolean
+}
+
+interface SavedEqualizer {
+  enabled: boolean
+  settings: EqSettings
+  presetId: string | null
+  userPresets: EqPreset[]
+  playlistPresets: Record<number, string>
+}
+
+// Shelves at both ends, peaking filters an octave apart in between
+export const EQ_BANDS: EqBand[] = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000].map(
+  (frequency, index, all) => ({
+    frequency,
+    type: index === 0 ? 'lowshelf' : index === all.length - 1 ? 'highshelf' : 'peaking',
+    q: 1.41,
+  }),
+)
+export const EQ_MIN_GAIN = -12
+export const EQ_MAX_GAIN = 12
+
+const EQ_SETTING_KEY = 'equalizer'
+
+function preset(id: string, name: string, preamp: number, gains: number[]): EqPreset {
+  return { id, name, preamp, gains, builtIn: true }
+}
+
+// The preamp roughly offsets the biggest boost so presets do not clip
+export const BUILT_IN_PRESETS: EqPreset[] = [
+  preset('flat', 'Plano', 0, [0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  preset('bass', 'Reforço de graves', -6, [6, 5, 4, 2, 0, 0, 0, 0, 0, 0]),
+  preset('treble', 'Reforço de agudos', -6, [0, 0, 0, 0, 0, 1, 2, 4, 5, 6]),
+  preset('vocal', 'Vocal', -4, [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1]),
+  preset('rock', 'Rock', -4, [4, 3, 2, 0, -1, -1, 1, 2, 3, 4]),
+  preset('pop', 'Pop', -4, [-1, 0, 2, 3, 4, 3, 1, 0, -1, -1]),
+  preset('jazz', 'Jazz', -3, [3, 2, 1, 2, -1, -1, 0, 1, 2, 3]),
+  preset('classical', 'Clássica', -4, [4, 3, 2, 1, 0, 0, 0, 1, 2, 3]),
+  preset('electronic', 'Eletrônica', -5, [5, 4, 1, 0, -2, 1, 0, 1, 4, 5]),
+  preset('loudness', 'Volume baixo', -5, [5, 3, 0, 0, -1, 0, -1, 0, 3, 5]),
+]
+
+const FLAT: EqSettings = { preamp: 0, gains: EQ_BANDS.map(() => 0) }
+
+function clampGain(value: number): number {
+  return Math.min(EQ_MAX_GAIN, Math.max(EQ_MIN_GAIN, value))
+}
+
+function copySettings(settings: EqSettings): EqSettings {
+  return { preamp: settings.preamp, gains: [...settings.gains] }
+}
+
+// Keeps the EQ configuration and decides which curve applies to the track being played:
+// the playlist's own profile when it has one, otherwise the general settings.
+export class EqualizerService {
+  private apply: (settings: EqSettings) => void
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+  public readonly enabled = ref(false)
+  // General settings, edited with the sliders
+  public readonly settings = ref<EqSettings>(copySettings(FLAT))
+  // Preset the general settings came from; null once a slider was moved
+  public readonly presetId = ref<string | null>('flat')
+  public readonly userPresets = ref<EqPreset[]>([])
+  public readonly playlistPresets = ref<Record<number, string>>({})
+  public readonly activePlaylistId = ref<number | null>(null)
+
+  constructor(apply: (settings: EqSettings) => void) {
+    this.apply = apply
+  }
+
+  get presets(): EqPreset[] {
+    return [...BUILT_IN_PRESETS, ...this.userPresets.value]
+  }
+
+  // Profile of the playlist being played, if it has one
+  get playlistPreset(): EqPreset | null {
+    const playlistId = this.activePlaylistId.value
+    if (playlistId === null) return null
+    const presetId = this.playlistPresets.value[playlistId]
+    return this.presets.find((p) => p.id === presetId) ?? null
+  }
+
+  get effective(): EqSettings {
+    if (!this.enabled.value) return FLAT
+    return this.playlistPreset ?? this.settings.value
+  }
+
+  async load() {
+    const saved = await dbService.getSetting<SavedEqualizer>(EQ_SETTING_KEY)
+    if (saved) {
+      this.enabled.value = !!saved.enabled
+      this.settings.value = copySettings(saved.settings ?? FLAT)
+      this.presetId.value = saved.presetId ?? null
+      this.userPresets.value = saved.userPresets ?? []
+      this.playlistPresets.value = saved.playlistPresets ?? {}
+    }
+    this.apply(this.effective)
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled.value = enabled
+    this.changed()
+  }
+
+  selectPreset(presetId: string) {
+    const found = this.presets.find((p) => p.id === presetId)
+    if (!found) return
+    this.settings.value = copySettings(found)
+    this.presetId.value = found.id
+    this.changed()
+  }
+
+  setBandGain(index: number, gain: number) {
+    if (index < 0 || index >= EQ_BANDS.length) return
+    this.settings.value.gains[index] = clampGain(gain)
+    this.presetId.value = null
+    this.changed()
+  }
+
+  setPreamp(gain: number) {
+    this.settings.value.preamp = clampGain(gain)
+    this.presetId.value = null
+    this.changed()
+  }
+
+  // Saves the current general settings under a new name
+  savePreset(name: string): EqPreset {
+    const created: EqPreset = {
+      ...copySettings(this.settings.value),
+      id: `user-${Date.now()}`,
+      name: name.trim() || 'Meu preset',
+      builtIn: false,
+    }
+    this.userPresets.value = [...this.userPresets.value, created]
+    this.presetId.value = created.id
+    this.changed()
+    return created
+  }
+
+  deletePreset(presetId: string) {
+    this.userPresets.value = this.userPresets.value.filter((p) => p.id !== presetId)
+    if (this.presetId.value === presetId) this.presetId.value = null
+    // Playlists that used it fall back to the general settings
+    const profiles = { ...this.playlistPresets.value }
+    for (const [playlistId, id] of Object.entries(profiles)) {
+      if (id === presetId) delete profiles[Number(playlistId)]
+    }
+    this.playlistPresets.value = profiles
+    this.changed()
+  }
+
+  // null removes the playlist's own profile
+  setPlaylistPreset(playlistId: number, presetId: string | null) {
+    const profiles = { ...this.playlistPresets.value }
+    if (presetId) {
+      profiles[playlistId] = presetId
+    } else {
+      delete profiles[playlistId]
+    }
+    this.playlistPresets.value = profiles
+    this.changed()
+  }
+
+  // Called by the playback layer whenever a track from another playlist starts
+  useProfileFor(playlistId: number | null) {
+    if (this.activePlaylistId.value === playlistId) return
+    this.activePlaylistId.value = playlistId
+    this.apply(this.effective)
+  }
+
+  private changed() {
+    this.apply(this.effective)
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = setTimeout(() => this.save(), 300)
+  }
+
+  private save() {
+    this.saveTimer = null
+    const saved: SavedEqualizer = {
+      enabled: this.enabled.value,
+      settings: copySettings(this.settings.value),
+      presetId: this.presetId.value,
+      userPresets: this.userPresets.value.map((p) => ({ ...p, gains: [...p.gains] })),
+      playlistPresets: { ...this.playlistPresets.value },
+    }
+    dbService
+      .setSetting(EQ_SETTING_KEY, saved)
+      .catch((e) => console.warn('[Equalizer] Failed to save settings:', e))
+  }
+}
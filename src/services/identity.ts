@@ -0,0 +1,170 @@
+import { ref } from 'vue';
+import { dbService } from './db';
+import { base64ToBytes, bytesToBase64 } from './p2pProtocol';
+
+// Who this device is to other devices. An ECDSA keypair is created once and kept in
+// IndexedDB (the private key cannot be exported); the device id is the fingerprint of the
+// public key, so a peer proves it owns an id by signing the challenge sent in our hello.
+// Peer ids used for signaling still change every session: two tabs of the same browser
+// share the identity but must not share a signaling id.
+
+const IDENTITY_KEY = 'p2p-identity';
+// Random id used where WebCrypto is missing (pages served over plain http): it cannot be
+// proven, so peers never trust it
+const UNPROVEN_ID_KEY = 'p2p-device-id';
+const NICKNAME_KEY = 'p2p-nickname';
+const TRUSTED_KEY = 'p2p-trusted-devices';
+export const MAX_NICKNAME_LENGTH = 40;
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+interface StoredIdentity {
+  publicKey: string; // base64 SPKI
+  privateKey: CryptoKey;
+}
+
+export interface LocalIdentity {
+  deviceId: string;
+  // null when this browser cannot sign (see UNPROVEN_ID_KEY)
+  publicKey: string | null;
+}
+
+export interface TrustedDevice {
+  deviceId: string;
+  // Last nickname the device announced
+  nickname: string;
+  trustedAt: number;
+}
+
+export const canProveIdentity = (): boolean => !!globalThis.crypto?.subtle;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Device id of a public key: 128 bits of its SHA-256, in hex
+export async function fingerprint(publicKey: string): Promise<string | null> {
+  const bytes = base64ToBytes(publicKey);
+  if (!bytes || !canProveIdentity()) return null;
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+  return `key_${toHex(digest.subarray(0, 16))}`;
+}
+
+// "key_3fa92c01..." → "3FA9-2C01", short enough to compare out loud
+export function shortDeviceId(deviceId: string): string {
+  const hex = deviceId.replace(/^\w+_/, '').toUpperCase();
+  return `${hex.slice(0, 4)}-${hex.slice(4, 8)}`;
+}
+
+export function createChallenge(): string {
+  return bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+// What a peer signs to answer our challenge. The DTLS certificate fingerprints of both
+// ends tie the proof to this very connection, so a device sitting between two others
+// cannot pass one's proof on to the other.
+export function proofMessage(challenge: string, signerCertificate: string, verifierCertificate: string): string {
+  return `online-player-identity|${challenge}|${signerCertificate}|${verifierCertificate}`;
+}
+
+export function normalizeNickname(nickname: string): string {
+  return nickname.replace(/\s+/g, ' ').trim().slice(0, MAX_NICKNAME_LENGTH);
+}
+
+class IdentityService {
+  public readonly nickname = ref('');
+  public readonly trusted = ref<TrustedDevice[]>([]);
+  private identity: Promise<LocalIdentity> | null = null;
+  private privateKey: CryptoKey | null = null;
+
+  load(): Promise<LocalIdentity> {
+    this.identity ??= this.loadIdentity();
+    return this.identity;
+  }
+
+  async setNickname(nickname: string): Promise<void> {
+    await this.load();
+    this.nickname.value = normalizeNickname(nickname);
+    await dbService.setSetting(NICKNAME_KEY, this.nickname.value);
+  }
+
+  // Base64 signature, or null if this device has no key
+  async sign(message: string): Promise<string | null> {
+    await this.load();
+    if (!this.privateKey) return null;
+    const signature = await crypto.subtle.sign(SIGN_ALGORITHM, this.privateKey, new TextEncoder().encode(message));
+    return bytesToBase64(new Uint8Array(signature));
+  }
+
+  async verify(publicKey: string, message: string, signature: string): Promise<boolean> {
+    const keyBytes = base64ToBytes(publicKey);
+    const signatureBytes = base64ToBytes(signature);
+    if (!keyBytes || !signatureBytes || !canProveIdentity()) return false;
+    try {
+      const key = await crypto.subtle.importKey('spki', keyBytes, KEY_ALGORITHM, false, ['verify']);
+      return await crypto.subtle.verify(SIGN_ALGORITHM, key, signatureBytes, new TextEncoder().encode(message));
+    } catch {
+      return false;
+    }
+  }
+
+  isTrusted(deviceId: string): boolean {
+    return this.trusted.value.some((device) => device.deviceId === deviceId);
+  }
+
+  async setTrusted(deviceId: string, nickname: string, trusted: boolean): Promise<void> {
+    await this.load();
+    const others = this.trusted.value.filter((device) => device.deviceId !== deviceId);
+    this.trusted.value = trusted ? [...others, { deviceId, nickname, trustedAt: Date.now() }] : others;
+    await this.saveTrusted();
+  }
+
+  // A trusted device proved itself again; keep the nickname it now goes by
+  async rememberNickname(deviceId: string, nickname: string): Promise<void> {
+    const device = this.trusted.value.find((d) => d.deviceId === deviceId);
+    if (!device || !nickname || device.nickname === nickname) return;
+    device.nickname = nickname;
+    await this.saveTrusted();
+  }
+
+  private async saveTrusted(): Promise<void> {
+    await dbService.setSetting(TRUSTED_KEY, this.trusted.value.map((device) => ({ ...device })));
+  }
+
+  private async loadIdentity(): Promise<LocalIdentity> {
+    this.nickname.value = (await dbService.getSetting<string>(NICKNAME_KEY)) ?? '';
+    const trusted = await dbService.getSetting<TrustedDevice[]>(TRUSTED_KEY);
+    this.trusted.value = Array.isArray(trusted) ? trusted : [];
+
+    if (canProveIdentity()) {
+      try {
+        let stored = await dbService.getSetting<StoredIdentity>(IDENTITY_KEY);
+        if (!stored?.privateKey) {
+          // Public keys stay exportable even when the pair is not
+          const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+          const spki = await crypto.subtle.exportKey('spki', pair.publicKey);
+          stored = { publicKey: bytesToBase64(new Uint8Array(spki)), privateKey: pair.privateKey };
+          await dbService.setSetting(IDENTITY_KEY, stored);
+          console.log('[Identity] Created a new device keypair');
+        }
+        const deviceId = await fingerprint(stored.publicKey);
+        if (deviceId) {
+          this.privateKey = stored.privateKey;
+          return { deviceId, publicKey: stored.publicKey };
+        }
+      } catch (error) {
+        console.warn('[Identity] Could not load or create the device keypair:', error);
+      }
+    }
+
+    let deviceId = await dbService.getSetting<string>(UNPROVEN_ID_KEY);
+    if (!deviceId) {
+      deviceId = `device_${toHex(crypto.getRandomValues(new Uint8Array(16)))}`;
+      await dbService.setSetting(UNPROVEN_ID_KEY, deviceId);
+    }
+    return { deviceId, publicKey: null };
+  }
+}
+
+export const identityService = new IdentityService();
@@ -0,0 +1,300 @@
+import { type Ref } from 'vue'
+import type { NewSong } from './db'
+import { PlaylistService } from './playlist'
+import { loudnessService, type LoudnessInfo } from './loudness'
+import { tagService, pictureToDataUrl, type AudioTags } from './tags'
+
+export type ImportStatus =
+  | 'pending'
+  | 'processing'
+  | 'done'
+  | 'duplicate'
+  | 'skipped'
+  | 'error'
+  | 'cancelled'
+
+export interface ImportItem {
+  id: number
+  playlistId: number
+  name: string
+  status: ImportStatus
+  progress: number // 0..1 for the current file
+  error?: string
+}
+
+export interface ImportState {
+  running: boolean
+  items: ImportItem[]
+  processed: number
+  total: number
+}
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'mp4', 'ogg', 'oga', 'opus', 'flac', 'wav', 'webm']
+
+// Extension -> MIME type, for files that come without one (folders, archives)
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  mp4: 'audio/mp4',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+}
+
+// MIME type -> extension, for files written by exports
+const MIME_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/flac': 'flac',
+  'audio/x-flac': 'flac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+}
+
+export function createImportState(): ImportState {
+  return { running: false, items: [], processed: 0, total: 0 }
+}
+
+export function isAudioFile(file: File): boolean {
+  if (file.type.startsWith('audio/')) return true
+  // Folder imports often come without a MIME type, so fall back to the extension
+  const extension = file.name.split('.').pop()?.toLowerCase() || ''
+  return !file.type && AUDIO_EXTENSIONS.includes(extension)
+}
+
+export function audioMimeType(file: File): string {
+  if (file.type) return file.type
+  return AUDIO_MIME_TYPES[file.name.split('.').pop()?.toLowerCase() || ''] ?? 'audio/mpeg'
+}
+
+export function audioExtension(mimeType: string | undefined): string {
+  return MIME_EXTENSIONS[mimeType ?? ''] ?? 'mp3'
+}
+
+// Song metadata from the file's tags. `fallback` fills what the tags leave out, e.g. the
+// title written in a playlist file; the file name comes last.
+export function describeSong(
+  file: File,
+  tags: AudioTags,
+  fallback: { title?: string; artist?: string } = {},
+): Omit<NewSong, 'data' | 'playlistId'> {
+  return {
+    title:
+      tags.title ||
+      fallback.title ||
+      file.name.split('.').slice(0, -1).join('.') ||
+      'Música desconhecida',
+    artist: tags.artist || fallback.artist || 'Artista Desconhecido',
+    year: tags.year || new Date().getFullYear().toString(),
+    img: tags.picture ? pictureToDataUrl(tags.picture) : 'musica.png',
+    album: tags.album,
+    track: tags.track,
+    duration: tags.duration,
+    mimeType: audioMimeType(file),
+  }
+}
+
+// Reads one audio file into a song ready to be added to a playlist. The bytes are copied into
+// memory so the stored Blob no longer depends on the picked file.
+export async function readSongFile(
+  file: File,
+  fallback?: { title?: string; artist?: string },
+): Promise<Omit<NewSong, 'playlistId'>> {
+  const tags = await tagService.read(file)
+  const meta = describeSong(file, tags, fallback)
+  const data = new Blob([await file.arrayBuffer()], { type: meta.mimeType })
+  const loudness: LoudnessInfo = await loudnessService.describe(data, tags.replayGain)
+  return { ...meta, data, ...loudness }
+}
+
+// Walks dropped folders (webkitGetAsEntry) and returns every file inside them
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries: FileSystemEntry[] = []
+  for (const item of Array.from(dataTransfer.items)) {
+    const entry = item.webkitGetAsEntry?.()
+    if (entry) entries.push(entry)
+  }
+  if (entries.length === 0) return Array.from(dataTransfer.files)
+
+  const files: File[] = []
+  const walk = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject),
+      )
+      files.push(file)
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader()
+      // readEntries returns results in batches until an empty array comes back
+      let batch: FileSystemEntry[]
+      do {
+        batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+          reader.readEntries(resolve, reject),
+        )
+        for (const child of batch) await walk(child)
+      } while (batch.length > 0)
+    }
+  }
+  for (const entry of entries) await walk(entry)
+  return files
+}
+
+export class ImportService {
+  private state: Ref<ImportState>
+  private files = new Map<number, File>()
+  private nextId = 1
+  private cancelled = false
+  private activeReader: FileReader | null = null
+  private touchedPlaylists = new Set<number>()
+  private playlistService = new PlaylistService()
+
+  public onFinished: ((playlistIds: number[]) => void) | null = null
+
+  constructor(state: Ref<ImportState>) {
+    this.state = state
+  }
+
+  enqueue(playlistId: number, files: File[]) {
+    // Start a fresh report once the previous run has finished
+    if (!this.state.value.running) {
+      this.state.value = createImportState()
+    }
+
+    for (const file of files) {
+      const item: ImportItem = {
+        id: this.nextId++,
+        playlistId,
+        name: file.webkitRelativePath || file.name,
+        status: 'pending',
+        progress: 0,
+      }
+      if (!isAudioFile(file)) {
+        item.status = 'skipped'
+        item.error = 'Não é um arquivo de áudio'
+      } else {
+        this.files.set(item.id, file)
+      }
+      this.state.value.items.push(item)
+    }
+    this.state.value.total = this.state.value.items.length
+    this.state.value.processed = this.state.value.items.filter((i) => i.status === 'skipped').length
+
+    if (!this.state.value.running) {
+      this.run()
+    }
+  }
+
+  cancel() {
+    if (!this.state.value.running) return
+    this.cancelled = true
+    this.activeReader?.abort()
+  }
+
+  clear() {
+    if (this.state.value.running) return
+    this.state.value = createImportState()
+  }
+
+  private async run() {
+    this.state.value.running = true
+    this.cancelled = false
+    this.touchedPlaylists.clear()
+
+    let item: ImportItem | undefined
+    while ((item = this.state.value.items.find((i) => i.status === 'pending'))) {
+      if (this.cancelled) {
+        this.state.value.items
+          .filter((i) => i.status === 'pending')
+          .forEach((i) => {
+            i.status = 'cancelled'
+            this.files.delete(i.id)
+          })
+        break
+      }
+      await this.processItem(item)
+      this.state.value.processed++
+    }
+
+    this.state.value.running = false
+    this.cancelled = false
+    if (this.onFinished && this.touchedPlaylists.size > 0) {
+      this.onFinished(Array.from(this.touchedPlaylists))
+    }
+  }
+
+  private async processItem(item: ImportItem) {
+    const file = this.files.get(item.id)
+    if (!file) return
+
+    item.status = 'processing'
+    try {
+      const song = await this.buildSong(file, item)
+      if (this.cancelled) {
+        item.status = 'cancelled'
+        return
+      }
+      const result = await this.playlistService.addSong(song)
+      item.progress = 1
+      if (result.duplicate === 'playlist') {
+        item.status = 'duplicate'
+        item.error = 'Já está nesta playlist'
+        return
+      }
+      if (result.duplicate === 'library') {
+        item.status = 'duplicate'
+        item.error = 'Já estava na biblioteca; adicionada sem duplicar o áudio'
+      } else {
+        item.status = 'done'
+      }
+      this.touchedPlaylists.add(item.playlistId)
+    } catch (error: any) {
+      item.status = this.cancelled ? 'cancelled' : 'error'
+      item.error = error?.message || 'Erro desconhecido ao adicionar música.'
+      console.error('[Import] Failed to import', item.name, error)
+    } finally {
+      this.files.delete(item.id)
+    }
+  }
+
+  private async buildSong(file: File, item: ImportItem): Promise<NewSong> {
+    const tags = await tagService.read(file)
+    item.progress = 0.1
+    const buffer = await this.readAsArrayBuffer(file, (fraction) => {
+      item.progress = 0.1 + fraction * 0.7
+    })
+    const meta = describeSong(file, tags)
+    const data = new Blob([buffer], { type: meta.mimeType })
+    const loudness = await loudnessService.describe(data, tags.replayGain)
+    item.progress = 0.95
+
+    return { ...meta, playlistId: item.playlistId, data, ...loudness }
+  }
+
+  // Copies the file into memory so the stored Blob no longer depends on the picked file handle
+  private readAsArrayBuffer(file: Blob, onProgress: (fraction: number) => void): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader()
+      this.activeReader = reader
+      reader.onprogress = (event) => {
+        if (event.lengthComputable) onProgress(event.loaded / event.total)
+      }
+      reader.onload = () => resolve(reader.result as ArrayBuffer)
+      reader.onerror = () => reject(reader.error || new Error('Falha ao ler o arquivo.'))
+      reader.onabort = () => reject(new Error('Importação cancelada.'))
+      reader.onloadend = () => {
+        this.activeReader = null
+      }
+      reader.readAsArrayBuffer(file)
+    })
+  }
+}
@@ -0,0 +1,120 @@
+import { ref } from 'vue'
+import { dbService, type Song } from './db'
+
+export type SmartRuleField = 'title' | 'artist' | 'album' | 'year' | 'addedAt' | 'lastPlayedAt'
+
+// Text fields use contains/notContains/is, the year is/before/after, and dates
+// inLast/notInLast (in days). 'never' only applies to lastPlayedAt.
+export type SmartRuleOperator =
+  | 'contains'
+  | 'notContains'
+  | 'is'
+  | 'before'
+  | 'after'
+  | 'inLast'
+  | 'notInLast'
+  | 'never'
+
+export interface SmartRule {
+  field: SmartRuleField
+  operator: SmartRuleOperator
+  value: string
+}
+
+export type SmartSort = 'title' | 'artist' | 'recentlyAdded' | 'recentlyPlayed' | 'mostPlayed'
+
+// A playlist defined by rules instead of entries; its songs are worked out when it is shown
+// or played, so it follows the library as songs are added, removed and played
+export interface SmartPlaylist {
+  id?: number
+  name: string
+  match: 'all' | 'any'
+  rules: SmartRule[]
+  sort: SmartSort
+  limit?: number
+}
+
+export const RULE_OPERATORS: Record<SmartRuleField, SmartRuleOperator[]> = {
+  title: ['contains', 'notContains', 'is'],
+  artist: ['contains', 'notContains', 'is'],
+  album: ['contains', 'notContains', 'is'],
+  year: ['is', 'before', 'after'],
+  addedAt: ['inLast', 'notInLast'],
+  lastPlayedAt: ['inLast', 'notInLast', 'never'],
+}
+
+const sorters: Record<SmartSort, (a: Song, b: Song) => number> = {
+  title: (a, b) => a.title.localeCompare(b.title),
+  artist: (a, b) =>
+    a.artist.localeCompare(b.artist) ||
+    (a.album ?? '').localeCompare(b.album ?? '') ||
+    (a.track ?? 0) - (b.track ?? 0),
+  recentlyAdded: (a, b) => (b.addedAt ?? 0) - (a.addedAt ?? 0),
+  recentlyPlayed: (a, b) => (b.lastPlayedAt ?? 0) - (a.lastPlayedAt ?? 0),
+  mostPlayed: (a, b) => (b.playCount ?? 0) - (a.playCount ?? 0),
+}
+
+export class LibraryService {
+  // Bumped whenever library songs change, so open smart playlists know to refresh
+  public readonly revision = ref(0)
+
+  constructor() {
+    dbService.onSongsChanged(() => this.revision.value++)
+  }
+
+  async search(query: string): Promise<Song[]> {
+    try {
+      return await dbService.searchSongs(query)
+    } catch (error) {
+      console.error('[Library] Search failed:', error)
+      return []
+    }
+  }
+
+  async getSmartPlaylists(): Promise<SmartPlaylist[]> {
+    return await dbService.getSmartPlaylists()
+  }
+
+  async saveSmartPlaylist(playlist: SmartPlaylist): Promise<number> {
+    const name = playlist.name.trim()
+    if (!name) throw new Error('Nome da playlist não pode ser vazio')
+    if (name.length > 100) throw new Error('Nome muito longo. Máximo 100 caracteres.')
+    // Text rules without text would match everything (or nothing); drop them
+    const rules = playlist.rules.filter(
+      (rule) => rule.operator === 'never' || rule.value.trim() !== '',
+    )
+    if (rules.length === 0) throw new Error('Adicione pelo menos uma regra.')
+    // Copied field by field: views attach their evaluated songs to the same object
+    const { id, match, sort, limit } = playlist
+    const saved: SmartPlaylist = { name, match, rules, sort, limit }
+    if (id !== undefined) saved.id = id
+    return await dbService.saveSmartPlaylist(saved)
+  }
+
+  async deleteSmartPlaylist(id: number): Promise<void> {
+    await dbService.deleteSmartPlaylist(id)
+  }
+
+  // Songs currently matching the rules, sorted and limited as configured
+  async evaluate(playlist: SmartPlaylist): Promise<Song[]> {
+    const matches = await Promise.all(
+      playlist.rules.map((rule) => dbService.getSongIdsMatching(rule)),
+    )
+    if (matches.length === 0) return []
+
+    let ids: Set<number>
+    if (playlist.match === 'all') {
+      // Intersect starting from the smallest set
+      const [smallest, ...rest] = matches.sort((a, b) => a.size - b.size)
+      ids = new Set([...smallest].filter((id) => rest.every((set) => set.has(id))))
+    } else {
+      ids = new Set(matches.flatMap((set) => [...set]))
+    }
+
+    const songs = await dbService.getSongs([...ids])
+    songs.sort(sorters[playlist.sort] ?? sorters.title)
+    return playlist.limit ? songs.slice(0, playlist.limit) : songs
+  }
+}
+
+export const libraryService = new LibraryService()
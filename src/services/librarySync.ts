@@ -0,0 +1,425 @@
+import { ref } from 'vue';
+import { dbService, type SyncSnapshot } from './db';
+import { identityService } from './identity';
+import { p2pService } from './p2p';
+import type { MessageOf, SyncEntry, SyncPlaylist } from './p2pProtocol';
+import { peerDownloadService } from './peerDownloads';
+import { peerShareService } from './peerShare';
+import { peerStreamService } from './peerStream';
+import { describeDenial } from './sharingPolicy';
+import { planSync, type Manifest, type SettledPlaylist, type SyncPlan } from './syncPlan';
+
+// Two-way sync between a user's own devices. Both devices send each other a manifest of
+// their library: playlists by uid, their songs by hash, and what was deleted. Each then
+// works out the same merged library from the two manifests and changes its own side to
+// match, fetching the songs it lacks from the other. Whatever changed later wins, by the
+// clock of the device that made the change; a change made on both sides since the last
+// sync is written to the conflict log.
+
+const PARTNERS_KEY = 'sync-partners';
+const CONFLICTS_KEY = 'sync-conflicts';
+const MAX_CONFLICTS = 100;
+// Items per manifest message. A song entry is ~150 bytes of JSON, so a part stays well
+// under the relay's 64KB limit once encrypted.
+const PART_SIZE = 150;
+// The other device's manifest must arrive within this
+const MANIFEST_TIMEOUT_MS = 60000;
+// Partners that stay connected are synced again this often
+const RESYNC_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface SyncPartner {
+  deviceId: string;
+  // 0 until the first sync
+  lastSyncAt: number;
+}
+
+export type SyncState = 'syncing' | 'done' | 'failed';
+
+export interface SyncStatus {
+  state: SyncState;
+  message: string;
+}
+
+export interface SyncConflict {
+  at: number;
+  deviceId: string;
+  playlist: string;
+  message: string;
+}
+
+interface SyncSession {
+  syncId: string;
+  peerId: string;
+  deviceId: string;
+  // What we sent, which the merge must be worked out from
+  snapshot: SyncSnapshot | null;
+  merging: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface IncomingManifest {
+  peerId: string;
+  parts: Array<MessageOf<'sync-manifest'>['payload'] | undefined>;
+  received: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function createSyncId(): string {
+  return `y_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function toManifest(snapshot: SyncSnapshot): Manifest {
+  const uids = new Map(snapshot.playlists.map((playlist) => [playlist.id!, playlist.uid]));
+  const playlists: SyncPlaylist[] = [];
+  for (const playlist of snapshot.playlists) {
+    if (!playlist.uid) continue;
+    playlists.push({
+      uid: playlist.uid,
+      name: playlist.name,
+      nameAt: playlist.nameAt ?? 0,
+      orderAt: playlist.orderAt ?? 0,
+    });
+  }
+  const entries: SyncEntry[] = [];
+  for (const entry of snapshot.entries) {
+    const playlist = uids.get(entry.playlistId);
+    if (playlist) entries.push({ playlist, sha256: entry.hash, position: entry.position, addedAt: entry.addedAt ?? 0 });
+  }
+  const deletions = snapshot.tombstones.map(({ playlistUid, sha256, deletedAt }) =>
+    sha256 ? { playlist: playlistUid, sha256, deletedAt } : { playlist: playlistUid, deletedAt },
+  );
+  return { playlists, entries, deletions };
+}
+
+class LibrarySyncService {
+  public readonly partners = ref<SyncPartner[]>([]);
+  // By device id, for the last or current sync with that device
+  public readonly status = ref<Record<string, SyncStatus>>({});
+  // Newest first
+  public readonly conflicts = ref<SyncConflict[]>([]);
+
+  private loaded: Promise<void> | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // By device id
+  private sessions = new Map<string, SyncSession>();
+  // By sync id
+  private incoming = new Map<string, IncomingManifest>();
+
+  load(): Promise<void> {
+    this.loaded ??= Promise.all([
+      dbService.getSetting<SyncPartner[]>(PARTNERS_KEY),
+      dbService.getSetting<SyncConflict[]>(CONFLICTS_KEY),
+    ]).then(([partners, conflicts]) => {
+      this.partners.value = Array.isArray(partners) ? partners : [];
+      this.conflicts.value = Array.isArray(conflicts) ? conflicts : [];
+    });
+    return this.loaded;
+  }
+
+  async start(): Promise<void> {
+    if (this.unsubscribers.length > 0) return;
+    this.unsubscribers = [
+      p2pService.onMessage('sync-manifest', (peerId, { payload }) => this.handleManifest(peerId, payload)),
+      p2pService.onMessage('sync-song-request', (peerId, { payload }) => this.handleSongRequest(peerId, payload)),
+      p2pService.onMessage('request-denied', (peerId, { payload }) => {
+        if (payload.request !== 'sync' || payload.transferId) return;
+        const deviceId = p2pService.getDeviceId(peerId);
+        const session = deviceId ? this.sessions.get(deviceId) : undefined;
+        if (session?.peerId === peerId) this.fail(session, describeDenial(payload.reason));
+      }),
+      // Proving its identity is what makes a peer known as a partner
+      p2pService.onIdentityChange((peerId) => this.autoSync(peerId)),
+      p2pService.onDisconnect((peerId) => {
+        this.sessions.forEach((session) => {
+          if (session.peerId === peerId && !session.merging) this.fail(session, 'O outro dispositivo se desconectou.');
+        });
+      }),
+    ];
+    this.timer = setInterval(
+      () => p2pService.getAllPeerIds().forEach((peerId) => this.autoSync(peerId)),
+      RESYNC_INTERVAL_MS,
+    );
+    await this.load();
+  }
+
+  isPartner(deviceId: string): boolean {
+    return identityService.isTrusted(deviceId) && this.partners.value.some((partner) => partner.deviceId === deviceId);
+  }
+
+  // Only trusted devices can be partners; the other device must turn sync on too
+  async setPartner(deviceId: string, enabled: boolean): Promise<void> {
+    await this.load();
+    const others = this.partners.value.filter((partner) => partner.deviceId !== deviceId);
+    this.partners.value = enabled ? [...others, { deviceId, lastSyncAt: 0 }] : others;
+    await this.savePartners();
+    if (!enabled) return;
+    const peerId = p2pService.getAllPeerIds().find((id) => p2pService.getDeviceId(id) === deviceId);
+    if (peerId) await this.syncNow(peerId);
+  }
+
+  async clearConflicts(): Promise<void> {
+    this.conflicts.value = [];
+    await dbService.setSetting(CONFLICTS_KEY, []);
+  }
+
+  // Starts a sync with a connected partner, unless one is under way
+  async syncNow(peerId: string): Promise<void> {
+    await this.load();
+    const deviceId = p2pService.getDeviceId(peerId);
+    if (!deviceId || !this.isPartner(deviceId))
+      throw new Error('A sincronização não está ativada para este dispositivo.');
+    if (this.sessions.has(deviceId)) return;
+    const session: SyncSession = {
+      syncId: createSyncId(),
+      peerId,
+      deviceId,
+      snapshot: null,
+      merging: false,
+      timer: null,
+    };
+    this.sessions.set(deviceId, session);
+    this.setStatus(deviceId, 'syncing', 'Comparando as bibliotecas...');
+    session.snapshot = await dbService.getSyncSnapshot();
+    this.sendManifest(session, false);
+    session.timer = setTimeout(() => this.fail(session, 'O outro dispositivo não respondeu.'), MANIFEST_TIMEOUT_MS);
+  }
+
+  // The device with the smaller id starts, so two devices coming online do not both do
+  private async autoSync(peerId: string): Promise<void> {
+    const deviceId = p2pService.getDeviceId(peerId);
+    if (!deviceId || this.sessions.has(deviceId)) return;
+    await this.load();
+    const local = await identityService.load();
+    if (!this.isPartner(deviceId) || local.deviceId > deviceId) return;
+    const partner = this.partners.value.find((p) => p.deviceId === deviceId)!;
+    // Nickname changes also come through here; a recent sync is enough
+    if (Date.now() - partner.lastSyncAt < RESYNC_INTERVAL_MS / 2) return;
+    await this.syncNow(peerId).catch((error) => console.warn('[LibrarySync] Sync did not start:', error));
+  }
+
+  private sendManifest(session: SyncSession, answer: boolean): void {
+    const { playlists, entries, deletions } = toManifest(session.snapshot!);
+    const parts = Math.max(1, Math.ceil((playlists.length + entries.length + deletions.length) / PART_SIZE));
+    for (let part = 0; part < parts; part++) {
+      // Items are numbered playlists first, then entries, then deletions
+      const from = part * PART_SIZE;
+      const slice = <T>(list: T[], start: number) =>
+        list.slice(Math.max(0, from - start), Math.max(0, from + PART_SIZE - start));
+      p2pService.sendTo(session.peerId, {
+        type: 'sync-manifest',
+        payload: {
+          syncId: session.syncId,
+          answer,
+          part,
+          parts,
+          playlists: slice(playlists, 0),
+          entries: slice(entries, playlists.length),
+          deletions: slice(deletions, playlists.length + entries.length),
+        },
+      });
+    }
+  }
+
+  private async handleManifest(peerId: string, payload: MessageOf<'sync-manifest'>['payload']): Promise<void> {
+    await this.load();
+    const deviceId = p2pService.getDeviceId(peerId);
+    if (!deviceId || !this.isPartner(deviceId)) {
+      if (payload.part === 0) {
+        p2pService.sendTo(peerId, { type: 'request-denied', payload: { request: 'sync', reason: 'not-paired' } });
+      }
+      return;
+    }
+    if (payload.parts === 0 || payload.part >= payload.parts) return;
+    let incoming = this.incoming.get(payload.syncId);
+    if (!incoming) {
+      incoming = {
+        peerId,
+        parts: new Array(payload.parts),
+        received: 0,
+        timer: setTimeout(() => this.incoming.delete(payload.syncId), MANIFEST_TIMEOUT_MS),
+      };
+      this.incoming.set(payload.syncId, incoming);
+    }
+    if (incoming.peerId !== peerId || incoming.parts.length !== payload.parts || incoming.parts[payload.part]) return;
+    incoming.parts[payload.part] = payload;
+    if (++incoming.received < payload.parts) return;
+
+    clearTimeout(incoming.timer);
+    this.incoming.delete(payload.syncId);
+    const remote: Manifest = { playlists: [], entries: [], deletions: [] };
+    incoming.parts.forEach((part) => {
+      remote.playlists.push(...part!.playlists);
+      remote.entries.push(...part!.entries);
+      remote.deletions.push(...part!.deletions);
+    });
+
+    let session = this.sessions.get(deviceId);
+    if (payload.answer) {
+      if (session?.syncId !== payload.syncId || session.merging) return;
+    } else {
+      // Both devices started at once: the one with the smaller id goes on with its own
+      const local = await identityService.load();
+      if (session && (session.merging || local.deviceId < deviceId)) return;
+      if (session) this.finish(session);
+      session = { syncId: payload.syncId, peerId, deviceId, snapshot: null, merging: false, timer: null };
+      this.sessions.set(deviceId, session);
+      this.setStatus(deviceId, 'syncing', 'Comparando as bibliotecas...');
+      session.snapshot = await dbService.getSyncSnapshot();
+      this.sendManifest(session, true);
+    }
+    await this.merge(session, remote);
+  }
+
+  private async merge(session: SyncSession, remote: Manifest): Promise<void> {
+    if (session.timer) clearTimeout(session.timer);
+    session.merging = true;
+    const { deviceId, peerId } = session;
+    const partner = this.partners.value.find((p) => p.deviceId === deviceId);
+    const startedAt = Date.now();
+    try {
+      const local = await identityService.load();
+      const snapshot = session.snapshot!;
+      const plan = planSync(toManifest(snapshot), remote, local.deviceId > deviceId, partner?.lastSyncAt ?? 0);
+
+      const ids = new Map(snapshot.playlists.map((playlist) => [playlist.uid, playlist.id!]));
+      for (const [uid, shared] of plan.relabel) {
+        if (uid === shared) continue;
+        await dbService.setPlaylistUid(ids.get(uid)!, shared);
+        ids.set(shared, ids.get(uid)!);
+        ids.delete(uid);
+      }
+      for (const { uid, deletedAt } of plan.deletePlaylists) {
+        const playlistId = ids.get(uid);
+        if (playlistId !== undefined) await dbService.deletePlaylist(playlistId, deletedAt);
+      }
+      await dbService.putTombstones(
+        plan.deletions.map(({ uid, deletedAt }) => ({ key: `playlist:${uid}`, playlistUid: uid, deletedAt })),
+      );
+
+      // Songs this device lacks, and the playlists waiting for each
+      const missing = new Map<string, number[]>();
+      const settled = new Map<number, SettledPlaylist>();
+      for (const playlist of plan.settle) {
+        const playlistId = await dbService.putSyncedPlaylist(playlist);
+        settled.set(playlistId, playlist);
+        const lacking = await dbService.settleSyncedPlaylist(
+          playlistId,
+          playlist.songs,
+          playlist.removed,
+          playlist.orderAt,
+        );
+        lacking.forEach((hash) => missing.set(hash, [...(missing.get(hash) ?? []), playlistId]));
+      }
+
+      const failed = await this.fetchMissing(session, missing);
+      // Puts the songs that arrived in their place, in every playlist that has them
+      const waiting = new Set([...missing.values()].flat());
+      for (const playlistId of waiting) {
+        const playlist = settled.get(playlistId)!;
+        await dbService.settleSyncedPlaylist(playlistId, playlist.songs, playlist.removed, playlist.orderAt);
+      }
+
+      await this.logConflicts(deviceId, plan.conflicts);
+      if (partner) {
+        // Changes made while this sync ran count as made after it
+        partner.lastSyncAt = startedAt;
+        await this.savePartners();
+      }
+      if (failed > 0) {
+        this.setStatus(
+          deviceId,
+          'failed',
+          `${failed} música(s) não chegaram; serão pedidas de novo na próxima sincronização.`,
+        );
+      } else {
+        this.setStatus(deviceId, 'done', `Bibliotecas sincronizadas; ${missing.size} música(s) recebida(s).`);
+      }
+      console.log('[LibrarySync] ✅ Synced with', p2pService.getPeerName(peerId), `(${missing.size} songs fetched)`);
+    } catch (error: any) {
+      console.error('[LibrarySync] ❌ Sync failed:', error);
+      this.setStatus(deviceId, 'failed', `A sincronização falhou: ${error?.message || 'erro desconhecido'}`);
+    } finally {
+      this.finish(session);
+    }
+  }
+
+  // Fetches the songs one at a time, into the first playlist that has each. Returns how
+  // many did not arrive.
+  private async fetchMissing(session: SyncSession, missing: Map<string, number[]>): Promise<number> {
+    let done = 0;
+    let failed = 0;
+    for (const [hash, playlistIds] of missing) {
+      this.setStatus(session.deviceId, 'syncing', `Recebendo músicas: ${done + failed + 1} de ${missing.size}`);
+      try {
+        const { header, audio } = await peerStreamService.fetch(session.peerId, hash, (transferId) => ({
+          type: 'sync-song-request',
+          payload: { transferId, sha256: hash },
+        }));
+        await peerDownloadService.saveSong(playlistIds[0], header, audio, hash);
+        done++;
+      } catch (error) {
+        console.warn('[LibrarySync] Song', hash, 'did not arrive:', error);
+        failed++;
+      }
+    }
+    return failed;
+  }
+
+  // Partners get any song of the library they ask for by hash, without a prompt
+  private async handleSongRequest(
+    peerId: string,
+    { transferId, sha256 }: MessageOf<'sync-song-request'>['payload'],
+  ): Promise<void> {
+    await this.load();
+    const deviceId = p2pService.getDeviceId(peerId);
+    if (!deviceId || !this.isPartner(deviceId)) {
+      p2pService.sendTo(peerId, {
+        type: 'request-denied',
+        payload: { request: 'sync', reason: 'not-paired', transferId },
+      });
+      return;
+    }
+    const song = await dbService.findSongByHash(sha256);
+    if (!song) {
+      p2pService.sendTo(peerId, { type: 'clone-error', payload: { transferId, message: 'Música não encontrada.' } });
+      return;
+    }
+    await peerShareService.sendSongTo(peerId, transferId, song);
+  }
+
+  private async logConflicts(deviceId: string, conflicts: SyncPlan['conflicts']): Promise<void> {
+    if (conflicts.length === 0) return;
+    const at = Date.now();
+    const logged = conflicts.map((conflict) => ({ at, deviceId, ...conflict }));
+    this.conflicts.value = [...logged, ...this.conflicts.value].slice(0, MAX_CONFLICTS);
+    await dbService.setSetting(
+      CONFLICTS_KEY,
+      this.conflicts.value.map((conflict) => ({ ...conflict })),
+    );
+  }
+
+  private fail(session: SyncSession, message: string): void {
+    if (this.sessions.get(session.deviceId) !== session) return;
+    this.setStatus(session.deviceId, 'failed', message);
+    this.finish(session);
+  }
+
+  private finish(session: SyncSession): void {
+    if (session.timer) clearTimeout(session.timer);
+    if (this.sessions.get(session.deviceId) === session) this.sessions.delete(session.deviceId);
+  }
+
+  private setStatus(deviceId: string, state: SyncState, message: string): void {
+    this.status.value = { ...this.status.value, [deviceId]: { state, message } };
+  }
+
+  private async savePartners(): Promise<void> {
+    await dbService.setSetting(
+      PARTNERS_KEY,
+      this.partners.value.map((partner) => ({ ...partner })),
+    );
+  }
+}
+
+export const librarySyncService = new LibrarySyncService();
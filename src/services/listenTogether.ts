@@ -0,0 +1,644 @@
+import { ref } from 'vue';
+import { dbService, hashAudio, type Song } from './db';
+import { p2pService } from './p2p';
+import type { ListenState, ListenTrack, MessageOf } from './p2pProtocol';
+import { peerShareService } from './peerShare';
+import { peerStreamService } from './peerStream';
+import type { PlaybackEvent, PlaybackService, QueueItem } from './playback';
+import { describeDenial, sharingPolicy } from './sharingPolicy';
+
+// Listen-together sessions. The host plays as usual and sends its playback state (track,
+// position, playing or not) to every guest whenever it changes and every few seconds.
+// Guests estimate the offset between their clock and the host's the way NTP does, so
+// they can tell where the host is right now, and nudge their own playback towards it.
+// Tracks a guest does not have are streamed from the host into memory.
+
+// Guests compare their position with the host's this often
+const SYNC_INTERVAL_MS = 1000;
+// The host repeats its state this often, for guests that missed a change
+const HEARTBEAT_MS = 5000;
+// Further off than this (in seconds) a guest jumps to the host's position; closer, it
+// plays slightly faster or slower until it caught up, which cannot be heard
+const SEEK_THRESHOLD = 0.5;
+const DRIFT_TOLERANCE = 0.03;
+const MAX_RATE_CORRECTION = 0.05;
+// Clock samples: a quick burst when joining, then one every few seconds
+const CLOCK_BURST = 5;
+const CLOCK_BURST_INTERVAL_MS = 250;
+const CLOCK_PING_MS = 5000;
+const CLOCK_SAMPLES = 10;
+const MAX_UPCOMING = 10;
+// Songs received from other devices kept in memory, besides those in the queue
+const CACHE_SIZE = 3;
+
+export type ListenRole = 'host' | 'guest';
+
+// A session announced by another device in the room
+export interface ListenSession {
+  peerId: string;
+  sessionId: string;
+  guestsCanQueue: boolean;
+}
+
+export interface CurrentSession {
+  role: ListenRole;
+  sessionId: string;
+  // The host's peer id; empty when hosting
+  hostId: string;
+  guestsCanQueue: boolean;
+}
+
+interface ClockSample {
+  offset: number;
+  roundTrip: number;
+}
+
+interface SessionAudio {
+  song: Song;
+  audio: Blob;
+}
+
+// Milliseconds that only move forward, unlike Date.now()
+const now = (): number => performance.timeOrigin + performance.now();
+
+// A song known only from a session, outside the library
+function sessionSong(track: ListenTrack, mimeType: string): Song {
+  return {
+    hash: track.sha256,
+    title: track.title,
+    artist: track.artist,
+    album: track.album,
+    duration: track.duration,
+    year: '',
+    img: 'musica.png',
+    mimeType,
+  };
+}
+
+function createSessionId(): string {
+  return `l_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+class ListenTogetherService {
+  public readonly sessions = ref<ListenSession[]>([]);
+  public readonly current = ref<CurrentSession | null>(null);
+  // Peer ids of the guests, when hosting
+  public readonly guests = ref<string[]>([]);
+  // What plays after the current track on the host
+  public readonly upcoming = ref<ListenTrack[]>([]);
+  // Progress and problems, for the panel
+  public readonly status = ref<string | null>(null);
+  // How far a guest was from the host at the last check, in milliseconds
+  public readonly drift = ref<number | null>(null);
+
+  private unsubscribers: Array<() => void> = [];
+  private playback: PlaybackService | null = null;
+  private playbackUnsubscribe: (() => void) | null = null;
+  // The heartbeat when hosting, the position check when listening
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private clockTimer: ReturnType<typeof setTimeout> | null = null;
+  // Hashes of library songs that were imported before songs had one
+  private hashes = new Map<number, string>();
+  private cache = new Map<string, SessionAudio>();
+  private fetching = new Map<string, Promise<SessionAudio>>();
+
+  // Host: tracks in the last state sent, which guests may ask for
+  private shared = new Set<string>();
+  private publishing = false;
+  private republish = false;
+
+  // Guest
+  private state: ListenState | null = null;
+  private clock: ClockSample[] = [];
+  // Host clock minus ours
+  private offset = 0;
+  private loadedHash: string | null = null;
+  private loadedQueueId: number | null = null;
+  private loadToken = 0;
+  // False while the guest paused on their own; playing again catches up with the host
+  private following = true;
+  private expectingPause = false;
+  // Songs offered to the host's queue, which the host may ask for
+  private suggested = new Set<string>();
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+    this.unsubscribers = [
+      p2pService.onMessage('listen-session', (peerId, { payload }) => this.handleAnnouncement(peerId, payload)),
+      p2pService.onMessage('listen-end', (peerId, { payload }) => this.handleEnd(peerId, payload.sessionId)),
+      p2pService.onMessage('listen-join', (peerId, { payload }) => this.handleJoin(peerId, payload.sessionId)),
+      p2pService.onMessage('listen-leave', (peerId, { payload }) => {
+        if (this.hosted(payload.sessionId)) this.removeGuest(peerId);
+      }),
+      p2pService.onMessage('listen-state', (peerId, { payload }) => this.handleState(peerId, payload)),
+      p2pService.onMessage('listen-queue-add', (peerId, { payload }) => this.handleQueueAdd(peerId, payload)),
+      p2pService.onMessage('listen-track-request', (peerId, { payload }) =>
+        this.handleTrackRequest(peerId, payload),
+      ),
+      // Refused tracks carry a transfer id and are peerStream's business
+      p2pService.onMessage('request-denied', (peerId, { payload }) => {
+        const session = this.current.value;
+        if (payload.request !== 'listen' || payload.transferId || session?.hostId !== peerId) return;
+        this.reset(`Não foi possível entrar na sessão: ${describeDenial(payload.reason)}`);
+      }),
+      p2pService.onMessage('clock-ping', (peerId, { payload }) => {
+        p2pService.sendTo(peerId, { type: 'clock-pong', payload: { sentAt: payload.sentAt, receivedAt: now() } });
+      }),
+      p2pService.onMessage('clock-pong', (peerId, { payload }) => this.handlePong(peerId, payload)),
+      p2pService.onConnect((peerId) => {
+        if (this.current.value?.role === 'host') this.announce(peerId);
+      }),
+      p2pService.onDisconnect((peerId) => this.handleGone(peerId)),
+    ];
+  }
+
+  // The player hands over its playback while it is open. Sessions need it, so closing the
+  // player ends or leaves the session.
+  attach(playback: PlaybackService): void {
+    this.playbackUnsubscribe?.();
+    this.playback = playback;
+    this.playbackUnsubscribe = playback.onChange((event) => this.handlePlayback(event));
+  }
+
+  detach(playback: PlaybackService): void {
+    if (this.playback !== playback) return;
+    this.leave();
+    this.playbackUnsubscribe?.();
+    this.playbackUnsubscribe = null;
+    this.playback = null;
+  }
+
+  // --- Hosting ---
+
+  // Shares whatever this device plays with the devices in the room that join
+  startSession(guestsCanQueue: boolean): void {
+    if (!this.playback) throw new Error('Abra o player para começar uma sessão.');
+    this.leave();
+    this.current.value = { role: 'host', sessionId: createSessionId(), hostId: '', guestsCanQueue };
+    this.status.value = null;
+    this.announce();
+    this.timer = setInterval(() => this.publishState(), HEARTBEAT_MS);
+    console.log('[ListenTogether] 🎧 Session started');
+  }
+
+  setGuestsCanQueue(guestsCanQueue: boolean): void {
+    const session = this.current.value;
+    if (session?.role !== 'host') return;
+    session.guestsCanQueue = guestsCanQueue;
+    this.announce();
+    this.publishState();
+  }
+
+  // Ends the session when hosting, leaves it when listening
+  leave(): void {
+    const session = this.current.value;
+    if (!session) return;
+    if (session.role === 'host') {
+      p2pService.broadcast({ type: 'listen-end', payload: { sessionId: session.sessionId } });
+    } else {
+      p2pService.sendTo(session.hostId, { type: 'listen-leave', payload: { sessionId: session.sessionId } });
+      peerStreamService.cancelFrom(session.hostId);
+    }
+    this.reset(null);
+  }
+
+  private announce(peerId?: string): void {
+    const session = this.current.value;
+    if (session?.role !== 'host') return;
+    const message = {
+      type: 'listen-session' as const,
+      payload: { sessionId: session.sessionId, guestsCanQueue: session.guestsCanQueue },
+    };
+    if (peerId) {
+      p2pService.sendTo(peerId, message);
+    } else {
+      p2pService.broadcast(message);
+    }
+  }
+
+  private async handleJoin(peerId: string, sessionId: string): Promise<void> {
+    if (!this.hosted(sessionId)) return;
+    if ((await sharingPolicy.permissionOf(peerId)) === 'blocked') {
+      p2pService.sendTo(peerId, { type: 'request-denied', payload: { request: 'listen', reason: 'blocked' } });
+      return;
+    }
+    if (!this.hosted(sessionId)) return;
+    console.log('[ListenTogether] Guest joined:', peerId);
+    if (!this.guests.value.includes(peerId)) this.guests.value = [...this.guests.value, peerId];
+    this.publishState();
+  }
+
+  private removeGuest(peerId: string): void {
+    this.guests.value = this.guests.value.filter((guest) => guest !== peerId);
+  }
+
+  // Sends the current state to every guest. Changes that come in while it is being worked
+  // out are sent right after, so the last one always goes out.
+  private async publishState(): Promise<void> {
+    if (this.publishing) {
+      this.republish = true;
+      return;
+    }
+    this.publishing = true;
+    try {
+      do {
+        this.republish = false;
+        const state = await this.hostState();
+        if (!state) break;
+        this.shared = new Set([state.track, ...state.upcoming].flatMap((track) => (track ? [track.sha256] : [])));
+        this.upcoming.value = state.upcoming;
+        this.guests.value.forEach((peerId) => p2pService.sendTo(peerId, { type: 'listen-state', payload: state }));
+      } while (this.republish);
+    } catch (error) {
+      console.warn('[ListenTogether] Could not send the playback state:', error);
+    } finally {
+      this.publishing = false;
+    }
+  }
+
+  private async hostState(): Promise<ListenState | null> {
+    const session = this.current.value;
+    const playback = this.playback;
+    if (session?.role !== 'host' || !playback) return null;
+    const item = playback.currentItem;
+    const track = item ? await this.trackOf(item) : undefined;
+    const upcoming: ListenTrack[] = [];
+    for (const next of playback.upNext.slice(0, MAX_UPCOMING)) {
+      const info = await this.trackOf(next);
+      if (info) upcoming.push(info);
+    }
+    // Read last, so the position belongs to the moment the state is sent
+    return {
+      sessionId: session.sessionId,
+      track,
+      playing: playback.playing,
+      position: playback.position,
+      at: now(),
+      upcoming,
+      guestsCanQueue: session.guestsCanQueue,
+    };
+  }
+
+  private async handleQueueAdd(peerId: string, { sessionId, track }: MessageOf<'listen-queue-add'>['payload']): Promise<void> {
+    const session = this.hosted(sessionId);
+    const playback = this.playback;
+    if (!session?.guestsCanQueue || !playback || !this.guests.value.includes(peerId)) return;
+    try {
+      const song = await dbService.findSongByHash(track.sha256);
+      if (song) {
+        playback.addToQueue(song);
+      } else {
+        const received = await this.fetchTrack(peerId, sessionId, track);
+        if (this.playback === playback && this.hosted(sessionId)) playback.addToQueue(received.song, received.audio);
+      }
+      console.log('[ListenTogether] Queued for', peerId, ':', track.title);
+    } catch (error: any) {
+      this.status.value = `Não foi possível receber "${track.title}": ${error.message}`;
+    }
+  }
+
+  // --- Listening ---
+
+  // Joins a session another device announced. Call it from the click, so that the browser
+  // lets the music start when it arrives.
+  join(peerId: string): void {
+    const announced = this.sessions.value.find((session) => session.peerId === peerId);
+    if (!announced) return;
+    if (!this.playback) throw new Error('Abra o player para ouvir junto.');
+    this.leave();
+    this.playback.unlock();
+    this.current.value = {
+      role: 'guest',
+      sessionId: announced.sessionId,
+      hostId: peerId,
+      guestsCanQueue: announced.guestsCanQueue,
+    };
+    this.status.value = 'Entrando na sessão...';
+    p2pService.sendTo(peerId, { type: 'listen-join', payload: { sessionId: announced.sessionId } });
+    this.startClock(peerId);
+    this.timer = setInterval(() => this.synchronize(), SYNC_INTERVAL_MS);
+  }
+
+  // Offers a library song for the host's queue, when the host allows it
+  async suggest(song: Song): Promise<void> {
+    const session = this.current.value;
+    if (session?.role !== 'guest') return;
+    if (!session.guestsCanQueue) throw new Error('O anfitrião não permite adicionar músicas à fila.');
+    const sha256 = await this.hashOf(song);
+    if (!sha256) throw new Error('Não foi possível ler esta música.');
+    this.suggested.add(sha256);
+    p2pService.sendTo(session.hostId, {
+      type: 'listen-queue-add',
+      payload: {
+        sessionId: session.sessionId,
+        track: { sha256, title: song.title, artist: song.artist, album: song.album ?? '', duration: song.duration ?? 0 },
+      },
+    });
+  }
+
+  private startClock(hostId: string): void {
+    let sent = 0;
+    const ping = () => {
+      p2pService.sendTo(hostId, { type: 'clock-ping', payload: { sentAt: now() } });
+      sent++;
+      this.clockTimer = setTimeout(ping, sent < CLOCK_BURST ? CLOCK_BURST_INTERVAL_MS : CLOCK_PING_MS);
+    };
+    ping();
+  }
+
+  private handlePong(peerId: string, { sentAt, receivedAt }: MessageOf<'clock-pong'>['payload']): void {
+    const session = this.current.value;
+    if (session?.role !== 'guest' || session.hostId !== peerId) return;
+    const arrived = now();
+    const roundTrip = arrived - sentAt;
+    if (roundTrip < 0) return;
+    // The host read its clock about halfway through the round trip
+    this.clock.push({ offset: receivedAt - (sentAt + arrived) / 2, roundTrip });
+    if (this.clock.length > CLOCK_SAMPLES) this.clock.shift();
+    // The quickest round trip left the least room for a delay on one way only
+    const best = this.clock.reduce((a, b) => (b.roundTrip < a.roundTrip ? b : a));
+    const first = this.clock.length === 1;
+    this.offset = best.offset;
+    if (first) this.synchronize();
+  }
+
+  private handleState(peerId: string, state: ListenState): void {
+    const session = this.current.value;
+    if (session?.role !== 'guest' || session.hostId !== peerId || session.sessionId !== state.sessionId) return;
+    if (!this.state) this.status.value = null;
+    this.state = state;
+    session.guestsCanQueue = state.guestsCanQueue;
+    this.upcoming.value = state.upcoming;
+    this.synchronize();
+    this.prefetch(session, state.upcoming[0]);
+  }
+
+  // Where the host is now, by its last state and the clock offset
+  private hostPosition(state: ListenState): number {
+    if (!state.playing) return state.position;
+    return state.position + (now() + this.offset - state.at) / 1000;
+  }
+
+  private synchronize(): void {
+    const session = this.current.value;
+    const playback = this.playback;
+    const state = this.state;
+    if (session?.role !== 'guest' || !playback || !state || this.clock.length === 0) return;
+    const track = state.track;
+    const ours = this.loadedQueueId !== null && playback.currentItem?.queueId === this.loadedQueueId;
+    if (!track) {
+      // The host stopped
+      if (ours && playback.playing) this.pauseLocally();
+      return;
+    }
+    const target = this.hostPosition(state);
+    // A new track, or ours was stopped (e.g. by the media keys) while the host plays on
+    const stopped = this.loadedQueueId !== null && !ours && target < track.duration - 1;
+    if (track.sha256 !== this.loadedHash || stopped) {
+      this.loadTrack(session, track);
+      return;
+    }
+    // Still arriving, or paused by the guest
+    if (!ours || !this.following) return;
+
+    if (!state.playing) {
+      playback.setPlaybackRate(1);
+      this.drift.value = null;
+      if (playback.playing) this.pauseLocally();
+      if (Math.abs(playback.position - target) > SEEK_THRESHOLD) playback.seek(target);
+      return;
+    }
+    // The host is about to move on to the next track
+    if (playback.duration && target >= playback.duration) return;
+    if (!playback.playing) {
+      playback.seek(target);
+      playback.resume();
+      return;
+    }
+    const error = playback.position - target;
+    this.drift.value = Math.round(error * 1000);
+    if (Math.abs(error) > SEEK_THRESHOLD) {
+      playback.setPlaybackRate(1);
+      playback.seek(target);
+    } else if (Math.abs(error) > DRIFT_TOLERANCE) {
+      // Ahead plays slower, behind plays faster, catching up within about a second
+      playback.setPlaybackRate(1 - Math.max(-MAX_RATE_CORRECTION, Math.min(MAX_RATE_CORRECTION, error)));
+    } else {
+      playback.setPlaybackRate(1);
+    }
+  }
+
+  // Plays the host's track from the library, or from the host when it is not there
+  private async loadTrack(session: CurrentSession, track: ListenTrack): Promise<void> {
+    const playback = this.playback!;
+    const token = ++this.loadToken;
+    this.loadedHash = track.sha256;
+    this.loadedQueueId = null;
+    this.drift.value = null;
+    try {
+      let song = await dbService.findSongByHash(track.sha256);
+      let audio: Blob | undefined;
+      if (!song) {
+        this.status.value = `Recebendo "${track.title}" do anfitrião...`;
+        ({ song, audio } = await this.fetchTrack(session.hostId, session.sessionId, track, (fraction) => {
+          if (token === this.loadToken) {
+            this.status.value = `Recebendo "${track.title}" do anfitrião... ${Math.round(fraction * 100)}%`;
+          }
+        }));
+      }
+      if (token !== this.loadToken || this.playback !== playback || !this.state) return;
+      this.status.value = null;
+      const autoplay = this.state.playing && this.following;
+      this.loadedQueueId = playback.playShared(song, audio, this.hostPosition(this.state), autoplay);
+      playback.setPlaybackRate(1);
+    } catch (error: any) {
+      // Not retried until the host moves on to another track
+      if (token === this.loadToken) this.status.value = `Não foi possível receber "${track.title}": ${error.message}`;
+    }
+  }
+
+  // Fetches the next track ahead of time, so it can start with the host
+  private async prefetch(session: CurrentSession, track: ListenTrack | undefined): Promise<void> {
+    if (!track || this.cache.has(track.sha256) || this.fetching.has(track.sha256)) return;
+    if (await dbService.findSongByHash(track.sha256)) return;
+    if (this.current.value !== session) return;
+    this.fetchTrack(session.hostId, session.sessionId, track).catch((error) =>
+      console.warn('[ListenTogether] Could not fetch the next track:', error),
+    );
+  }
+
+  private handlePlayback(event: PlaybackEvent): void {
+    const session = this.current.value;
+    const playback = this.playback;
+    if (!session || !playback) return;
+    if (session.role === 'host') {
+      this.publishState();
+      return;
+    }
+    const ours = this.loadedQueueId !== null && playback.currentItem?.queueId === this.loadedQueueId;
+    if (event === 'track' && !ours) {
+      this.leave();
+      this.status.value = 'Você saiu da sessão ao tocar outra música.';
+      return;
+    }
+    if (!ours) return;
+    if (event === 'pause') {
+      if (this.expectingPause) {
+        this.expectingPause = false;
+      } else if (this.state?.playing && playback.duration - playback.position > 1) {
+        this.following = false;
+      }
+    } else if (event === 'play' && !this.following) {
+      this.following = true;
+      this.synchronize();
+    }
+  }
+
+  private pauseLocally(): void {
+    this.expectingPause = true;
+    this.playback?.pause();
+  }
+
+  // --- Both sides ---
+
+  private handleAnnouncement(peerId: string, payload: MessageOf<'listen-session'>['payload']): void {
+    const others = this.sessions.value.filter((session) => session.peerId !== peerId);
+    this.sessions.value = [...others, { peerId, ...payload }];
+    const session = this.current.value;
+    if (session?.role === 'guest' && session.hostId === peerId) session.guestsCanQueue = payload.guestsCanQueue;
+  }
+
+  private handleEnd(peerId: string, sessionId: string): void {
+    this.sessions.value = this.sessions.value.filter(
+      (session) => session.peerId !== peerId || session.sessionId !== sessionId,
+    );
+    const session = this.current.value;
+    if (session?.role === 'guest' && session.hostId === peerId) this.reset('O anfitrião encerrou a sessão.');
+  }
+
+  private handleGone(peerId: string): void {
+    this.sessions.value = this.sessions.value.filter((session) => session.peerId !== peerId);
+    const session = this.current.value;
+    if (session?.role === 'host') this.removeGuest(peerId);
+    if (session?.role === 'guest' && session.hostId === peerId) this.reset('O anfitrião se desconectou.');
+  }
+
+  // Hosts send the tracks they offered; guests send the songs they suggested, to the host
+  private async handleTrackRequest(
+    peerId: string,
+    { sessionId, transferId, sha256 }: MessageOf<'listen-track-request'>['payload'],
+  ): Promise<void> {
+    const session = this.current.value;
+    const allowed =
+      session?.sessionId === sessionId &&
+      (session.role === 'host'
+        ? this.guests.value.includes(peerId) && this.shared.has(sha256)
+        : session.hostId === peerId && this.suggested.has(sha256));
+    if (!allowed) {
+      p2pService.sendTo(peerId, { type: 'request-denied', payload: { request: 'listen', reason: 'private', transferId } });
+      return;
+    }
+    const found = await this.findAudio(sha256);
+    if (!found) {
+      p2pService.sendTo(peerId, { type: 'clone-error', payload: { transferId, message: 'Música não encontrada.' } });
+      return;
+    }
+    await peerShareService.sendSongTo(peerId, transferId, found.song, found.audio);
+  }
+
+  private async findAudio(sha256: string): Promise<SessionAudio | null> {
+    const song = await dbService.findSongByHash(sha256);
+    const audio = song?.id !== undefined ? await dbService.getSongAudio(song.id) : undefined;
+    if (song && audio) return { song, audio };
+    // Guests' songs and library songs that had no hash yet
+    const item = this.playback?.queue.value.find(
+      (entry) => (entry.song.hash ?? this.hashes.get(entry.song.id!)) === sha256,
+    );
+    const queued = item && (item.audio ?? (await dbService.getSongAudio(item.song.id!)));
+    if (item && queued) return { song: item.song, audio: queued };
+    return this.cache.get(sha256) ?? null;
+  }
+
+  // Streams a song into memory; asking twice for the same song waits for the same transfer
+  private fetchTrack(
+    peerId: string,
+    sessionId: string,
+    track: ListenTrack,
+    onProgress?: (fraction: number) => void,
+  ): Promise<SessionAudio> {
+    const cached = this.cache.get(track.sha256);
+    if (cached) return Promise.resolve(cached);
+    let pending = this.fetching.get(track.sha256);
+    if (!pending) {
+      pending = peerStreamService
+        .fetch(
+          peerId,
+          track.sha256,
+          (transferId) => ({ type: 'listen-track-request', payload: { sessionId, transferId, sha256: track.sha256 } }),
+          onProgress,
+        )
+        .then(({ header, audio }) => {
+          const received = { song: sessionSong(track, header.mimeType), audio };
+          this.cache.set(track.sha256, received);
+          for (const hash of this.cache.keys()) {
+            if (this.cache.size <= CACHE_SIZE) break;
+            this.cache.delete(hash);
+          }
+          return received;
+        })
+        .finally(() => this.fetching.delete(track.sha256));
+      this.fetching.set(track.sha256, pending);
+    }
+    return pending;
+  }
+
+  private async trackOf(item: QueueItem): Promise<ListenTrack | undefined> {
+    const { song } = item;
+    const sha256 = await this.hashOf(song, item.audio);
+    if (!sha256) return undefined;
+    return { sha256, title: song.title, artist: song.artist, album: song.album ?? '', duration: song.duration ?? 0 };
+  }
+
+  private async hashOf(song: Song, audio?: Blob): Promise<string | undefined> {
+    if (song.hash) return song.hash;
+    if (song.id === undefined) return undefined;
+    let hash = this.hashes.get(song.id);
+    if (!hash) {
+      const data = audio ?? (await dbService.getSongAudio(song.id));
+      hash = data && (await hashAudio(data));
+      if (hash) this.hashes.set(song.id, hash);
+    }
+    return hash;
+  }
+
+  private hosted(sessionId: string): CurrentSession | null {
+    const session = this.current.value;
+    return session?.role === 'host' && session.sessionId === sessionId ? session : null;
+  }
+
+  private reset(status: string | null): void {
+    if (this.timer) clearInterval(this.timer);
+    if (this.clockTimer) clearTimeout(this.clockTimer);
+    this.timer = null;
+    this.clockTimer = null;
+    this.current.value = null;
+    this.guests.value = [];
+    this.upcoming.value = [];
+    this.status.value = status;
+    this.drift.value = null;
+    this.shared.clear();
+    this.state = null;
+    this.clock = [];
+    this.offset = 0;
+    this.loadedHash = null;
+    this.loadedQueueId = null;
+    this.loadToken++;
+    this.following = true;
+    this.expectingPause = false;
+    this.suggested.clear();
+    this.cache.clear();
+    this.playback?.setPlaybackRate(1);
+  }
+}
+
+export const listenTogetherService = new ListenTogetherService();
@@ -0,0 +1,217 @@
+import type { ReplayGainInfo } from './tags'
+
+// The loudness fields stored on a Song
+export interface LoudnessInfo {
+  loudness?: number
+  peak?: number
+  replayGain?: ReplayGainInfo
+}
+
+export interface LoudnessResult {
+  loudness: number // integrated loudness in LUFS (EBU R128 / ITU-R BS.1770)
+  peak: number // highest absolute sample value, linear
+}
+
+// 'track' keeps every song at the same loudness, 'album' keeps the differences inside an album
+export type NormalizationMode = 'off' | 'track' | 'album'
+
+// ReplayGain 2.0 reference level
+export const REFERENCE_LOUDNESS = -18
+
+// Decoded audio is held in memory as 32-bit floats, so very large files are not analysed
+const MAX_ANALYSIS_BYTES = 60 * 1024 * 1024
+// Files above this are decoded at a lower rate to keep memory in check on phones
+const REDUCED_RATE_BYTES = 20 * 1024 * 1024
+
+const BLOCK_SECONDS = 0.4
+const STEP_SECONDS = 0.1 // 75% overlap between gating blocks
+const ABSOLUTE_GATE = -70
+const RELATIVE_GATE = -10
+
+interface Biquad {
+  b0: number
+  b1: number
+  b2: number
+  a1: number
+  a2: number
+}
+
+// K-weighting (BS.1770): a high shelf modelling the head followed by a high-pass,
+// with coefficients derived for the actual sample rate
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533
+  let q = 0.7071752369554196
+  const gain = 3.999843853973347
+  let k = Math.tan((Math.PI * f0) / sampleRate)
+  const vh = Math.pow(10, gain / 20)
+  const vb = Math.pow(vh, 0.4996667741545416)
+  let a0 = 1 + k / q + k * k
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  }
+
+  f0 = 38.13547087602444
+  q = 0.5003270373238773
+  k = Math.tan((Math.PI * f0) / sampleRate)
+  a0 = 1 + k / q + k * k
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0,
+  }
+  return [shelf, highPass]
+}
+
+function toLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity
+}
+
+export class LoudnessService {
+  // Returns null when the audio cannot be decoded or is too large to analyse
+  async analyze(audio: Blob): Promise<LoudnessResult | null> {
+    if (audio.size === 0 || audio.size > MAX_ANALYSIS_BYTES) return null
+    const OfflineContext = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext
+    if (!OfflineContext) return null
+
+    try {
+      const sampleRate = audio.size > REDUCED_RATE_BYTES ? 22050 : 44100
+      // decodeAudioData resamples to the context rate; the context itself never renders
+      const context: OfflineAudioContext = new OfflineContext(1, 1, sampleRate)
+      const buffer = await context.decodeAudioData(await audio.arrayBuffer())
+      return this.measure(buffer)
+    } catch (error) {
+      console.warn('[Loudness] Could not analyse audio:', error)
+      return null
+    }
+  }
+
+  // Our measurement plus whatever ReplayGain tags the file already had, ready to store
+  async describe(audio: Blob, replayGain?: ReplayGainInfo): Promise<LoudnessInfo> {
+    const info: LoudnessInfo = {}
+    const result = await this.analyze(audio)
+    if (result) {
+      info.loudness = result.loudness
+      info.peak = result.peak
+    }
+    if (replayGain) info.replayGain = replayGain
+    return info
+  }
+
+  private measure(buffer: AudioBuffer): LoudnessResult | null {
+    const rate = buffer.sampleRate
+    const step = Math.round(rate * STEP_SECONDS)
+    const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS)
+    const stepCount = Math.floor(buffer.length / step)
+    if (stepCount < stepsPerBlock) return null
+
+    // Mean square of the K-weighted signal per 100ms step, summed over channels
+    const stepPower = new Float64Array(stepCount)
+    let peak = 0
+    const [shelf, highPass] = kWeighting(rate)
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const samples = buffer.getChannelData(channel)
+      // Surround channels count a bit more (BS.1770 weights); LFE is not separated here
+      const weight = channel >= 3 ? 1.41 : 1
+      // Previous inputs/outputs of the shelf (x, s) and of the high-pass (y, h)
+      let x1 = 0
+      let x2 = 0
+      let s1 = 0
+      let s2 = 0
+      let y1 = 0
+      let y2 = 0
+      let h1 = 0
+      let h2 = 0
+
+      for (let i = 0; i < stepCount; i++) {
+        let sum = 0
+        const end = (i + 1) * step
+        for (let n = i * step; n < end; n++) {
+          const x = samples[n]
+          const abs = x < 0 ? -x : x
+          if (abs > peak) peak = abs
+
+          const y = shelf.b0 * x + shelf.b1 * x1 + shelf.b2 * x2 - shelf.a1 * s1 - shelf.a2 * s2
+          x2 = x1
+          x1 = x
+          s2 = s1
+          s1 = y
+          const z = highPass.b0 * y + highPass.b1 * y1 + highPass.b2 * y2 - highPass.a1 * h1 - highPass.a2 * h2
+          y2 = y1
+          y1 = y
+          h2 = h1
+          h1 = z
+          sum += z * z
+        }
+        stepPower[i] += (weight * sum) / step
+      }
+    }
+
+    // 400ms blocks from four consecutive steps
+    const blocks: number[] = []
+    for (let i = 0; i + stepsPerBlock <= stepCount; i++) {
+      let power = 0
+      for (let j = 0; j < stepsPerBlock; j++) power += stepPower[i + j]
+      blocks.push(power / stepsPerBlock)
+    }
+
+    // Gating: drop silence, then everything 10 LU below the loudness of what is left
+    const audible = blocks.filter((power) => toLoudness(power) > ABSOLUTE_GATE)
+    if (audible.length === 0) return null
+    const relativeGate = toLoudness(audible.reduce((a, b) => a + b, 0) / audible.length) + RELATIVE_GATE
+    const gated = audible.filter((power) => toLoudness(power) > relativeGate)
+    const integrated = toLoudness(gated.reduce((a, b) => a + b, 0) / gated.length)
+    if (!Number.isFinite(integrated)) return null
+
+    return { loudness: Math.round(integrated * 100) / 100, peak: Math.round(peak * 1e6) / 1e6 }
+  }
+}
+
+export const loudnessService = new LoudnessService()
+
+// Combines several tracks measured separately into one album loudness (power average
+// weighted by duration), the fallback when a file carries no album gain tag
+export function albumLoudness(tracks: Array<{ loudness?: number; duration?: number }>): number | undefined {
+  let power = 0
+  let total = 0
+  for (const track of tracks) {
+    if (track.loudness === undefined || !Number.isFinite(track.loudness)) continue
+    const weight = track.duration && track.duration > 0 ? track.duration : 1
+    power += Math.pow(10, (track.loudness + 0.691) / 10) * weight
+    total += weight
+  }
+  return total > 0 ? toLoudness(power / total) : undefined
+}
+
+// Linear gain to apply for a song. Tags written by a ReplayGain scanner win over our own
+// measurement; the result is lowered when needed so the loudest sample cannot clip.
+export function normalizationGain(
+  song: LoudnessInfo,
+  mode: NormalizationMode,
+  albumInfo?: { gain?: number; peak?: number },
+): number {
+  if (mode === 'off') return 1
+
+  const tags = song.replayGain
+  const trackGain =
+    tags?.trackGain ?? (song.loudness !== undefined ? REFERENCE_LOUDNESS - song.loudness : undefined)
+  const trackPeak = tags?.trackPeak ?? song.peak
+
+  let gainDb = trackGain
+  let peak = trackPeak
+  if (mode === 'album') {
+    gainDb = tags?.albumGain ?? albumInfo?.gain ?? trackGain
+    peak = tags?.albumPeak ?? albumInfo?.peak ?? trackPeak
+  }
+  if (gainDb === undefined) return 1
+
+  let gain = Math.pow(10, gainDb / 20)
+  if (peak && peak > 0 && gain * peak > 1) gain = 1 / peak
+  return gain
+}
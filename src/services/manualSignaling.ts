@@ -0,0 +1,153 @@
+import { base64ToBytes, bytesToBase64 } from './p2pProtocol';
+import type { RelayedData, SignalingEvents, SignalingTransport } from './signaling';
+
+// Pairing codes start with a version tag; "1" is deflated JSON, "0" plain JSON for
+// browsers without CompressionStream. Both are base64url.
+const CODE_PREFIX = 'PLAYER';
+// Gathering every ICE candidate before the offer can be shown takes a few seconds
+const SIGNAL_TIMEOUT_MS = 20000;
+
+interface PairingCode {
+  kind: 'offer' | 'answer';
+  from: string;
+  // Local name the inviting device gave the connection; the answer echoes it back
+  pairing: string;
+  signal: unknown;
+}
+
+interface PendingSignal {
+  resolve: (signal: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Serverless pairing: one device creates an invite code, the other pastes or scans it
+// and answers with a code of its own, which goes back the same way. Nothing is relayed,
+// so only devices paired like this can reach each other.
+class ManualSignaling implements SignalingTransport {
+  readonly kind = 'manual';
+  readonly trickle = false;
+  readonly relays = false;
+  readonly presence = false;
+  private localId = '';
+  private events: SignalingEvents | null = null;
+  private waiting = new Map<string, PendingSignal>();
+  private invites = new Set<string>();
+
+  // Pairing is private by nature, so the room plays no part
+  async connect(localId: string, _room: string, events: SignalingEvents): Promise<void> {
+    this.localId = localId;
+    this.events = events;
+  }
+
+  async disconnect(): Promise<void> {
+    this.waiting.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('Pareamento interrompido.'));
+    });
+    this.waiting.clear();
+    this.invites.clear();
+    this.events = null;
+  }
+
+  async members(): Promise<string[]> {
+    return [];
+  }
+
+  // The offer or answer the local peer produced, handed to whoever is waiting to show it
+  signal(to: string, signal: unknown): void {
+    const pending = this.waiting.get(to);
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    this.waiting.delete(to);
+    pending.resolve(signal);
+  }
+
+  send(to: string, _data: RelayedData): void {
+    console.warn('[Signaling] Manual pairing cannot relay messages to', to);
+  }
+
+  // Starts a connection with a device that is not known yet and returns the invite code
+  async createInvite(): Promise<string> {
+    const events = this.requireEvents();
+    const pairing = `pareado_${Math.random().toString(36).slice(2, 11)}`;
+    const offer = this.waitForSignal(pairing);
+    this.invites.add(pairing);
+    events.peer(pairing, true);
+    return encodeCode({ kind: 'offer', from: this.localId, pairing, signal: await offer });
+  }
+
+  // Takes a code from the other device. For an invite, returns the answer code to send
+  // back; for an answer, completes the pairing and returns null.
+  async acceptCode(text: string): Promise<string | null> {
+    const events = this.requireEvents();
+    const code = await decodeCode(text);
+    if (!code) throw new Error('Código de pareamento inválido.');
+
+    if (code.kind === 'answer') {
+      if (!this.invites.delete(code.pairing)) {
+        throw new Error('Esta resposta não corresponde a um convite criado neste dispositivo.');
+      }
+      events.signal(code.pairing, code.signal);
+      return null;
+    }
+
+    if (code.from === this.localId) throw new Error('Este convite foi criado neste dispositivo.');
+    const answer = this.waitForSignal(code.from);
+    events.signal(code.from, code.signal);
+    return encodeCode({ kind: 'answer', from: this.localId, pairing: code.pairing, signal: await answer });
+  }
+
+  private requireEvents(): SignalingEvents {
+    if (!this.events) throw new Error('O P2P ainda não foi iniciado.');
+    return this.events;
+  }
+
+  private waitForSignal(peerId: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiting.delete(peerId);
+        reject(new Error('A conexão não ficou pronta a tempo. Tente novamente.'));
+      }, SIGNAL_TIMEOUT_MS);
+      this.waiting.set(peerId, { resolve, reject, timer });
+    });
+  }
+}
+
+// URL-safe, so a code survives chat apps that mangle '+' and '/'
+function toBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | null {
+  return base64ToBytes(text.replace(/-/g, '+').replace(/_/g, '/'));
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: GenericTransformStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// SDP is wordy and repetitive; deflating it keeps the QR code small enough to scan
+async function encodeCode(code: PairingCode): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(code));
+  if (typeof CompressionStream === 'undefined') return `${CODE_PREFIX}0.${toBase64Url(json)}`;
+  return `${CODE_PREFIX}1.${toBase64Url(await transform(json, new CompressionStream('deflate-raw')))}`;
+}
+
+async function decodeCode(text: string): Promise<PairingCode | null> {
+  const match = new RegExp(`^${CODE_PREFIX}([01])\\.([A-Za-z0-9_-]+)$`).exec(text.replace(/\s+/g, ''));
+  const raw = match && fromBase64Url(match[2]);
+  if (!raw) return null;
+  try {
+    const bytes = match[1] === '1' ? await transform(raw, new DecompressionStream('deflate-raw')) : raw;
+    const code = JSON.parse(new TextDecoder().decode(bytes));
+    if (code?.kind !== 'offer' && code?.kind !== 'answer') return null;
+    if (typeof code.from !== 'string' || typeof code.pairing !== 'string' || !code.signal) return null;
+    return code;
+  } catch {
+    return null;
+  }
+}
+
+export const manualSignaling = new ManualSignaling();
@@ -1,181 +1,307 @@
 import Peer from 'simple-peer';
-import * as Ably from 'ably';
+import {
+  createChallenge,
+  fingerprint,
+  identityService,
+  normalizeNickname,
+  proofMessage,
+  type LocalIdentity,
+} from './identity';
+import {
+  decodeChunkFrame,
+  encodeChunkFrame,
+  helloMessage,
+  isCompatible,
+  parseMessage,
+  type MessageOf,
+  type P2PMessage,
+  type P2PMessageType,
+} from './p2pProtocol';
+import { RelayEncryption } from './relayEncryption';
+import { loadRoom, saveRoom } from './rooms';
+import {
+  createSignaling,
+  loadSignalingSettings,
+  saveSignalingSettings,
+  type SignalingKind,
+  type SignalingSettings,
+  type SignalingTransport,
+} from './signaling';
 
-const ABLY_API_KEY = import.meta.env.VITE_ABLY_API_KEY;
-const ABLY_CHANNEL_NAME = 'online-player-p2p-channel-v2';
 // Optional: override ICE servers via env (JSON string)
 const ICE_SERVERS_ENV = import.meta.env.VITE_ICE_SERVERS;
+// How often a sender checks whether the data channel's send buffer has drained
+const DRAIN_POLL_MS = 20;
+// Presence is re-read this often, in case a join or leave event was missed (Safari)
+const PRESENCE_REFRESH_MS = 10000;
+
+type PeerListener = (peerId: string) => void;
+type MembersListener = () => void;
+
+// Who a connected peer says it is. `verified` once it signed our challenge with the key
+// its device id is the fingerprint of.
+export interface PeerIdentity {
+  deviceId: string;
+  nickname: string;
+  publicKey: string | null;
+  verified: boolean;
+}
+type ErrorListener = (err: Error) => void;
+export type MessageHandler<T extends P2PMessageType> = (
+  peerId: string,
+  message: MessageOf<T>,
+) => void | Promise<void>;
 
 class P2PService {
-  private ably: Ably.Realtime | null = null;
-  private channel: Ably.RealtimeChannel | null = null;
+  private started = false;
+  // Connection changes run one at a time, so joining a room from a link cannot race startup
+  private changes: Promise<void> = Promise.resolve();
+  private signaling: SignalingTransport | null = null;
+  private signalingKind: SignalingKind | null = null;
+  // Current room code (see rooms.ts); null when not in any room
+  private room: string | null = null;
+  private presenceInterval: ReturnType<typeof setInterval> | null = null;
   private peers: Map<string, Peer.Instance> = new Map();
   private localId: string = `user_${Math.random().toString(36).substr(2, 9)}`;
+  // Unlike localId, kept across sessions (see identity.ts)
+  private identity: LocalIdentity | null = null;
+  // Whatever goes through the signaling relay is end-to-end encrypted
+  private relay = new RelayEncryption(
+    this.localId,
+    (to, data) => this.signaling?.send(to, data),
+    (peerId) => this.provenDevice(peerId),
+  );
   private onlineIds: Set<string> = new Set();
+  // Protocol version each peer announced in its hello, and peers we already greeted
+  private peerVersions: Map<string, number> = new Map();
+  private peerIdentities: Map<string, PeerIdentity> = new Map();
+  // Challenge sent to each peer in our hello; one per connection, so a proof answering an
+  // earlier hello still verifies
+  private challenges: Map<string, string> = new Map();
+  // DTLS certificate fingerprints of each connection, from its session descriptions
+  private fingerprints = new WeakMap<Peer.Instance, { local: string; remote: string }>();
+  private greeted: Set<string> = new Set();
+  private rejected: Set<string> = new Set();
+
+  private connectListeners = new Set<PeerListener>();
+  private disconnectListeners = new Set<PeerListener>();
+  private errorListeners = new Set<ErrorListener>();
+  private membersListeners = new Set<MembersListener>();
+  private identityListeners = new Set<PeerListener>();
+  private messageHandlers = new Map<P2PMessageType, Set<MessageHandler<any>>>();
+
+  // Called once the peer completed the version handshake. Returns an unsubscribe function.
+  public onConnect(listener: PeerListener): () => void {
+    this.connectListeners.add(listener);
+    return () => this.connectListeners.delete(listener);
+  }
 
-  public onConnect: ((peerId: string) => void) | null = null;
-  public onData: ((peerId: string, data: any) => void) | null = null;
-  public onError: ((err: Error) => void) | null = null;
-  public onDisconnect: ((peerId: string) => void) | null = null;
+  public onDisconnect(listener: PeerListener): () => void {
+    this.disconnectListeners.add(listener);
+    return () => this.disconnectListeners.delete(listener);
+  }
 
-  public async init(): Promise<void> {
-    console.log('[P2P] Initializing P2P service...');
-    if (this.ably) {
-      console.log('[P2P] Already initialized');
-      return;
-    }
-    if (!ABLY_API_KEY) {
-      const error = new Error("❌ Chave da API do Ably não configurada. Configure VITE_ABLY_API_KEY no arquivo .env");
-      console.error('[P2P]', error.message);
-      if (this.onError) this.onError(error);
-      return;
+  public onError(listener: ErrorListener): () => void {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  // Called when someone enters or leaves the room, or a connection opens or closes
+  public onMembersChange(listener: MembersListener): () => void {
+    this.membersListeners.add(listener);
+    return () => this.membersListeners.delete(listener);
+  }
+
+  // Called when a peer's nickname changes or it proves its identity
+  public onIdentityChange(listener: PeerListener): () => void {
+    this.identityListeners.add(listener);
+    return () => this.identityListeners.delete(listener);
+  }
+
+  public onMessage<T extends P2PMessageType>(type: T, handler: MessageHandler<T>): () => void {
+    let handlers = this.messageHandlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.messageHandlers.set(type, handlers);
     }
-    console.log('[P2P] API Key found, connecting...');
+    handlers.add(handler);
+    return () => handlers.delete(handler);
+  }
 
-    try {
-      console.log('[P2P] Creating Ably client with ID:', this.localId);
-      // Let Ably choose the best transport (WebSocket / fallback) for Safari reliability
-      this.ably = new Ably.Realtime({
-        key: ABLY_API_KEY,
-        clientId: this.localId,
-      });
-      
-      // Log de estado da conexão Ably
-      this.ably.connection.on('connected', () => {
-        console.log('[P2P] ✅ Ably connection state: CONNECTED')
-      })
-      this.ably.connection.on('disconnected', () => {
-        console.warn('[P2P] ⚠️ Ably connection state: DISCONNECTED')
-      })
-      this.ably.connection.on('failed', () => {
-        console.error('[P2P] ❌ Ably connection state: FAILED')
-      })
-      this.ably.connection.on('suspended', () => {
-        console.warn('[P2P] ⚠️ Ably connection state: SUSPENDED')
-      })
-      console.log('[P2P] Current Ably connection state:', this.ably.connection.state)
-      
-      console.log('[P2P] Getting channel:', ABLY_CHANNEL_NAME);
-      this.channel = this.ably.channels.get(ABLY_CHANNEL_NAME);
-      // Ensure channel is attached before presence & subscriptions
-      await this.channel.attach();
-
-      this.channel.subscribe('signal', (message: Ably.Message) => {
-        if (message.data.to === this.localId) {
-          this.handleSignal(message.data);
-        }
-      });
+  // Joins the saved room through the saved signaling transport (Ably, the self-hosted
+  // server or manual pairing). Outside a room only manual pairing can connect anyone.
+  public init(): Promise<void> {
+    return this.exclusive(async () => {
+      console.log('[P2P] Initializing P2P service...');
+      if (this.started) {
+        console.log('[P2P] Already initialized');
+        return;
+      }
+      this.started = true;
+      try {
+        this.room = await loadRoom();
+        await this.connectSignaling(await loadSignalingSettings());
+      } catch (error: any) {
+        console.error('[P2P] ❌ Error initializing P2P service:', error);
+        this.emitError(error);
+      }
+    });
+  }
 
-      // Ably direct data (unicast) fallback
-      this.channel.subscribe('data', (message: Ably.Message) => {
-        const { to, from, payload } = message.data || {};
-        if (!to || !from) return;
-        if (to !== this.localId) return;
-        if (from === this.localId) return;
-        console.log('[P2P] 📦 Ably data (direct) from', from);
-        if (this.onData) this.onData(from, payload);
-      });
+  // Switches to another signaling transport, dropping every current connection. Throws
+  // if the new one cannot connect.
+  public setSignaling(settings: SignalingSettings): Promise<void> {
+    return this.exclusive(async () => {
+      this.started = true;
+      await saveSignalingSettings(settings);
+      await this.destroy();
+      await this.connectSignaling(settings);
+    });
+  }
 
-      // Ably broadcast fallback
-      this.channel.subscribe('broadcast', (message: Ably.Message) => {
-        const { from, payload } = message.data || {};
-        if (!from || from === this.localId) return;
-        console.log('[P2P] 📡 Ably broadcast from', from);
-        if (this.onData) this.onData(from, payload);
-      });
+  public getSignalingKind(): SignalingKind | null {
+    return this.signalingKind;
+  }
 
-      this.channel.presence.subscribe('enter', (member: Ably.PresenceMessage) => {
-        console.log('[P2P] Peer entered:', member.clientId);
-        if (member.clientId !== this.localId) {
-          this.onlineIds.add(member.clientId);
-          // Deterministic initiator to avoid glare: higher ID initiates
-          const initiator = this.localId > member.clientId;
-          if (!this.peers.has(member.clientId)) {
-            console.log('[P2P] 🤝 Creating peer on enter with', member.clientId, 'initiator:', initiator);
-            this.createPeer(member.clientId, initiator);
-          }
-        }
-      });
+  // Leaves the current room, if any, and joins `code`. Throws if it cannot connect.
+  public joinRoom(code: string): Promise<void> {
+    return this.exclusive(async () => {
+      this.started = true;
+      await saveRoom(code);
+      this.room = code;
+      await this.destroy();
+      await this.connectSignaling(await loadSignalingSettings());
+    });
+  }
 
-      this.channel.presence.subscribe('leave', (member: Ably.PresenceMessage) => {
-        console.log('[P2P] Peer left:', member.clientId);
-        this.onlineIds.delete(member.clientId);
-        const peer = this.peers.get(member.clientId);
-        if (peer) {
-          peer.destroy();
-          this.peers.delete(member.clientId);
-          if (this.onDisconnect) this.onDisconnect(member.clientId);
-        }
-      });
+  public leaveRoom(): Promise<void> {
+    return this.exclusive(async () => {
+      this.started = true;
+      await saveRoom(null);
+      this.room = null;
+      await this.destroy();
+      await this.connectSignaling(await loadSignalingSettings());
+    });
+  }
 
-      console.log('[P2P] Entering presence...');
-      await this.channel.presence.enter({ joinedAt: Date.now() });
-      console.log('[P2P] Successfully entered presence');
-      
-      const existingMembers = await this.channel.presence.get();
-      console.log('[P2P] Existing members:', existingMembers.length, existingMembers.map((m: Ably.PresenceMessage) => m.clientId));
-      existingMembers.forEach((member: Ably.PresenceMessage) => {
-        if (member.clientId !== this.localId) {
-          this.onlineIds.add(member.clientId);
-          const initiator = this.localId > member.clientId;
-          if (!this.peers.has(member.clientId)) {
-            console.log('[P2P] 🔧 Creating peer for existing member:', member.clientId, 'initiator:', initiator);
-            this.createPeer(member.clientId, initiator);
-          }
-        }
-      });
+  public getRoom(): string | null {
+    return this.room;
+  }
+
+  private exclusive(change: () => Promise<void>): Promise<void> {
+    const run = this.changes.then(change);
+    this.changes = run.catch(() => {});
+    return run;
+  }
 
-      console.log('[P2P] ✅ P2P Service initialized successfully');
+  private async connectSignaling(settings: SignalingSettings): Promise<void> {
+    this.identity = await identityService.load();
+    this.signalingKind = settings.kind;
+    if (this.room === null && settings.kind !== 'manual') {
+      console.log('[P2P] Not in a room; join or create one to find other devices');
+      return;
+    }
+    let signaling: SignalingTransport;
+    try {
+      signaling = await createSignaling(settings);
+    } catch (error) {
+      this.signalingKind = null;
+      throw error;
+    }
+    this.signaling = signaling;
+    try {
+      console.log('[P2P] Joining room', this.room, 'through', signaling.kind, 'signaling with ID:', this.localId);
+      await signaling.connect(this.localId, this.room ?? '', {
+        peer: (peerId, initiator) => this.handlePeer(peerId, initiator),
+        leave: (peerId) => this.handleLeave(peerId),
+        signal: (from, signal) => this.handleSignal(from, signal),
+        data: (from, data) => this.handleRelayed(from, data),
+      });
+    } catch (error) {
+      this.signaling = null;
+      this.signalingKind = null;
+      await signaling.disconnect().catch(() => {});
+      throw error;
+    }
 
-      // Periodic presence refresh to keep onlineIds synced (helps Safari if events are missed)
+    // Connect to everyone already present, then keep the list fresh
+    const refresh = async () => {
+      if (this.signaling !== signaling) return;
       try {
-        const refresh = async () => {
-          if (!this.channel) return;
-          try {
-            const members = await this.channel.presence.get();
-            const ids = new Set<string>();
-            members.forEach((m: Ably.PresenceMessage) => {
-              if (m.clientId !== this.localId) ids.add(m.clientId);
-            });
-            // Update onlineIds set
-            this.onlineIds = ids;
-            // Ensure peers exist for current members
-            ids.forEach((id) => {
-              if (!this.peers.has(id)) {
-                const initiator = this.localId > id;
-                console.log('[P2P] 🔄 Presence refresh: creating peer for', id, 'initiator:', initiator);
-                this.createPeer(id, initiator);
-              }
-            });
-          } catch (e) {
-            console.warn('[P2P] Presence refresh failed:', e);
-          }
-        };
-        // Initial refresh and then periodic
-        await refresh();
-        (this as any)._presenceInterval = setInterval(refresh, 10000);
+        const ids = new Set(await signaling.members());
+        if (this.signaling !== signaling) return;
+        this.onlineIds = ids;
+        ids.forEach((id) => this.handlePeer(id));
+        this.notifyMembers();
       } catch (e) {
-        console.warn('[P2P] Failed to start presence refresh loop:', e);
+        console.warn('[P2P] Presence refresh failed:', e);
       }
-    } catch (error: any) {
-      console.error('[P2P] ❌ Error initializing P2P service:', error);
-      if (this.onError) this.onError(error);
+    };
+    await refresh();
+    this.presenceInterval = setInterval(refresh, PRESENCE_REFRESH_MS);
+    console.log('[P2P] ✅ P2P Service initialized successfully');
+  }
+
+  private handlePeer(peerId: string, initiator?: boolean): void {
+    if (peerId === this.localId) return;
+    if (!this.onlineIds.has(peerId)) {
+      this.onlineIds.add(peerId);
+      this.notifyMembers();
     }
+    if (this.peers.has(peerId)) return;
+    // Deterministic initiator to avoid glare: higher ID initiates
+    const isInitiator = initiator ?? this.localId > peerId;
+    console.log('[P2P] 🤝 Creating peer with', peerId, 'initiator:', isInitiator);
+    this.createPeer(peerId, isInitiator);
   }
 
-  private handleSignal(message: any): void {
-    const { from: peerId, signal } = message;
-    console.log('[P2P] Received signal from', peerId, 'type:', signal.type);
+  private handleLeave(peerId: string): void {
+    console.log('[P2P] Peer left:', peerId);
+    this.onlineIds.delete(peerId);
+    this.relay.forget(peerId);
+    const peer = this.peers.get(peerId);
+    if (peer) {
+      peer.destroy();
+      this.peers.delete(peerId);
+      this.handleDisconnect(peerId);
+    }
+    this.notifyMembers();
+  }
+
+  private async handleRelayed(from: string, data: unknown): Promise<void> {
+    const content = await this.relay.receive(from, data);
+    if (!content) return;
+    if ('frame' in content) {
+      this.receiveFrame(from, content.frame);
+      return;
+    }
+    console.log('[P2P] 📦 Relayed data from', from);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content.json);
+    } catch {
+      console.warn('[P2P] Dropping unreadable relayed message from', from);
+      return;
+    }
+    this.receive(from, parsed);
+  }
+
+  private handleSignal(peerId: string, signal: any): void {
+    console.log('[P2P] Received signal from', peerId, 'type:', signal?.type);
     const peer = this.peers.get(peerId);
 
     if (peer) {
       // Always feed any incoming signal to existing peer (offer/answer/candidate)
       console.log('[P2P] Forwarding signal to existing peer');
-      try { peer.signal(signal); } catch (e) { console.error('[P2P] signal error:', e); }
+      try { this.feedSignal(peer, signal); } catch (e) { console.error('[P2P] signal error:', e); }
       return;
     }
 
     if (signal?.type === 'offer') {
+      if (this.signaling?.presence && !this.onlineIds.has(peerId)) {
+        this.admitOffer(peerId, signal);
+        return;
+      }
       console.log('[P2P] No peer yet, creating as answerer');
       this.createPeer(peerId, false, signal);
     } else {
@@ -183,6 +309,20 @@ class P2PService {
     }
   }
 
+  // Only room members get a connection. An offer may arrive before the presence event
+  // announcing its sender, so presence is read again before turning it down.
+  private async admitOffer(peerId: string, signal: unknown): Promise<void> {
+    const signaling = this.signaling;
+    const members = await signaling?.members().catch((): string[] => []);
+    if (this.signaling !== signaling || !members?.includes(peerId)) {
+      console.warn('[P2P] Ignoring offer from', peerId, '- not in this room');
+      return;
+    }
+    this.handlePeer(peerId, false);
+    const peer = this.peers.get(peerId);
+    if (peer) this.feedSignal(peer, signal as Peer.SignalData);
+  }
+
   private createPeer(peerId: string, initiator: boolean, offerSignal?: any): void {
     console.log('[P2P] Creating peer connection:', peerId, 'initiator:', initiator);
     if (this.peers.has(peerId)) {
@@ -206,45 +346,61 @@ class P2PService {
 
     const peer = new Peer({
       initiator,
-      trickle: true,
+      trickle: this.signaling?.trickle ?? true,
+      // Keeps text messages as strings, so they can be told apart from binary frames
+      objectMode: true,
       config: {
         iceServers
       }
     });
 
     this.peers.set(peerId, peer);
+    this.notifyMembers();
 
     peer.on('signal', (signal) => {
       console.log('[P2P] Sending signal to', peerId, 'type:', signal.type);
-      this.channel?.publish('signal', { to: peerId, from: this.localId, signal });
+      this.recordFingerprint(peer, 'local', signal);
+      this.signaling?.signal(peerId, signal);
     });
 
     peer.on('connect', () => {
-      console.log('[P2P] ✅ Connected to peer:', peerId);
-      if (this.onConnect) this.onConnect(peerId);
+      console.log('[P2P] ✅ Connected to peer:', peerId, '- starting handshake');
+      this.greet(peerId);
     });
 
-    peer.on('data', (data) => {
+    peer.on('data', (data: string | Uint8Array) => {
+      if (typeof data !== 'string') {
+        this.receiveFrame(peerId, data);
+        return;
+      }
+      let parsed: unknown;
       try {
-        const parsed = JSON.parse(data.toString());
-        if (this.onData) this.onData(peerId, parsed);
-      } catch (e) { console.error('[P2P] Error parsing data:', e) }
+        parsed = JSON.parse(data);
+      } catch (e) {
+        console.error('[P2P] Error parsing data:', e);
+        return;
+      }
+      this.receive(peerId, parsed);
     });
 
     peer.on('close', () => {
+      if (this.peers.get(peerId) !== peer) return;
       this.peers.delete(peerId);
-      if (this.onDisconnect) this.onDisconnect(peerId);
+      this.handleDisconnect(peerId);
+      this.notifyMembers();
     });
     
     peer.on('error', (err) => {
       console.error(`[P2P] ❌ Error in peer ${peerId}:`, err.message);
+      if (this.peers.get(peerId) !== peer) return;
       this.peers.delete(peerId);
-      if (this.onDisconnect) this.onDisconnect(peerId);
+      this.handleDisconnect(peerId);
+      this.notifyMembers();
     });
 
     if (offerSignal) {
       console.log('[P2P] Signaling with offer...');
-      peer.signal(offerSignal);
+      this.feedSignal(peer, offerSignal);
     }
     
     // Add timeout for connection
@@ -255,43 +411,236 @@ class P2PService {
     }, 10000);
   }
 
-  public sendTo(peerId: string, data: any): void {
-    const peer = this.peers.get(peerId);
-    if (peer?.connected) {
-      peer.send(JSON.stringify(data));
-    } else {
-      console.warn('[P2P] ↘️ Using Ably fallback to', peerId, 'type:', data?.type || 'data');
-      this.channel?.publish('data', { to: peerId, from: this.localId, payload: data });
+  // Validates and dispatches a message from any transport. Peers that never sent a hello
+  // (e.g. reachable only through the signaling relay) are accepted; peers that announced an
+  // incompatible version are not.
+  private receive(peerId: string, data: unknown): void {
+    const message = parseMessage(data);
+    if (!message) {
+      const type = typeof data === 'object' && data !== null && 'type' in data ? data.type : undefined;
+      console.warn('[P2P] Dropping malformed message from', peerId, type);
+      return;
+    }
+    if (message.type === 'hello') {
+      this.handleHello(peerId, message);
+      return;
+    }
+    if (message.type === 'identity-proof') {
+      this.verifyIdentity(peerId, message.payload.signature);
+      return;
+    }
+    if (this.rejected.has(peerId)) return;
+    this.dispatch(peerId, message);
+  }
+
+  private receiveFrame(peerId: string, frame: Uint8Array | null): void {
+    const message = frame && decodeChunkFrame(frame);
+    if (!message) {
+      console.warn('[P2P] Dropping malformed binary frame from', peerId);
+      return;
     }
+    this.receive(peerId, message);
   }
 
-  // Broadcast message to all peers via Ably (fallback-friendly)
-  public broadcast(data: any): void {
-    if (!this.channel) {
-      console.warn('[P2P] Cannot broadcast, channel not ready');
+  private handleHello(peerId: string, message: MessageOf<'hello'>): void {
+    const { version, deviceId, publicKey, challenge } = message.payload;
+    if (!isCompatible(message.payload)) {
+      console.warn('[P2P] ❌ Peer', peerId, 'speaks incompatible protocol version', version);
+      this.rejected.add(peerId);
+      this.emitError(new Error('Outro dispositivo usa uma versão incompatível do player. Atualizem o app.'));
       return;
     }
-    console.log('[P2P] 📣 Broadcasting', data?.type || 'data');
-    this.channel.publish('broadcast', { from: this.localId, payload: data });
+    const firstHello = !this.peerVersions.has(peerId);
+    this.peerVersions.set(peerId, version);
+    this.rejected.delete(peerId);
+    // A repeated hello (e.g. a new nickname) keeps the verification of the same key
+    const previous = this.peerIdentities.get(peerId);
+    this.peerIdentities.set(peerId, {
+      deviceId,
+      nickname: normalizeNickname(message.payload.nickname),
+      publicKey: publicKey ?? null,
+      verified: !!previous?.verified && previous.deviceId === deviceId && previous.publicKey === publicKey,
+    });
+    // Answer a peer that greeted first (e.g. its side of the data channel opened earlier)
+    if (!this.greeted.has(peerId)) this.greet(peerId);
+    this.proveIdentity(peerId, challenge);
+    this.notifyIdentity(peerId);
+    if (firstHello) {
+      console.log('[P2P] 🤝 Handshake complete with', peerId, 'protocol version', version);
+      this.connectListeners.forEach((listener) => listener(peerId));
+    }
   }
 
-  // Register data handler without relying on external injection
-  public addDataHandler(handler: (peerId: string, data: any) => void): void {
-    this.onData = handler;
-    console.log('[P2P] ✅ Data handler registered');
+  private greet(peerId: string): void {
+    this.greeted.add(peerId);
+    let challenge = this.challenges.get(peerId);
+    if (!challenge) {
+      challenge = createChallenge();
+      this.challenges.set(peerId, challenge);
+    }
+    this.sendTo(peerId, helloMessage({
+      deviceId: this.identity?.deviceId ?? '',
+      nickname: identityService.nickname.value,
+      publicKey: this.identity?.publicKey ?? undefined,
+      challenge,
+    }));
   }
 
-  // Optional: remove handler if it matches current one
-  public removeDataHandler(handler: (peerId: string, data: any) => void): void {
-    if (this.onData === handler) {
-      this.onData = null;
-      console.log('[P2P] 🗑️ Data handler removed');
+  private async proveIdentity(peerId: string, challenge: string): Promise<void> {
+    if (!this.identity?.publicKey) return;
+    const { local, remote } = this.certificates(peerId);
+    // A proof over no connection could be passed on by whoever relays it
+    if (!local || !remote) return;
+    try {
+      const signature = await identityService.sign(proofMessage(challenge, local, remote));
+      if (signature) this.sendTo(peerId, { type: 'identity-proof', payload: { signature } });
+    } catch (error) {
+      console.warn('[P2P] Could not sign identity challenge:', error);
     }
   }
 
+  private async verifyIdentity(peerId: string, signature: string): Promise<void> {
+    const identity = this.peerIdentities.get(peerId);
+    const challenge = this.challenges.get(peerId);
+    if (!identity?.publicKey || !challenge || identity.verified) return;
+    const { local, remote } = this.certificates(peerId);
+    if (!local || !remote) return;
+    const verified =
+      (await fingerprint(identity.publicKey)) === identity.deviceId &&
+      (await identityService.verify(identity.publicKey, proofMessage(challenge, remote, local), signature));
+    if (this.peerIdentities.get(peerId) !== identity) return;
+    if (!verified) {
+      console.warn('[P2P] ❌ Peer', peerId, 'failed to prove device', identity.deviceId);
+      return;
+    }
+    console.log('[P2P] 🔏 Peer', peerId, 'proved device', identity.deviceId);
+    identity.verified = true;
+    await identityService.rememberNickname(identity.deviceId, identity.nickname);
+    this.notifyIdentity(peerId);
+  }
+
+  // DTLS certificate fingerprints of both ends, from the session descriptions. Empty for
+  // peers without a data channel: those are neither sent nor checked proofs here, since
+  // the relay could forward them; they prove their device by signing their relay key
+  // instead (see relayEncryption.ts).
+  private certificates(peerId: string): { local: string; remote: string } {
+    const peer = this.peers.get(peerId);
+    return (peer && this.fingerprints.get(peer)) ?? { local: '', remote: '' };
+  }
+
+  // simple-peer does not expose its RTCPeerConnection, so the fingerprints are read from
+  // the offers and answers as they pass through
+  private recordFingerprint(peer: Peer.Instance, side: 'local' | 'remote', signal: unknown): void {
+    if (typeof signal !== 'object' || signal === null || !('sdp' in signal)) return;
+    if (typeof signal.sdp !== 'string') return;
+    const found = signal.sdp.match(/^a=fingerprint:(.+)$/m)?.[1].trim().toUpperCase();
+    if (!found) return;
+    const known = this.fingerprints.get(peer) ?? { local: '', remote: '' };
+    known[side] = found;
+    this.fingerprints.set(peer, known);
+  }
+
+  private feedSignal(peer: Peer.Instance, signal: Peer.SignalData): void {
+    this.recordFingerprint(peer, 'remote', signal);
+    peer.signal(signal);
+  }
+
+  private notifyIdentity(peerId: string): void {
+    this.identityListeners.forEach((listener) => listener(peerId));
+  }
+
+  private dispatch(peerId: string, message: P2PMessage): void {
+    const handlers = this.messageHandlers.get(message.type);
+    if (!handlers?.size) return;
+    for (const handler of [...handlers]) {
+      Promise.resolve()
+        .then(() => handler(peerId, message))
+        .catch((error) => console.error('[P2P] Error in', message.type, 'handler:', error));
+    }
+  }
+
+  private handleDisconnect(peerId: string): void {
+    const wasConnected = this.peerVersions.delete(peerId);
+    this.peerIdentities.delete(peerId);
+    this.challenges.delete(peerId);
+    this.greeted.delete(peerId);
+    this.rejected.delete(peerId);
+    if (wasConnected) this.disconnectListeners.forEach((listener) => listener(peerId));
+  }
+
+  private notifyMembers(): void {
+    this.membersListeners.forEach((listener) => listener());
+  }
+
+  private emitError(error: Error): void {
+    this.errorListeners.forEach((listener) => listener(error));
+  }
+
+  public sendTo(peerId: string, message: P2PMessage): void {
+    const peer = this.peers.get(peerId);
+    if (message.type === 'transfer-chunk') {
+      this.sendFrame(peerId, encodeChunkFrame(message.payload));
+      return;
+    }
+    if (peer?.connected) {
+      peer.send(JSON.stringify(message));
+    } else if (this.signaling?.relays) {
+      console.warn('[P2P] ↘️ Relaying through signaling to', peerId, 'type:', message.type);
+      this.relay.seal(peerId, { json: JSON.stringify(message) });
+    }
+  }
+
+  // Binary frames go as-is over the data channel, and sealed as they are over the relay
+  private sendFrame(peerId: string, frame: ArrayBuffer): void {
+    const peer = this.peers.get(peerId);
+    if (peer?.connected) {
+      peer.send(frame);
+    } else if (this.signaling?.relays) {
+      this.relay.seal(peerId, { frame: new Uint8Array(frame) });
+    }
+  }
+
+  // Sends to every member of the room, one by one: the relay never gets a message it
+  // could read, and devices outside the room get nothing
+  public broadcast(message: P2PMessage): void {
+    console.log('[P2P] 📣 Broadcasting', message.type);
+    this.getAllPeerIds().forEach((peerId) => this.sendTo(peerId, message));
+  }
+
+
   public getLocalId(): string {
     return this.localId;
   }
+
+  // The device id the peer proved it owns, over its data channel or by signing its relay
+  // key; undefined until it did (and always for browsers that cannot sign)
+  public getDeviceId(peerId: string): string | undefined {
+    return this.provenDevice(peerId) ?? this.relay.deviceOf(peerId);
+  }
+
+  private provenDevice(peerId: string): string | undefined {
+    const identity = this.peerIdentities.get(peerId);
+    return identity?.verified ? identity.deviceId : undefined;
+  }
+
+  public getPeerIdentity(peerId: string): PeerIdentity | undefined {
+    return this.peerIdentities.get(peerId);
+  }
+
+  // Nickname if the peer announced one, else a short form of its session id
+  public getPeerName(peerId: string): string {
+    return this.peerIdentities.get(peerId)?.nickname || `Dispositivo ${peerId.substring(0, 8)}`;
+  }
+
+  public getLocalIdentity(): LocalIdentity | null {
+    return this.identity;
+  }
+
+  // Saves the nickname and announces it to every connected peer
+  public async setNickname(nickname: string): Promise<void> {
+    await identityService.setNickname(nickname);
+    this.peerVersions.forEach((_version, peerId) => this.greet(peerId));
+  }
   
   public getOnlinePeerIds(): string[] {
     return Array.from(this.onlineIds).filter(id => id !== this.localId);
@@ -304,22 +653,49 @@ class P2PService {
     return Array.from(set);
   }
 
+  // Whether the peer is in the current room, present or (with manual pairing) connected
+  public isRoomMember(peerId: string): boolean {
+    return this.onlineIds.has(peerId) || this.peers.has(peerId);
+  }
+
   // Check if a direct WebRTC data channel is established with a peer
   public isDirectConnected(peerId: string): boolean {
     const peer = this.peers.get(peerId);
     return !!(peer && peer.connected);
   }
+
+  // Resolves once the data channel to the peer holds at most `limit` unsent bytes, so a
+  // transfer never queues more than the browser can buffer. Relayed peers resolve at once.
+  public async waitForDrain(peerId: string, limit: number): Promise<void> {
+    for (;;) {
+      const peer = this.peers.get(peerId);
+      if (!peer?.connected || peer.bufferSize <= limit) return;
+      await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_MS));
+    }
+  }
   
   public async destroy(): Promise<void> {
-    await this.channel?.detach();
-    await this.ably?.close();
+    const signaling = this.signaling;
+    this.signaling = null;
+    this.signalingKind = null;
+    if (this.presenceInterval) {
+      clearInterval(this.presenceInterval);
+      this.presenceInterval = null;
+    }
+    await signaling?.disconnect();
+    this.relay.reset();
+    const peerIds = [...this.peers.keys()];
     this.peers.forEach(p => p.destroy());
     this.peers.clear();
+    // Close events of destroyed peers are ignored, so tell listeners here
+    peerIds.forEach((peerId) => this.handleDisconnect(peerId));
     this.onlineIds.clear();
-    if ((this as any)._presenceInterval) {
-      clearInterval((this as any)._presenceInterval);
-      (this as any)._presenceInterval = null;
-    }
+    this.peerVersions.clear();
+    this.peerIdentities.clear();
+    this.challenges.clear();
+    this.greeted.clear();
+    this.rejected.clear();
+    this.notifyMembers();
   }
 }
 
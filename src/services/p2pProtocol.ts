@@ -0,0 +1,429 @@
+// Messages exchanged between peers, over the WebRTC data channel or the Ably fallback.
+// Every message is validated on arrival; anything that does not match is dropped.
+// Control messages travel as JSON; audio chunks travel as binary frames (see below).
+
+// Bump when a message changes shape. Peers also announce the oldest version they can
+// still talk to, so a newer build can keep accepting older ones.
+export const PROTOCOL_VERSION = 8;
+export const MIN_PROTOCOL_VERSION = 8;
+
+// Raw audio bytes per transfer chunk. The Ably fallback carries frames as base64, which
+// inflates them to ~44KB, still under its 64KB message limit.
+export const TRANSFER_CHUNK_SIZE = 32 * 1024;
+
+export type DeviceType = 'phone' | 'desktop';
+
+export interface PeerPlaylistSummary {
+  id: number;
+  name: string;
+  songCount: number;
+  // Whether the owner lets others download it, or only see its songs
+  downloadable: boolean;
+}
+
+export interface PeerSongSummary {
+  index: number;
+  title: string;
+  artist: string;
+  album: string;
+  duration: number;
+}
+
+// A track of a listen-together session. Devices find it in their own library by hash.
+export interface ListenTrack {
+  sha256: string;
+  title: string;
+  artist: string;
+  album: string;
+  duration: number;
+}
+
+// Library sync between a user's own devices (see librarySync.ts). Playlists are matched by
+// uid and songs by hash; times are the writing device's clock, in milliseconds.
+export interface SyncPlaylist {
+  uid: string;
+  name: string;
+  nameAt: number;
+  orderAt: number;
+}
+
+export interface SyncEntry {
+  playlist: string;
+  sha256: string;
+  position: number;
+  addedAt: number;
+}
+
+// A deleted playlist, or a song removed from one when `sha256` is set
+export interface SyncDeletion {
+  playlist: string;
+  sha256?: string;
+  deletedAt: number;
+}
+
+// What a request-denied answers, and why it was turned down
+export type DeniedRequest = 'playlists' | 'playlist-songs' | 'transfer' | 'listen' | 'sync';
+export type DenialReason = 'blocked' | 'private' | 'not-downloadable' | 'declined' | 'not-paired';
+
+export type P2PMessage =
+  // `deviceId` stays the same across sessions, unlike the peer id, so permissions given
+  // to a device last. It is the fingerprint of `publicKey`, proven by answering
+  // `challenge` with an identity-proof (see identity.ts).
+  | { type: 'hello'; payload: HelloPayload }
+  | { type: 'identity-proof'; payload: { signature: string } }
+  | { type: 'location'; payload: { lat: number; lng: number; device: DeviceType } }
+  | { type: 'request-location' }
+  | { type: 'request-playlists' }
+  | { type: 'playlists-response'; payload: { playlists: PeerPlaylistSummary[] } }
+  | {
+      type: 'request-playlist-songs-meta';
+      payload: { playlistId: number; page: number; pageSize: number };
+    }
+  | {
+      type: 'playlist-songs-meta';
+      payload: {
+        playlistId: number;
+        page: number;
+        pageSize: number;
+        total: number;
+        downloadable: boolean;
+        songs: PeerSongSummary[];
+      };
+    }
+  // Answers a request the owner's sharing settings or the owner turned down.
+  // `transferId` is set for transfers, `playlistId` for requests about one playlist.
+  | {
+      type: 'request-denied';
+      payload: { request: DeniedRequest; reason: DenialReason; transferId?: string; playlistId?: number };
+    }
+  // Transfers. The receiver picks the transfer id, so it can ask to resume it later.
+  | { type: 'request-clone'; payload: { transferId: string; playlistId: number } }
+  | { type: 'request-song'; payload: { transferId: string; playlistId: number; songIndex: number } }
+  // Like request-song, but the song is played as it arrives rather than saved (see
+  // peerStream.ts), so the receiver steers the order of the chunks with `end` in its acks
+  | { type: 'request-stream'; payload: { transferId: string; playlistId: number; songIndex: number } }
+  | { type: 'transfer-resume'; payload: { transferId: string; playlistId: number; songIndex?: number } }
+  | { type: 'transfer-cancel'; payload: { transferId: string } }
+  | { type: 'clone-start'; payload: { transferId: string; playlistName: string; totalSongs: number } }
+  // Announces a song; the receiver answers with an ack saying which chunk to start from
+  | { type: 'transfer-song'; payload: TransferSongHeader }
+  // Never sent as JSON: see encodeChunkFrame
+  | {
+      type: 'transfer-chunk';
+      payload: { transferId: string; songIndex: number; chunkIndex: number; data: ArrayBuffer };
+    }
+  // `next` is the first chunk the receiver is missing; `missing` lists later gaps. With
+  // `end`, the receiver already has that chunk: the sender stops there until the next ack.
+  // A receiver playing the song sets `next` to where the listener is, not to the first gap.
+  | {
+      type: 'transfer-ack';
+      payload: { transferId: string; songIndex: number; next: number; missing: number[]; end?: number };
+    }
+  // Sent once every chunk arrived and the SHA-256 was checked
+  | { type: 'transfer-song-done'; payload: { transferId: string; songIndex: number; ok: boolean } }
+  // `missing`: titles of songs whose audio the sender did not have
+  | { type: 'clone-complete'; payload: { transferId: string; playlistName: string; missing: string[] } }
+  | { type: 'clone-error'; payload: { transferId: string; message: string } }
+  // Listen-together sessions (see listenTogether.ts). The host announces its session to the
+  // room and sends its playback state to whoever joined.
+  | { type: 'listen-session'; payload: { sessionId: string; guestsCanQueue: boolean } }
+  | { type: 'listen-end'; payload: { sessionId: string } }
+  | { type: 'listen-join'; payload: { sessionId: string } }
+  | { type: 'listen-leave'; payload: { sessionId: string } }
+  | { type: 'listen-state'; payload: ListenState }
+  // A guest's song for the host's queue, when the host allows it
+  | { type: 'listen-queue-add'; payload: { sessionId: string; track: ListenTrack } }
+  // Asks for a session track the asker does not have; it arrives as a transfer-song with
+  // this transfer id, and is not saved to the library
+  | { type: 'listen-track-request'; payload: { sessionId: string; transferId: string; sha256: string } }
+  // A device's library, in `parts` messages so each fits the relay's message limit. The
+  // device that did not start the sync answers with its own, under the same sync id.
+  | {
+      type: 'sync-manifest';
+      payload: {
+        syncId: string;
+        answer: boolean;
+        part: number;
+        parts: number;
+        playlists: SyncPlaylist[];
+        entries: SyncEntry[];
+        deletions: SyncDeletion[];
+      };
+    }
+  // Asks a sync partner for a song it has and we do not; it arrives as a transfer-song
+  // with this transfer id
+  | { type: 'sync-song-request'; payload: { transferId: string; sha256: string } }
+  // Clock offset estimation: the answer carries the answering device's clock when the ping
+  // arrived, in milliseconds
+  | { type: 'clock-ping'; payload: { sentAt: number } }
+  | { type: 'clock-pong'; payload: { sentAt: number; receivedAt: number } };
+
+// The host's playback at the moment `at` of its clock: `position` seconds into `track`.
+// While playing, the position keeps moving from there.
+export interface ListenState {
+  sessionId: string;
+  track?: ListenTrack;
+  playing: boolean;
+  position: number;
+  at: number;
+  upcoming: ListenTrack[];
+  guestsCanQueue: boolean;
+}
+
+export interface HelloPayload {
+  version: number;
+  minVersion: number;
+  deviceId: string;
+  nickname: string;
+  // Missing for browsers that cannot sign; such a device id is never trusted
+  publicKey?: string;
+  challenge: string;
+}
+
+export interface TransferSongHeader {
+  transferId: string;
+  songIndex: number;
+  title: string;
+  artist: string;
+  album: string;
+  duration: number;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  totalChunks: number;
+}
+
+export type P2PMessageType = P2PMessage['type'];
+export type MessageOf<T extends P2PMessageType> = Extract<P2PMessage, { type: T }>;
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = (value) => typeof value === 'string';
+const isCount: Check = (value) => Number.isInteger(value) && (value as number) >= 0;
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isBuffer: Check = (value) => value instanceof ArrayBuffer;
+const optional = (check: Check): Check => (value) => value === undefined || check(value);
+
+function shape(fields: Record<string, Check>): Check {
+  return (value) => {
+    if (typeof value !== 'object' || value === null) return false;
+    const record = value as Record<string, unknown>;
+    return Object.entries(fields).every(([key, check]) => check(record[key]));
+  };
+}
+
+const listOf = (check: Check): Check => (value) => Array.isArray(value) && value.every(check);
+const oneOf = (...options: string[]): Check => (value) => options.includes(value as string);
+const none: Check = () => true;
+
+const playlistSummary = shape({ id: isCount, name: isString, songCount: isCount, downloadable: isBoolean });
+const listenTrack = shape({
+  sha256: isString,
+  title: isString,
+  artist: isString,
+  album: isString,
+  duration: isNumber,
+});
+const syncPlaylist = shape({ uid: isString, name: isString, nameAt: isNumber, orderAt: isNumber });
+const syncEntry = shape({ playlist: isString, sha256: isString, position: isCount, addedAt: isNumber });
+const syncDeletion = shape({ playlist: isString, sha256: optional(isString), deletedAt: isNumber });
+const songSummary = shape({
+  index: isCount,
+  title: isString,
+  artist: isString,
+  album: isString,
+  duration: isNumber,
+});
+
+// Payload checks by message type. Extra fields are allowed, so a newer peer can add
+// optional data without breaking older ones.
+const payloads: Record<P2PMessageType, Check> = {
+  hello: shape({
+    version: isCount,
+    minVersion: isCount,
+    deviceId: isString,
+    nickname: isString,
+    publicKey: optional(isString),
+    challenge: isString,
+  }),
+  'identity-proof': shape({ signature: isString }),
+  location: shape({ lat: isNumber, lng: isNumber, device: oneOf('phone', 'desktop') }),
+  'request-location': none,
+  'request-playlists': none,
+  'playlists-response': shape({ playlists: listOf(playlistSummary) }),
+  'request-playlist-songs-meta': shape({ playlistId: isCount, page: isCount, pageSize: isCount }),
+  'playlist-songs-meta': shape({
+    playlistId: isCount,
+    page: isCount,
+    pageSize: isCount,
+    total: isCount,
+    downloadable: isBoolean,
+    songs: listOf(songSummary),
+  }),
+  // Reasons are not checked, so a newer peer can add some; see describeDenial
+  'request-denied': shape({
+    request: oneOf('playlists', 'playlist-songs', 'transfer', 'listen', 'sync'),
+    reason: isString,
+    transferId: optional(isString),
+    playlistId: optional(isCount),
+  }),
+  'request-clone': shape({ transferId: isString, playlistId: isCount }),
+  'request-song': shape({ transferId: isString, playlistId: isCount, songIndex: isCount }),
+  'request-stream': shape({ transferId: isString, playlistId: isCount, songIndex: isCount }),
+  'transfer-resume': shape({ transferId: isString, playlistId: isCount, songIndex: optional(isCount) }),
+  'transfer-cancel': shape({ transferId: isString }),
+  'clone-start': shape({ transferId: isString, playlistName: isString, totalSongs: isCount }),
+  'transfer-song': shape({
+    transferId: isString,
+    songIndex: isCount,
+    title: isString,
+    artist: isString,
+    album: isString,
+    duration: isNumber,
+    mimeType: isString,
+    size: isCount,
+    sha256: isString,
+    totalChunks: isCount,
+  }),
+  // JSON has no ArrayBuffer, so only decoded frames pass this check
+  'transfer-chunk': shape({ transferId: isString, songIndex: isCount, chunkIndex: isCount, data: isBuffer }),
+  'transfer-ack': shape({
+    transferId: isString,
+    songIndex: isCount,
+    next: isCount,
+    missing: listOf(isCount),
+    end: optional(isCount),
+  }),
+  'transfer-song-done': shape({ transferId: isString, songIndex: isCount, ok: isBoolean }),
+  'clone-complete': shape({ transferId: isString, playlistName: isString, missing: listOf(isString) }),
+  'clone-error': shape({ transferId: isString, message: isString }),
+  'listen-session': shape({ sessionId: isString, guestsCanQueue: isBoolean }),
+  'listen-end': shape({ sessionId: isString }),
+  'listen-join': shape({ sessionId: isString }),
+  'listen-leave': shape({ sessionId: isString }),
+  'listen-state': shape({
+    sessionId: isString,
+    track: optional(listenTrack),
+    playing: isBoolean,
+    position: isNumber,
+    at: isNumber,
+    upcoming: listOf(listenTrack),
+    guestsCanQueue: isBoolean,
+  }),
+  'listen-queue-add': shape({ sessionId: isString, track: listenTrack }),
+  'listen-track-request': shape({ sessionId: isString, transferId: isString, sha256: isString }),
+  'sync-manifest': shape({
+    syncId: isString,
+    answer: isBoolean,
+    part: isCount,
+    parts: isCount,
+    playlists: listOf(syncPlaylist),
+    entries: listOf(syncEntry),
+    deletions: listOf(syncDeletion),
+  }),
+  'sync-song-request': shape({ transferId: isString, sha256: isString }),
+  'clock-ping': shape({ sentAt: isNumber }),
+  'clock-pong': shape({ sentAt: isNumber, receivedAt: isNumber }),
+};
+
+// Returns null for anything that is not a well-formed message of a known type
+export function parseMessage(value: unknown): P2PMessage | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { type, payload } = value as { type?: unknown; payload?: unknown };
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(payloads, type)) return null;
+  if (!payloads[type as P2PMessageType](payload)) return null;
+  return value as P2PMessage;
+}
+
+export function helloMessage(
+  identity: Omit<HelloPayload, 'version' | 'minVersion'>,
+): MessageOf<'hello'> {
+  return { type: 'hello', payload: { version: PROTOCOL_VERSION, minVersion: MIN_PROTOCOL_VERSION, ...identity } };
+}
+
+// Both sides must understand each other: the remote is not too old for us, and we are
+// not too old for the remote
+export function isCompatible(remote: MessageOf<'hello'>['payload']): boolean {
+  return remote.version >= MIN_PROTOCOL_VERSION && remote.minVersion <= PROTOCOL_VERSION;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // String.fromCharCode takes the bytes as arguments; spread in slices to stay under the
+  // engine's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Returns null if the text is not valid base64
+export function base64ToBytes(text: string): Uint8Array<ArrayBuffer> | null {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    return null;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// Binary frame for an audio chunk: a small header followed by the raw bytes, so audio is
+// never inflated to base64 or copied through JSON on the data channel. Integers are
+// big-endian.
+//
+//   u8   frame kind (FRAME_TRANSFER_CHUNK)
+//   u8   transfer id length in bytes, then the id as UTF-8
+//   u32  song index
+//   u32  chunk index
+//   u32  payload length, then the payload
+const FRAME_TRANSFER_CHUNK = 1;
+const MAX_TRANSFER_ID_BYTES = 255;
+
+export function encodeChunkFrame(chunk: MessageOf<'transfer-chunk'>['payload']): ArrayBuffer {
+  const id = new TextEncoder().encode(chunk.transferId);
+  if (id.byteLength > MAX_TRANSFER_ID_BYTES) throw new Error('Transfer id too long for a frame');
+  const headerSize = 2 + id.byteLength + 12;
+  const frame = new ArrayBuffer(headerSize + chunk.data.byteLength);
+  const view = new DataView(frame);
+  const bytes = new Uint8Array(frame);
+  view.setUint8(0, FRAME_TRANSFER_CHUNK);
+  view.setUint8(1, id.byteLength);
+  bytes.set(id, 2);
+  view.setUint32(2 + id.byteLength, chunk.songIndex);
+  view.setUint32(6 + id.byteLength, chunk.chunkIndex);
+  view.setUint32(10 + id.byteLength, chunk.data.byteLength);
+  bytes.set(new Uint8Array(chunk.data), headerSize);
+  return frame;
+}
+
+// Returns null for a truncated frame or one of an unknown kind. The payload is copied out
+// of `frame`, so it can be stored without keeping the whole frame alive.
+export function decodeChunkFrame(frame: Uint8Array): MessageOf<'transfer-chunk'> | null {
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  if (frame.byteLength < 2 || view.getUint8(0) !== FRAME_TRANSFER_CHUNK) return null;
+  const idLength = view.getUint8(1);
+  const headerSize = 2 + idLength + 12;
+  if (frame.byteLength < headerSize) return null;
+  const length = view.getUint32(10 + idLength);
+  if (frame.byteLength !== headerSize + length) return null;
+  let transferId: string;
+  try {
+    transferId = new TextDecoder('utf-8', { fatal: true }).decode(frame.subarray(2, 2 + idLength));
+  } catch {
+    return null;
+  }
+  return {
+    type: 'transfer-chunk',
+    payload: {
+      transferId,
+      songIndex: view.getUint32(2 + idLength),
+      chunkIndex: view.getUint32(6 + idLength),
+      // Copied from the underlying buffer: Buffer#slice (what simple-peer hands out) is a view
+      data: frame.buffer.slice(frame.byteOffset + headerSize, frame.byteOffset + frame.byteLength) as ArrayBuffer,
+    },
+  };
+}
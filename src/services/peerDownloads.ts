@@ -0,0 +1,422 @@
+import { ref } from 'vue';
+import { dbService, hashAudio, type IncomingSong, type TransferRecord } from './db';
+import { loudnessService } from './loudness';
+import { p2pService } from './p2p';
+import { TRANSFER_CHUNK_SIZE, type MessageOf } from './p2pProtocol';
+import { PlaylistService } from './playlist';
+import type { StreamedSong } from './peerStream';
+import { describeDenial } from './sharingPolicy';
+import { pictureToDataUrl, tagService } from './tags';
+
+// The receiver acknowledges every few chunks, and at once when it notices a gap
+const ACK_EVERY = 8;
+const MAX_MISSING_REPORTED = 64;
+
+export type DownloadStatus = 'active' | 'waiting' | 'done' | 'failed';
+
+export interface DownloadProgress {
+  id: string;
+  peerId: string;
+  playlistName: string;
+  status: DownloadStatus;
+  current: number; // songs saved
+  total: number;
+  songTitle: string;
+  songPercent: number;
+  startTime: number;
+  message: string | null;
+}
+
+// Chunks stored so far for the song in progress
+interface ReceivedChunks {
+  indexes: Set<number>;
+  highest: number;
+}
+
+function createTransferId(): string {
+  return `t_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Downloads playlists and songs from other devices. Every chunk is written to IndexedDB as
+// it arrives, so a transfer interrupted by a disconnect or a reload resumes where it was.
+class PeerDownloadService {
+  public readonly downloads = ref<DownloadProgress[]>([]);
+  private records = new Map<string, TransferRecord>();
+  private received = new Map<string, ReceivedChunks>();
+  // Messages of one transfer are handled one after the other
+  private queues = new Map<string, Promise<void>>();
+  private unsubscribers: Array<() => void> = [];
+  private playlistService = new PlaylistService();
+
+  async start(): Promise<void> {
+    if (this.unsubscribers.length > 0) return;
+    this.unsubscribers = [
+      p2pService.onMessage('clone-start', (peerId, { payload }) =>
+        this.enqueue(payload.transferId, () => this.handleStart(peerId, payload)),
+      ),
+      p2pService.onMessage('transfer-song', (peerId, { payload }) =>
+        this.enqueue(payload.transferId, () => this.handleSongHeader(peerId, payload)),
+      ),
+      p2pService.onMessage('transfer-chunk', (peerId, { payload }) =>
+        this.enqueue(payload.transferId, () => this.handleChunk(peerId, payload)),
+      ),
+      p2pService.onMessage('clone-complete', (peerId, { payload }) =>
+        this.enqueue(payload.transferId, () => this.handleComplete(peerId, payload)),
+      ),
+      p2pService.onMessage('clone-error', (peerId, { payload }) =>
+        this.enqueue(payload.transferId, () => this.handleError(peerId, payload)),
+      ),
+      p2pService.onMessage('request-denied', (peerId, { payload }) => {
+        const { transferId } = payload;
+        if (payload.request !== 'transfer' || !transferId) return;
+        return this.enqueue(transferId, () => this.handleDenied(peerId, transferId, payload.reason));
+      }),
+      p2pService.onConnect((peerId) => {
+        this.records.forEach((record) => {
+          if (record.peerId === peerId) this.resume(record.id);
+        });
+      }),
+      // The sender came back under a new peer id (after a reload, or in a later session)
+      p2pService.onIdentityChange((peerId) => {
+        const deviceId = p2pService.getDeviceId(peerId);
+        if (!deviceId) return;
+        this.records.forEach((record) => {
+          if (record.deviceId !== deviceId || record.peerId === peerId) return;
+          record.peerId = peerId;
+          this.updateProgress(record.id, { peerId });
+          this.enqueue(record.id, () => dbService.saveTransfer(record)).then(() => this.resume(record.id));
+        });
+      }),
+      p2pService.onDisconnect((peerId) => {
+        this.downloads.value.forEach((download) => {
+          if (download.peerId === peerId && download.status === 'active') download.status = 'waiting';
+        });
+      }),
+    ];
+
+    // Downloads left unfinished by a previous session wait for their peer to come back
+    for (const record of await dbService.getTransfers()) {
+      this.records.set(record.id, record);
+      this.downloads.value.push({
+        ...this.createProgress(record),
+        current: record.doneSongs.length,
+        status: 'waiting',
+        message: 'Aguardando o outro dispositivo para continuar.',
+      });
+    }
+  }
+
+  async requestPlaylist(peerId: string, playlistId: number): Promise<void> {
+    const record = await this.createRecord(peerId, { playlistId });
+    p2pService.sendTo(peerId, { type: 'request-clone', payload: { transferId: record.id, playlistId } });
+  }
+
+  async requestSong(peerId: string, playlistId: number, songIndex: number): Promise<void> {
+    const record = await this.createRecord(peerId, { playlistId, songIndex });
+    p2pService.sendTo(peerId, {
+      type: 'request-song',
+      payload: { transferId: record.id, playlistId, songIndex },
+    });
+  }
+
+  resume(transferId: string): void {
+    const record = this.records.get(transferId);
+    if (!record) return;
+    console.log('[PeerDownloads] Asking', record.peerId, 'to resume', transferId);
+    this.updateProgress(transferId, { status: 'active', message: null });
+    p2pService.sendTo(record.peerId, { type: 'transfer-resume', payload: { transferId, ...record.source } });
+  }
+
+  async cancel(transferId: string): Promise<void> {
+    const record = this.records.get(transferId);
+    if (record) {
+      p2pService.sendTo(record.peerId, { type: 'transfer-cancel', payload: { transferId } });
+      await this.enqueue(transferId, () => this.forget(transferId));
+    }
+    this.dismiss(transferId);
+  }
+
+  // Removes a finished or failed download from the list
+  dismiss(transferId: string): void {
+    this.downloads.value = this.downloads.value.filter((download) => download.id !== transferId);
+  }
+
+  private async createRecord(peerId: string, source: TransferRecord['source']): Promise<TransferRecord> {
+    const record: TransferRecord = {
+      id: createTransferId(),
+      peerId,
+      deviceId: p2pService.getDeviceId(peerId),
+      source,
+      playlistName: 'Playlist',
+      playlistId: null,
+      totalSongs: 0,
+      doneSongs: [],
+      createdAt: Date.now(),
+    };
+    await dbService.saveTransfer(record);
+    this.records.set(record.id, record);
+    this.downloads.value.push({ ...this.createProgress(record), message: 'Aguardando resposta...' });
+    return record;
+  }
+
+  private async handleStart(peerId: string, payload: MessageOf<'clone-start'>['payload']): Promise<void> {
+    const record = this.recordFrom(peerId, payload.transferId);
+    if (!record) return;
+    // A resumed transfer keeps the playlist created the first time
+    if (record.playlistId === null) {
+      record.playlistName = `[${p2pService.getPeerName(peerId)}] ${payload.playlistName}`;
+      record.playlistId = await this.playlistService.addPlaylist(record.playlistName);
+      console.log('[PeerDownloads] 🆕 Clone started:', record.playlistName, 'Songs:', payload.totalSongs);
+    }
+    record.totalSongs = payload.totalSongs;
+    await dbService.saveTransfer(record);
+    this.updateProgress(record.id, {
+      playlistName: record.playlistName,
+      total: record.totalSongs,
+      status: 'active',
+      message: null,
+    });
+  }
+
+  private async handleSongHeader(peerId: string, header: MessageOf<'transfer-song'>['payload']): Promise<void> {
+    const record = this.recordFrom(peerId, header.transferId);
+    if (!record || record.playlistId === null) return;
+    if (header.totalChunks !== Math.ceil(header.size / TRANSFER_CHUNK_SIZE) || header.totalChunks === 0) {
+      console.warn('[PeerDownloads] Ignoring song header with inconsistent size:', header);
+      return;
+    }
+    this.updateProgress(record.id, { status: 'active', songTitle: header.title, message: null });
+
+    // Already in the library, from this transfer before it was interrupted or from elsewhere
+    const existing = await dbService.findSongByHash(header.sha256);
+    if (existing) {
+      await this.playlistService.addSongToPlaylist(existing.id!, record.playlistId);
+      console.log('[PeerDownloads] Already in the library, linked instead of downloaded:', header.title);
+      await this.completeSong(peerId, record, header.songIndex);
+      return;
+    }
+
+    const { transferId: _transferId, ...song } = header;
+    const partial = record.partial;
+    if (!partial || partial.songIndex !== song.songIndex || partial.sha256 !== song.sha256) {
+      // Chunks of a song the sender no longer offers are of no use
+      if (partial) await dbService.deleteTransferChunks(record.id, partial.songIndex);
+      this.received.delete(record.id);
+      record.partial = song;
+      await dbService.saveTransfer(record);
+    }
+
+    const received = await this.receivedChunks(record.id, song);
+    this.updateProgress(record.id, { songPercent: this.songPercent(received, song) });
+    if (received.indexes.size >= song.totalChunks) {
+      await this.finishSong(peerId, record);
+    } else {
+      this.sendAck(peerId, record.id, song, received);
+    }
+  }
+
+  private async handleChunk(peerId: string, chunk: MessageOf<'transfer-chunk'>['payload']): Promise<void> {
+    const record = this.recordFrom(peerId, chunk.transferId);
+    const song = record?.partial;
+    const received = this.received.get(chunk.transferId);
+    if (!record || !song || !received || song.songIndex !== chunk.songIndex) return;
+    if (chunk.chunkIndex >= song.totalChunks || received.indexes.has(chunk.chunkIndex)) return;
+
+    // A chunk of the wrong length is dropped and will be asked for again
+    const expected = Math.min(TRANSFER_CHUNK_SIZE, song.size - chunk.chunkIndex * TRANSFER_CHUNK_SIZE);
+    if (chunk.data.byteLength !== expected) {
+      console.warn('[PeerDownloads] Dropping damaged chunk', chunk.chunkIndex, 'of', song.title);
+      return;
+    }
+
+    await dbService.putTransferChunk({
+      transferId: record.id,
+      songIndex: song.songIndex,
+      chunkIndex: chunk.chunkIndex,
+      data: chunk.data,
+    });
+    const gap = chunk.chunkIndex > received.highest + 1;
+    received.indexes.add(chunk.chunkIndex);
+    received.highest = Math.max(received.highest, chunk.chunkIndex);
+    this.updateProgress(record.id, { songPercent: this.songPercent(received, song) });
+
+    if (received.indexes.size === song.totalChunks) {
+      await this.finishSong(peerId, record);
+    } else if (gap || received.indexes.size % ACK_EVERY === 0) {
+      this.sendAck(peerId, record.id, song, received);
+    }
+  }
+
+  // Every chunk is stored: join them, check the SHA-256 and add the song to the playlist
+  private async finishSong(peerId: string, record: TransferRecord): Promise<void> {
+    const song = record.partial!;
+    const parts = await dbService.getTransferChunks(record.id, song.songIndex);
+    const data = new Blob(parts, { type: song.mimeType });
+    const hash = await hashAudio(data);
+    await dbService.deleteTransferChunks(record.id, song.songIndex);
+    this.received.delete(record.id);
+
+    if (hash !== song.sha256) {
+      console.warn('[PeerDownloads] ❌ Checksum mismatch for', song.title, '- asking again');
+      this.received.set(record.id, { indexes: new Set(), highest: -1 });
+      p2pService.sendTo(peerId, {
+        type: 'transfer-song-done',
+        payload: { transferId: record.id, songIndex: song.songIndex, ok: false },
+      });
+      return;
+    }
+
+    await this.saveSong(record.playlistId!, song, data, hash);
+    await this.completeSong(peerId, record, song.songIndex);
+  }
+
+  // Saves a song that was listened to as it arrived (see peerStream.ts), without asking
+  // for it again. It goes to a playlist named like downloaded ones, created on first use.
+  // Returns the playlist name.
+  async keepStreamed(peerId: string, playlistName: string, { header, audio }: StreamedSong): Promise<string> {
+    const name = `[${p2pService.getPeerName(peerId)}] ${playlistName}`;
+    const playlists = await this.playlistService.loadPlaylists();
+    const playlistId = playlists.find((p) => p.name === name)?.id ?? (await this.playlistService.addPlaylist(name));
+    const existing = await dbService.findSongByHash(header.sha256);
+    if (existing) {
+      await this.playlistService.addSongToPlaylist(existing.id!, playlistId);
+    } else {
+      await this.saveSong(playlistId, header, audio, header.sha256);
+    }
+    return name;
+  }
+
+  // Adds a song received from another device to a playlist, with its tags and loudness
+  async saveSong(playlistId: number, song: IncomingSong, data: Blob, hash: string): Promise<void> {
+    // Loudness is measured here too: the sender may have imported it before analysis existed
+    const tags = await tagService.read(data);
+    const loudness = await loudnessService.describe(data, tags.replayGain);
+    await this.playlistService.addSong({
+      title: song.title,
+      artist: song.artist,
+      album: song.album,
+      duration: song.duration,
+      year: tags.year || '',
+      track: tags.track,
+      img: tags.picture ? pictureToDataUrl(tags.picture) : 'musica.png',
+      playlistId,
+      data,
+      mimeType: song.mimeType,
+      hash,
+      ...loudness,
+    });
+    console.log('[PeerDownloads] ✅ Song saved:', song.title);
+  }
+
+  private async completeSong(peerId: string, record: TransferRecord, songIndex: number): Promise<void> {
+    if (!record.doneSongs.includes(songIndex)) record.doneSongs.push(songIndex);
+    if (record.partial?.songIndex === songIndex) record.partial = undefined;
+    await dbService.saveTransfer(record);
+    this.updateProgress(record.id, { current: record.doneSongs.length, songPercent: 100 });
+    p2pService.sendTo(peerId, {
+      type: 'transfer-song-done',
+      payload: { transferId: record.id, songIndex, ok: true },
+    });
+  }
+
+  private async handleComplete(peerId: string, payload: MessageOf<'clone-complete'>['payload']): Promise<void> {
+    const { transferId, missing } = payload;
+    const record = this.recordFrom(peerId, transferId);
+    if (!record) return;
+    const saved = record.playlistId === null ? 0 : await this.playlistService.getPlaylistSongCount(record.playlistId);
+    await this.forget(transferId);
+    console.log('[PeerDownloads] ✅ Clone finalized:', saved, 'songs in', record.playlistName);
+    let message = `Playlist "${record.playlistName}" clonada com sucesso! ${saved} música${saved !== 1 ? 's' : ''} na playlist.`;
+    if (missing.length > 0) {
+      message += ` ${missing.length} não estava(m) disponível(is) no outro dispositivo: ${missing.slice(0, 5).join(', ')}${missing.length > 5 ? '...' : ''}`;
+    }
+    this.updateProgress(transferId, { status: 'done', current: record.doneSongs.length, message });
+  }
+
+  private async handleError(peerId: string, payload: MessageOf<'clone-error'>['payload']): Promise<void> {
+    if (!this.recordFrom(peerId, payload.transferId)) return;
+    await this.forget(payload.transferId);
+    this.updateProgress(payload.transferId, {
+      status: 'failed',
+      message: `Erro ao clonar playlist: ${payload.message}`,
+    });
+  }
+
+  private async handleDenied(peerId: string, transferId: string, reason: string): Promise<void> {
+    if (!this.recordFrom(peerId, transferId)) return;
+    await this.forget(transferId);
+    this.updateProgress(transferId, { status: 'failed', message: `Download recusado: ${describeDenial(reason)}` });
+  }
+
+  private sendAck(peerId: string, transferId: string, song: IncomingSong, received: ReceivedChunks): void {
+    let next = 0;
+    while (received.indexes.has(next)) next++;
+    const missing: number[] = [];
+    for (let index = next + 1; index < received.highest && missing.length < MAX_MISSING_REPORTED; index++) {
+      if (!received.indexes.has(index)) missing.push(index);
+    }
+    p2pService.sendTo(peerId, {
+      type: 'transfer-ack',
+      payload: { transferId, songIndex: song.songIndex, next, missing },
+    });
+  }
+
+  private async receivedChunks(transferId: string, song: IncomingSong): Promise<ReceivedChunks> {
+    let received = this.received.get(transferId);
+    if (!received) {
+      const indexes = new Set(await dbService.getTransferChunkIndexes(transferId, song.songIndex));
+      received = { indexes, highest: Math.max(-1, ...indexes) };
+      this.received.set(transferId, received);
+    }
+    return received;
+  }
+
+  private async forget(transferId: string): Promise<void> {
+    await dbService.deleteTransfer(transferId);
+    this.records.delete(transferId);
+    this.received.delete(transferId);
+  }
+
+  // Only the peer a transfer was requested from may drive it
+  private recordFrom(peerId: string, transferId: string): TransferRecord | undefined {
+    const record = this.records.get(transferId);
+    return record?.peerId === peerId ? record : undefined;
+  }
+
+  private enqueue(transferId: string, task: () => Promise<void>): Promise<void> {
+    const run = (this.queues.get(transferId) ?? Promise.resolve())
+      .then(task)
+      .catch((error) => console.error('[PeerDownloads] Error handling transfer', transferId, error));
+    this.queues.set(transferId, run);
+    run.then(() => {
+      if (this.queues.get(transferId) === run) this.queues.delete(transferId);
+    });
+    return run;
+  }
+
+  private createProgress(record: TransferRecord): DownloadProgress {
+    return {
+      id: record.id,
+      peerId: record.peerId,
+      playlistName: record.playlistName,
+      status: 'active',
+      current: 0,
+      total: record.totalSongs,
+      songTitle: '',
+      songPercent: 0,
+      startTime: Date.now(),
+      message: null,
+    };
+  }
+
+  private updateProgress(transferId: string, changes: Partial<DownloadProgress>): void {
+    const download = this.downloads.value.find((d) => d.id === transferId);
+    if (download) Object.assign(download, changes);
+  }
+
+  private songPercent(received: ReceivedChunks, song: IncomingSong): number {
+    return Math.round((received.indexes.size / song.totalChunks) * 100);
+  }
+}
+
+export const peerDownloadService = new PeerDownloadService();
@@ -0,0 +1,429 @@
+import { dbService, hashAudio, type Song } from './db';
+import { p2pService } from './p2p';
+import {
+  TRANSFER_CHUNK_SIZE,
+  type MessageOf,
+  type PeerPlaylistSummary,
+} from './p2pProtocol';
+import { PlaylistService } from './playlist';
+import { sharingPolicy, type ApprovalDetails } from './sharingPolicy';
+
+// Chunks sent ahead of the receiver's acknowledgements. The data channel also waits for
+// its own send buffer to drain; the Ably fallback has no such signal, so it gets less.
+const DIRECT_WINDOW = 64;
+const RELAY_WINDOW = 8;
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+// With no answer for this long the sender asks the receiver where it is again
+const ACK_TIMEOUT_MS = 8000;
+const MAX_SILENT_TIMEOUTS = 5;
+// A song whose checksum keeps failing is given up on after this many full attempts
+const MAX_SONG_ATTEMPTS = 3;
+
+interface SongSendState {
+  songIndex: number;
+  answered: boolean; // the receiver acknowledged the song header
+  next: number; // first chunk the receiver is missing
+  cursor: number; // next new chunk to send
+  end: number; // the receiver already has this chunk; nothing new is sent from there
+  resend: Set<number>;
+  verdict: boolean | null; // checksum result reported by the receiver
+}
+
+interface OutgoingTransfer {
+  id: string;
+  peerId: string;
+  cancelled: boolean;
+  song: SongSendState | null;
+  wake: (() => void) | null;
+}
+
+// The receiver stopped answering; unlike other failures it is not reported back to it
+class PeerSilentError extends Error {
+  constructor() {
+    super('O outro dispositivo parou de responder.');
+    this.name = 'PeerSilentError';
+  }
+}
+
+// The song is in the library but its audio is not; a clone goes on without it
+class MissingAudioError extends Error {
+  constructor(title: string) {
+    super(`"${title}" não tem áudio neste dispositivo.`);
+    this.name = 'MissingAudioError';
+  }
+}
+
+// Answers other peers' requests for this device's playlists and songs, as far as the
+// sharing policy allows (see sharingPolicy.ts). Refusals are answered with request-denied.
+class PeerShareService {
+  private playlistService = new PlaylistService();
+  private unsubscribers: Array<() => void> = [];
+  private transfers = new Map<string, OutgoingTransfer>();
+  // Transfers the owner approved, by the device that asked, so resuming one does not ask
+  // again. Keyed by device rather than peer id, which changes when the receiver reloads.
+  private approved = new Map<string, string>();
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+    this.unsubscribers = [
+      p2pService.onMessage('request-playlists', (peerId) => this.sendPlaylists(peerId)),
+      p2pService.onMessage('request-playlist-songs-meta', (peerId, message) =>
+        this.sendSongsMeta(peerId, message.payload),
+      ),
+      p2pService.onMessage('request-clone', (peerId, { payload }) =>
+        this.sendTransfer(peerId, payload.transferId, payload.playlistId),
+      ),
+      p2pService.onMessage('request-song', (peerId, { payload }) =>
+        this.sendTransfer(peerId, payload.transferId, payload.playlistId, payload.songIndex),
+      ),
+      p2pService.onMessage('request-stream', (peerId, { payload }) =>
+        this.sendTransfer(peerId, payload.transferId, payload.playlistId, payload.songIndex, true),
+      ),
+      // The receiver reconnected with a partial download; a transfer that is still running
+      // recovers on its own through its timeouts
+      p2pService.onMessage('transfer-resume', (peerId, { payload }) => {
+        if (this.transfers.has(payload.transferId)) return;
+        return this.sendTransfer(peerId, payload.transferId, payload.playlistId, payload.songIndex);
+      }),
+      p2pService.onMessage('transfer-cancel', (peerId, { payload }) => {
+        const transfer = this.transfers.get(payload.transferId);
+        if (transfer?.peerId !== peerId) return;
+        transfer.cancelled = true;
+        transfer.wake?.();
+      }),
+      p2pService.onDisconnect((peerId) => sharingPolicy.dismissApprovals(peerId)),
+      p2pService.onMessage('transfer-ack', (peerId, { payload }) => {
+        const song = this.currentSong(peerId, payload.transferId, payload.songIndex);
+        if (!song) return;
+        song.answered = true;
+        // The receiver is the source of truth. It may even be behind what it acknowledged
+        // before, if it reloaded before storing some chunks; then sending restarts there.
+        song.cursor = payload.next < song.next ? payload.next : Math.max(song.cursor, payload.next);
+        song.next = payload.next;
+        song.end = payload.end ?? Number.POSITIVE_INFINITY;
+        payload.missing.forEach((index) => song.resend.add(index));
+        this.transfers.get(payload.transferId)!.wake?.();
+      }),
+      p2pService.onMessage('transfer-song-done', (peerId, { payload }) => {
+        const song = this.currentSong(peerId, payload.transferId, payload.songIndex);
+        if (!song) return;
+        song.answered = true;
+        song.verdict = payload.ok;
+        this.transfers.get(payload.transferId)!.wake?.();
+      }),
+    ];
+  }
+
+  stop(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.transfers.forEach((transfer) => {
+      transfer.cancelled = true;
+      transfer.wake?.();
+    });
+  }
+
+  // Names and counts of the playlists that are not private; songs are listed page by page
+  // when the peer asks
+  private async sendPlaylists(peerId: string): Promise<void> {
+    try {
+      if ((await sharingPolicy.permissionOf(peerId)) === 'blocked') {
+        this.deny(peerId, { request: 'playlists', reason: 'blocked' });
+        return;
+      }
+      const playlists = await this.playlistService.loadPlaylists();
+      const summaries: PeerPlaylistSummary[] = [];
+      for (const p of playlists) {
+        if (!p.id || !p.sharing || p.sharing === 'private') continue;
+        const songCount = await this.playlistService.getPlaylistSongCount(p.id);
+        summaries.push({ id: p.id, name: p.name, songCount, downloadable: p.sharing === 'downloadable' });
+      }
+      p2pService.sendTo(peerId, { type: 'playlists-response', payload: { playlists: summaries } });
+    } catch (error) {
+      console.error('[PeerShare] Error loading playlists:', error);
+    }
+  }
+
+  private async sendSongsMeta(
+    peerId: string,
+    { playlistId, page, pageSize }: MessageOf<'request-playlist-songs-meta'>['payload'],
+  ): Promise<void> {
+    try {
+      const reason = await sharingPolicy.check(peerId, playlistId, 'view');
+      if (reason) {
+        this.deny(peerId, { request: 'playlist-songs', reason, playlistId });
+        return;
+      }
+      const downloadable = (await sharingPolicy.sharingOf(playlistId)) === 'downloadable';
+      const offset = Math.max(0, (page - 1) * pageSize);
+      const songs = await this.playlistService.getSongsForPlaylist(playlistId, pageSize, offset);
+      const total = await this.playlistService.getPlaylistSongCount(playlistId);
+      p2pService.sendTo(peerId, {
+        type: 'playlist-songs-meta',
+        payload: {
+          playlistId,
+          page,
+          pageSize,
+          total,
+          downloadable,
+          songs: songs.map((s, idx) => ({
+            index: offset + idx,
+            title: s.title,
+            artist: s.artist,
+            album: s.album ?? '',
+            duration: s.duration ?? 0,
+          })),
+        },
+      });
+    } catch (error) {
+      console.error('[PeerShare] Error sending songs meta:', error);
+    }
+  }
+
+  // Sends a whole playlist, or one song of it when `songIndex` is given, once the sharing
+  // policy and the owner allow it. Resumed transfers start over from the first song: the
+  // receiver skips songs it already has by checksum. A streamed song is only the song: no
+  // clone-start or clone-complete around it.
+  private async sendTransfer(
+    peerId: string,
+    transferId: string,
+    playlistId: number,
+    songIndex?: number,
+    streaming = false,
+  ): Promise<void> {
+    if (this.transfers.has(transferId)) return;
+    const transfer: OutgoingTransfer = { id: transferId, peerId, cancelled: false, song: null, wake: null };
+    this.transfers.set(transferId, transfer);
+    try {
+      const reason = await sharingPolicy.check(peerId, playlistId, 'download');
+      if (reason) {
+        this.deny(peerId, { request: 'transfer', reason, transferId, playlistId });
+        return;
+      }
+
+      let playlistName: string;
+      let songs: Song[];
+      if (songIndex === undefined) {
+        const playlist = await this.playlistService.getPlaylistWithSongs(playlistId);
+        if (!playlist || !playlist.songs.length) {
+          this.sendError(transfer, 'Playlist vazia ou não encontrada');
+          return;
+        }
+        playlistName = playlist.name;
+        songs = playlist.songs;
+      } else {
+        const playlist = await dbService.getPlaylist(playlistId);
+        const song = playlist && (await this.playlistService.getSongByIndex(playlistId, songIndex));
+        if (!playlist || !song) {
+          this.sendError(transfer, 'Música não encontrada.');
+          return;
+        }
+        playlistName = playlist.name;
+        songs = [song];
+      }
+
+      const details: ApprovalDetails =
+        songIndex === undefined
+          ? { playlistName, songCount: songs.length }
+          : { playlistName, songCount: 1, songTitle: songs[0].title, streaming };
+      if (!(await this.approve(transfer, playlistId, details)) || transfer.cancelled) return;
+
+      if (streaming) {
+        await this.sendSong(transfer, 0, songs[0]);
+      } else {
+        p2pService.sendTo(peerId, {
+          type: 'clone-start',
+          payload: { transferId, playlistName, totalSongs: songs.length },
+        });
+        const missing: string[] = [];
+        for (let index = 0; index < songs.length; index++) {
+          try {
+            await this.sendSong(transfer, index, songs[index]);
+          } catch (error) {
+            // A single song that cannot be sent is an error; a playlist goes on without it
+            if (!(error instanceof MissingAudioError) || songIndex !== undefined) throw error;
+            console.warn('[PeerShare]', error.message, '- skipping it');
+            missing.push(songs[index].title);
+          }
+        }
+        p2pService.sendTo(peerId, { type: 'clone-complete', payload: { transferId, playlistName, missing } });
+      }
+      this.approved.delete(transferId);
+    } catch (error) {
+      this.reportFailure(transfer, error);
+    } finally {
+      this.transfers.delete(transferId);
+    }
+  }
+
+  // Sends one song outside of any playlist, such as the current track of a listen-together
+  // session. The caller already decided the peer may have it. `audio` is for songs that
+  // are not in the library.
+  async sendSongTo(peerId: string, transferId: string, song: Song, audio?: Blob): Promise<void> {
+    if (this.transfers.has(transferId)) return;
+    const transfer: OutgoingTransfer = { id: transferId, peerId, cancelled: false, song: null, wake: null };
+    this.transfers.set(transferId, transfer);
+    try {
+      const data = audio ?? (await this.playlistService.getSongAudio(song.id!));
+      if (!data?.size) {
+        this.sendError(transfer, 'Música não encontrada.');
+        return;
+      }
+      await this.sendSong(transfer, 0, song, data);
+    } catch (error) {
+      this.reportFailure(transfer, error);
+    } finally {
+      this.transfers.delete(transferId);
+    }
+  }
+
+  private reportFailure(transfer: OutgoingTransfer, error: any): void {
+    if (transfer.cancelled) {
+      console.log('[PeerShare] Transfer cancelled:', transfer.id);
+    } else if (error instanceof PeerSilentError) {
+      // Most likely gone; the receiver keeps its chunks and asks to resume when it is back
+      console.warn('[PeerShare] Receiver stopped answering, pausing transfer', transfer.id);
+    } else {
+      console.error('[PeerShare] Error sending transfer:', error);
+      this.sendError(transfer, error?.message || 'Erro ao processar clonagem');
+    }
+  }
+
+  // Devices always allowed skip the prompt, and so does a transfer approved before
+  private async approve(transfer: OutgoingTransfer, playlistId: number, details: ApprovalDetails): Promise<boolean> {
+    const { peerId, id: transferId } = transfer;
+    const device = p2pService.getDeviceId(peerId) ?? peerId;
+    if ((await sharingPolicy.permissionOf(peerId)) === 'allowed' || this.approved.get(transferId) === device) {
+      return true;
+    }
+    const decision = await sharingPolicy.requestApproval(peerId, details);
+    if (decision === 'deny' || decision === 'block') {
+      const reason = decision === 'block' ? 'blocked' : 'declined';
+      this.deny(peerId, { request: 'transfer', reason, transferId, playlistId });
+      return false;
+    }
+    this.approved.set(transferId, device);
+    return true;
+  }
+
+  private async sendSong(transfer: OutgoingTransfer, songIndex: number, song: Song, loaded?: Blob): Promise<void> {
+    // Audio is loaded only now, one song at a time, and read a chunk at a time
+    const audio = loaded ?? (await this.playlistService.getSongAudio(song.id!));
+    if (!audio || audio.size === 0) throw new MissingAudioError(song.title);
+    const sha256 = song.hash ?? (await hashAudio(audio));
+    if (!sha256) throw new Error('Este navegador não consegue verificar os arquivos (SHA-256).');
+
+    const header = {
+      transferId: transfer.id,
+      songIndex,
+      title: song.title,
+      artist: song.artist,
+      album: song.album ?? '',
+      duration: song.duration ?? 0,
+      mimeType: audio.type || song.mimeType || 'audio/mpeg',
+      size: audio.size,
+      sha256,
+      totalChunks: Math.ceil(audio.size / TRANSFER_CHUNK_SIZE),
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const state: SongSendState = {
+        songIndex,
+        answered: false,
+        next: 0,
+        cursor: 0,
+        end: Number.POSITIVE_INFINITY,
+        resend: new Set(),
+        verdict: null,
+      };
+      transfer.song = state;
+      p2pService.sendTo(transfer.peerId, { type: 'transfer-song', payload: header });
+      await this.streamChunks(transfer, state, audio, header);
+      if (state.verdict) return;
+      if (attempt >= MAX_SONG_ATTEMPTS) {
+        throw new Error(`"${song.title}" chegou corrompida ${attempt} vezes.`);
+      }
+      console.warn('[PeerShare] Checksum mismatch for', song.title, '- sending again');
+    }
+  }
+
+  // Sends chunks inside the window until the receiver reports the checksum result
+  private async streamChunks(
+    transfer: OutgoingTransfer,
+    state: SongSendState,
+    audio: Blob,
+    header: MessageOf<'transfer-song'>['payload'],
+  ): Promise<void> {
+    let silentTimeouts = 0;
+    while (state.verdict === null) {
+      if (transfer.cancelled) throw new Error('Transferência cancelada.');
+
+      const index = state.answered ? this.nextChunk(transfer, state, header.totalChunks) : undefined;
+      if (index !== undefined) {
+        await p2pService.waitForDrain(transfer.peerId, MAX_BUFFERED_BYTES);
+        const start = index * TRANSFER_CHUNK_SIZE;
+        const data = await audio.slice(start, start + TRANSFER_CHUNK_SIZE).arrayBuffer();
+        p2pService.sendTo(transfer.peerId, {
+          type: 'transfer-chunk',
+          payload: { transferId: transfer.id, songIndex: state.songIndex, chunkIndex: index, data },
+        });
+        continue;
+      }
+
+      const progress = state.next;
+      if (await this.waitForReceiver(transfer, ACK_TIMEOUT_MS)) {
+        if (state.next !== progress || state.verdict !== null) silentTimeouts = 0;
+        continue;
+      }
+      // Nothing heard back: announce the song again; the receiver answers with an ack
+      // saying where it stands, and sending restarts from its first missing chunk
+      if (++silentTimeouts > MAX_SILENT_TIMEOUTS) throw new PeerSilentError();
+      state.cursor = state.next;
+      state.resend.clear();
+      p2pService.sendTo(transfer.peerId, { type: 'transfer-song', payload: header });
+    }
+  }
+
+  private nextChunk(transfer: OutgoingTransfer, state: SongSendState, totalChunks: number): number | undefined {
+    for (const index of state.resend) {
+      state.resend.delete(index);
+      if (index >= state.next && index < totalChunks) return index;
+    }
+    const window = p2pService.isDirectConnected(transfer.peerId) ? DIRECT_WINDOW : RELAY_WINDOW;
+    const limit = Math.min(totalChunks, state.end);
+    if (state.cursor < limit && state.cursor - state.next < window) return state.cursor++;
+    return undefined;
+  }
+
+  // Resolves true when an ack or a verdict arrives, false on timeout
+  private waitForReceiver(transfer: OutgoingTransfer, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        transfer.wake = null;
+        resolve(false);
+      }, timeoutMs);
+      transfer.wake = () => {
+        clearTimeout(timer);
+        transfer.wake = null;
+        resolve(true);
+      };
+    });
+  }
+
+  private currentSong(peerId: string, transferId: string, songIndex: number): SongSendState | null {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer || transfer.peerId !== peerId) return null;
+    return transfer.song?.songIndex === songIndex ? transfer.song : null;
+  }
+
+  private deny(peerId: string, payload: MessageOf<'request-denied'>['payload']): void {
+    console.log('[PeerShare] Denying', payload.request, 'request from', peerId, '-', payload.reason);
+    p2pService.sendTo(peerId, { type: 'request-denied', payload });
+  }
+
+  private sendError(transfer: OutgoingTransfer, message: string): void {
+    p2pService.sendTo(transfer.peerId, { type: 'clone-error', payload: { transferId: transfer.id, message } });
+  }
+}
+
+export const peerShareService = new PeerShareService();
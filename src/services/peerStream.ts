@@ -0,0 +1,293 @@
+import { hashAudio } from './db';
+import { p2pService } from './p2p';
+import { TRANSFER_CHUNK_SIZE, type MessageOf, type P2PMessage, type TransferSongHeader } from './p2pProtocol';
+import { describeDenial } from './sharingPolicy';
+
+// Same pace as peerDownloads.ts: an ack every few chunks, and at once on a gap
+const ACK_EVERY = 8;
+const MAX_MISSING_REPORTED = 64;
+// With nothing heard from the sender for this long the song is given up on
+const STALL_TIMEOUT_MS = 30000;
+// Until the song is announced, which may wait for the owner to approve (see sharingPolicy.ts)
+const ANSWER_TIMEOUT_MS = 70000;
+
+export interface StreamedSong {
+  header: TransferSongHeader;
+  audio: Blob;
+}
+
+// A song being played while it arrives (see streamPlayer.ts)
+export interface SongStream {
+  readonly id: string;
+  readonly peerId: string;
+  // Set once the sender announced the song
+  readonly header: TransferSongHeader | null;
+  // By chunk index, as they arrive
+  readonly chunks: ReadonlyArray<ArrayBuffer | undefined>;
+  readonly received: number;
+  // Resolves with the whole song once every chunk arrived and the SHA-256 matched
+  readonly done: Promise<StreamedSong>;
+  onHeader: ((header: TransferSongHeader) => void) | null;
+  onChunk: ((chunkIndex: number) => void) | null;
+}
+
+interface IncomingStream extends SongStream {
+  // Null when any song with a consistent header will do
+  sha256: string | null;
+  header: TransferSongHeader | null;
+  chunks: Array<ArrayBuffer | undefined>;
+  received: number;
+  highest: number;
+  // For songs being played: the chunk the listener wants next. Null for plain fetches,
+  // which take the chunks in order.
+  wanted: number | null;
+  onProgress?: (fraction: number) => void;
+  resolve: (song: StreamedSong) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+function createStreamId(): string {
+  return `s_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Receives single songs into memory rather than into the library, e.g. the track a
+// listen-together host is playing, or a song listened to from the map. The sender uses
+// the same transfer messages as for downloads (see peerShare.ts); what asks for the song
+// is up to the caller.
+class PeerStreamService {
+  private streams = new Map<string, IncomingStream>();
+  private unsubscribers: Array<() => void> = [];
+
+  start(): void {
+    if (this.unsubscribers.length > 0) return;
+    this.unsubscribers = [
+      p2pService.onMessage('transfer-song', (peerId, { payload }) => this.handleHeader(peerId, payload)),
+      p2pService.onMessage('transfer-chunk', (peerId, { payload }) => this.handleChunk(peerId, payload)),
+      p2pService.onMessage('clone-error', (peerId, { payload }) =>
+        this.fail(peerId, payload.transferId, payload.message),
+      ),
+      p2pService.onMessage('request-denied', (peerId, { payload }) => {
+        if (payload.transferId) this.fail(peerId, payload.transferId, describeDenial(payload.reason));
+      }),
+      p2pService.onDisconnect((peerId) => {
+        this.streams.forEach((stream) => {
+          if (stream.peerId === peerId) this.fail(peerId, stream.id, 'O outro dispositivo se desconectou.');
+        });
+      }),
+    ];
+  }
+
+  // Sends the message `request` builds for a new transfer id, and resolves with the song
+  // once every chunk arrived and the SHA-256 matched. `onProgress` gets the fraction received.
+  fetch(
+    peerId: string,
+    sha256: string,
+    request: (transferId: string) => P2PMessage,
+    onProgress?: (fraction: number) => void,
+  ): Promise<StreamedSong> {
+    return this.receive(peerId, sha256, null, request, onProgress).done;
+  }
+
+  // Like fetch, for a song that is played as it arrives: chunks come in from wherever the
+  // listener asks with `seek`. The whole song still arrives in the end.
+  open(peerId: string, request: (transferId: string) => P2PMessage): SongStream {
+    const stream = this.receive(peerId, null, 0, request);
+    // Nobody may be waiting for the whole song; failures are seen through the handle too
+    stream.done.catch(() => {});
+    return stream;
+  }
+
+  // Asks the sender to go on from `chunkIndex`, e.g. after the listener seeked
+  seek(handle: SongStream, chunkIndex: number): void {
+    const stream = this.streams.get(handle.id);
+    if (!stream || stream.wanted === null) return;
+    stream.wanted = chunkIndex;
+    if (stream.header) this.sendAck(stream);
+  }
+
+  cancel(handle: SongStream): void {
+    if (!this.streams.has(handle.id)) return;
+    p2pService.sendTo(handle.peerId, { type: 'transfer-cancel', payload: { transferId: handle.id } });
+    this.fail(handle.peerId, handle.id, 'Transferência cancelada.');
+  }
+
+  // Stops every song still coming from the peer
+  cancelFrom(peerId: string): void {
+    this.streams.forEach((stream) => {
+      if (stream.peerId === peerId) this.cancel(stream);
+    });
+  }
+
+  private receive(
+    peerId: string,
+    sha256: string | null,
+    wanted: number | null,
+    request: (transferId: string) => P2PMessage,
+    onProgress?: (fraction: number) => void,
+  ): IncomingStream {
+    let resolve!: (song: StreamedSong) => void;
+    let reject!: (error: Error) => void;
+    const done = new Promise<StreamedSong>((onResolve, onReject) => {
+      resolve = onResolve;
+      reject = onReject;
+    });
+    const stream: IncomingStream = {
+      id: createStreamId(),
+      peerId,
+      sha256,
+      header: null,
+      chunks: [],
+      received: 0,
+      highest: -1,
+      wanted,
+      done,
+      onHeader: null,
+      onChunk: null,
+      onProgress,
+      resolve,
+      reject,
+      timer: null,
+    };
+    this.streams.set(stream.id, stream);
+    this.touch(stream);
+    p2pService.sendTo(peerId, request(stream.id));
+    return stream;
+  }
+
+  private handleHeader(peerId: string, header: MessageOf<'transfer-song'>['payload']): void {
+    const stream = this.streamFrom(peerId, header.transferId);
+    if (!stream) return;
+    if (
+      (stream.sha256 !== null && header.sha256 !== stream.sha256) ||
+      header.totalChunks !== Math.ceil(header.size / TRANSFER_CHUNK_SIZE) ||
+      header.totalChunks === 0
+    ) {
+      p2pService.sendTo(peerId, { type: 'transfer-cancel', payload: { transferId: stream.id } });
+      this.fail(peerId, stream.id, 'O outro dispositivo enviou uma música diferente da pedida.');
+      return;
+    }
+    // The sender announces the song again when it stops hearing from us; keep what arrived
+    if (!stream.header) {
+      stream.header = header;
+      stream.chunks = new Array(header.totalChunks);
+      stream.onHeader?.(header);
+    }
+    this.touch(stream);
+    this.sendAck(stream);
+  }
+
+  private async handleChunk(peerId: string, chunk: MessageOf<'transfer-chunk'>['payload']): Promise<void> {
+    const stream = this.streamFrom(peerId, chunk.transferId);
+    const header = stream?.header;
+    if (!stream || !header || chunk.songIndex !== header.songIndex) return;
+    if (chunk.chunkIndex >= header.totalChunks || stream.chunks[chunk.chunkIndex]) return;
+    // A chunk of the wrong length is dropped and will be asked for again
+    const expected = Math.min(TRANSFER_CHUNK_SIZE, header.size - chunk.chunkIndex * TRANSFER_CHUNK_SIZE);
+    if (chunk.data.byteLength !== expected) return;
+
+    const gap = chunk.chunkIndex > stream.highest + 1;
+    stream.chunks[chunk.chunkIndex] = chunk.data;
+    stream.received++;
+    stream.highest = Math.max(stream.highest, chunk.chunkIndex);
+    this.touch(stream);
+    stream.onProgress?.(stream.received / header.totalChunks);
+    stream.onChunk?.(chunk.chunkIndex);
+
+    // A played song also answers when the sender reaches a chunk it has: from there on the
+    // sender waits to hear where to go on
+    const following = chunk.chunkIndex + 1;
+    const rangeDone = stream.wanted !== null && (following === header.totalChunks || !!stream.chunks[following]);
+    if (stream.received === header.totalChunks) {
+      await this.complete(stream, header);
+    } else if (gap || rangeDone || stream.received % ACK_EVERY === 0) {
+      this.sendAck(stream);
+    }
+  }
+
+  private async complete(stream: IncomingStream, header: TransferSongHeader): Promise<void> {
+    const audio = new Blob(stream.chunks as ArrayBuffer[], { type: header.mimeType });
+    const ok = (await hashAudio(audio)) === header.sha256;
+    p2pService.sendTo(stream.peerId, {
+      type: 'transfer-song-done',
+      payload: { transferId: stream.id, songIndex: header.songIndex, ok },
+    });
+    if (!ok) {
+      // The sender starts the song over
+      console.warn('[PeerStream] ❌ Checksum mismatch for', header.title, '- asking again');
+      stream.chunks = new Array(header.totalChunks);
+      stream.received = 0;
+      stream.highest = -1;
+      return;
+    }
+    this.finish(stream);
+    stream.resolve({ header, audio });
+  }
+
+  private sendAck(stream: IncomingStream): void {
+    if (stream.wanted !== null) {
+      this.sendRangeAck(stream, stream.wanted);
+      return;
+    }
+    const header = stream.header!;
+    let next = 0;
+    while (stream.chunks[next]) next++;
+    const missing: number[] = [];
+    for (let index = next + 1; index < stream.highest && missing.length < MAX_MISSING_REPORTED; index++) {
+      if (!stream.chunks[index]) missing.push(index);
+    }
+    p2pService.sendTo(stream.peerId, {
+      type: 'transfer-ack',
+      payload: { transferId: stream.id, songIndex: header.songIndex, next, missing },
+    });
+  }
+
+  // Asks for the first missing chunk from `wanted` on, or from the start once everything
+  // after it arrived, up to the next chunk already here. Chunks lost on the way are sent
+  // again when the sender times out (see peerShare.ts).
+  private sendRangeAck(stream: IncomingStream, wanted: number): void {
+    const header = stream.header!;
+    const total = header.totalChunks;
+    let next = Math.min(wanted, total);
+    while (next < total && stream.chunks[next]) next++;
+    if (next === total) {
+      next = 0;
+      while (next < total && stream.chunks[next]) next++;
+    }
+    if (next === total) return;
+    let end = next + 1;
+    while (end < total && !stream.chunks[end]) end++;
+    p2pService.sendTo(stream.peerId, {
+      type: 'transfer-ack',
+      payload: { transferId: stream.id, songIndex: header.songIndex, next, missing: [], end },
+    });
+  }
+
+  private touch(stream: IncomingStream): void {
+    if (stream.timer) clearTimeout(stream.timer);
+    stream.timer = setTimeout(() => {
+      p2pService.sendTo(stream.peerId, { type: 'transfer-cancel', payload: { transferId: stream.id } });
+      this.fail(stream.peerId, stream.id, 'O outro dispositivo parou de enviar a música.');
+    }, stream.header ? STALL_TIMEOUT_MS : ANSWER_TIMEOUT_MS);
+  }
+
+  private fail(peerId: string, transferId: string, message: string): void {
+    const stream = this.streamFrom(peerId, transferId);
+    if (!stream) return;
+    this.finish(stream);
+    stream.reject(new Error(message));
+  }
+
+  private finish(stream: IncomingStream): void {
+    if (stream.timer) clearTimeout(stream.timer);
+    this.streams.delete(stream.id);
+  }
+
+  // Only the peer a song was asked from may send it
+  private streamFrom(peerId: string, transferId: string): IncomingStream | undefined {
+    const stream = this.streams.get(transferId);
+    return stream?.peerId === peerId ? stream : undefined;
+  }
+}
+
+export const peerStreamService = new PeerStreamService();
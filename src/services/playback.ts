@@ -1,27 +1,177 @@
-import { type Ref } from 'vue'
-import type { Song } from './db'
+import { ref, type Ref } from 'vue'
+import { AudioEngine } from './audioEngine'
+import { dbService, type PlaylistSong, type Song } from './db'
+import { EqualizerService } from './equalizer'
+import { albumLoudness, normalizationGain, REFERENCE_LOUDNESS, type NormalizationMode } from './loudness'
+
+// 'off' stops at the end of the queue
+export type RepeatMode = 'all' | 'one' | 'off'
+
+export interface QueueItem {
+  queueId: number
+  song: Song
+  entryId?: number
+  playlistId?: number
+  contextIndex?: number // position inside the playlist the queue was started from
+  manual: boolean // added through "play next" or "add to queue"
+  // Audio of a song that is not in the library, e.g. a listen-together track streamed from
+  // another device. Such items are never saved with the queue.
+  audio?: Blob
+}
+
+// What changed, for whoever follows the playback (see listenTogether.ts)
+export type PlaybackEvent = 'track' | 'play' | 'pause' | 'seek' | 'queue'
+
+// Everything needed to pick up where the user left off after a reload or a discarded tab
+interface SavedPlaybackState {
+  items: Array<Omit<QueueItem, 'queueId' | 'song'> & { songId: number }>
+  currentIndex: number
+  currentSongId: number | null
+  position: number
+  volume: number
+  crossfade?: number
+  normalization?: NormalizationMode
+  activePlaylistId: number | null
+  repeatMode: RepeatMode
+  shuffle: boolean
+}
+
+const STATE_SETTING_KEY = 'playbackState'
+// timeupdate fires several times per second; the position only needs to be roughly right
+const POSITION_SAVE_INTERVAL = 5000
+// timeupdate fires every ~250ms, so the switch to the next track is scheduled with a timer
+// once the end is this close
+const TRANSITION_LOOKAHEAD = 1
+// The engine joins the tracks on the audio clock; the timer only has to hand the switch
+// over before that moment, whatever its jitter
+const SWITCH_LEAD = 0.2
+// Without Web Audio play() is all there is, so the next track starts a hair early to hide
+// its latency
+const START_LEAD = 0.02
+export const MAX_CROSSFADE = 12
+
+// Embedded covers are stored as data URLs, so read the MIME type from the prefix
+function artworkType(img: string): string {
+  const match = img?.match(/^data:([^;]+);/)
+  return match ? match[1] : 'image/png'
+}
+
+function shuffleInPlace<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[items[i], items[j]] = [items[j], items[i]]
+  }
+  return items
+}
 
 export class PlaybackService {
-  private audioPlayer: HTMLAudioElement | null = null
+  private engine = new AudioEngine()
   private isPlaying: Ref<boolean>
   private currentSongIndex: Ref<number>
-  private activeSongs: Ref<Song[]>
+  private loadToken = 0
+  private preloadToken = 0
+  private transitionTimer: ReturnType<typeof setTimeout> | null = null
+  private nextQueueId = 1
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  private lastPositionSave = 0
+  private restoring = false
+  private disposed = false
+  // Album gain derived from our own measurements, per "album|artist"
+  private albumGains = new Map<string, { gain?: number; peak?: number }>()
+  private listeners = new Set<(event: PlaybackEvent) => void>()
+  private readonly handlePageHide = () => this.writeState()
+  private readonly handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') this.writeState()
+  }
+
+  // currentSongIndex points into this queue
+  public readonly queue = ref<QueueItem[]>([])
+  public readonly repeatMode = ref<RepeatMode>('all')
+  public readonly shuffle = ref(false)
+  // Playlist the queue was started from, so the view can reopen it
+  public readonly activePlaylistId = ref<number | null>(null)
+  public readonly volume = ref(1)
+  // Seconds of overlap between tracks; 0 plays them back to back without a gap
+  public readonly crossfade = ref(0)
+  public readonly normalization = ref<NormalizationMode>('track')
+  public readonly analyser = this.engine.analyser
+  public readonly equalizer = new EqualizerService((settings) => this.engine.setEqualizer(settings))
 
-  constructor(isPlaying: Ref<boolean>, currentSongIndex: Ref<number>, activeSongs: Ref<Song[]>) {
+  constructor(isPlaying: Ref<boolean>, currentSongIndex: Ref<number>) {
     this.isPlaying = isPlaying
     this.currentSongIndex = currentSongIndex
-    this.activeSongs = activeSongs
   }
 
-  initialize(): HTMLAudioElement {
-    this.audioPlayer = new Audio()
-    this.audioPlayer.addEventListener('ended', () => this.nextTrack())
-    this.audioPlayer.addEventListener('play', () => {
-      this.isPlaying.value = true
-    })
-    this.audioPlayer.addEventListener('pause', () => {
-      this.isPlaying.value = false
-    })
+  get currentItem(): QueueItem | null {
+    return this.queue.value[this.currentSongIndex.value] ?? null
+  }
+
+  get upNext(): QueueItem[] {
+    return this.queue.value.slice(this.currentSongIndex.value + 1)
+  }
+
+  // Seconds into the current track; 0 until it is loaded
+  get position(): number {
+    const current = this.currentItem
+    return current && current.queueId === this.engine.currentQueueId
+      ? this.engine.current.currentTime || 0
+      : 0
+  }
+
+  get playing(): boolean {
+    return this.isPlaying.value
+  }
+
+  get duration(): number {
+    return this.engine.current.duration || 0
+  }
+
+  // Returns an unsubscribe function
+  onChange(listener: (event: PlaybackEvent) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  initialize() {
+    // Both decks report events, but only the one currently playing drives the player state
+    for (const element of this.engine.elements) {
+      const whenCurrent = (handler: () => void) => () => {
+        if (element === this.engine.current) handler()
+      }
+      element.addEventListener('ended', whenCurrent(() => this.handleEnded()))
+      element.addEventListener(
+        'play',
+        whenCurrent(() => {
+          this.isPlaying.value = true
+          this.emit('play')
+        }),
+      )
+      element.addEventListener(
+        'pause',
+        whenCurrent(() => {
+          this.isPlaying.value = false
+          this.cancelTransition()
+          this.saveState()
+          this.emit('pause')
+        }),
+      )
+      element.addEventListener(
+        'timeupdate',
+        whenCurrent(() => {
+          if (Date.now() - this.lastPositionSave > POSITION_SAVE_INTERVAL) this.writeState()
+          this.scheduleTransition()
+        }),
+      )
+      element.addEventListener('seeking', whenCurrent(() => this.cancelTransition()))
+      element.addEventListener('seeked', whenCurrent(() => this.emit('seek')))
+    }
+    this.equalizer
+      .load()
+      .catch((e) => console.warn('[Playback] Failed to load equalizer settings:', e))
+
+    // Mobile browsers may discard a hidden tab without any further event
+    window.addEventListener('pagehide', this.handlePageHide)
+    document.addEventListener('visibilitychange', this.handleVisibilityChange)
 
     // Media Session API integration
     if ('mediaSession' in navigator) {
@@ -30,76 +180,574 @@ export class PlaybackService {
       navigator.mediaSession.setActionHandler('nexttrack', () => this.nextTrack())
       navigator.mediaSession.setActionHandler('previoustrack', () => this.prevTrack())
     }
+  }
+
+  // Replaces the queue with a playlist (or any list of library songs, such as search results
+  // or a smart playlist) and starts playing at `index`
+  playContext(songs: Array<Song | PlaylistSong>, index: number) {
+    const items = songs.map((song, contextIndex) =>
+      'entryId' in song
+        ? this.createItem(song, { entryId: song.entryId, playlistId: song.playlistId, contextIndex })
+        : this.createItem(song, { contextIndex }),
+    )
+    if (index < 0 || index >= items.length) return
+    const selected = songs[index]
+    this.activePlaylistId.value = 'playlistId' in selected ? selected.playlistId : null
 
-    return this.audioPlayer
+    if (this.shuffle.value) {
+      const [selected] = items.splice(index, 1)
+      this.queue.value = [selected, ...shuffleInPlace(items)]
+      this.playSong(0)
+    } else {
+      this.queue.value = items
+      this.playSong(index)
+    }
   }
 
-  playSong(index: number) {
-    if (index < 0 || index >= this.activeSongs.value.length) return
+  async playSong(index: number) {
+    if (index < 0 || index >= this.queue.value.length) return
+    this.engine.unlock()
     this.currentSongIndex.value = index
+    this.saveState()
+    await this.loadItem(this.queue.value[index], true)
+  }
 
-    const song = this.activeSongs.value[index]
-    if (!song || !song.data) return
+  // Brings back the saved queue, volume and track, loaded but paused at the saved position.
+  // Returns the playlist that was active so the view can open it.
+  async restoreState(): Promise<number | null> {
+    const saved = await dbService.getSetting<SavedPlaybackState>(STATE_SETTING_KEY)
+    if (!saved) return null
 
-    if (this.audioPlayer) {
-      this.audioPlayer.src = song.data // Directly use the base64 data URL
-      this.audioPlayer.play()
-    }
+    this.restoring = true
+    try {
+      this.repeatMode.value = saved.repeatMode ?? 'all'
+      this.shuffle.value = !!saved.shuffle
+      if (typeof saved.volume === 'number') this.setVolume(saved.volume)
+      if (typeof saved.crossfade === 'number') this.setCrossfade(saved.crossfade)
+      if (saved.normalization) this.normalization.value = saved.normalization
 
-    // Update Media Session API
-    if ('mediaSession' in navigator) {
-      navigator.mediaSession.metadata = new MediaMetadata({
-        title: song.title,
-        artist: song.artist,
-        album: '',
-        artwork: [{ src: song.img || 'musica.png', sizes: '512x512', type: 'image/png' }],
+      const songs = await dbService.getSongs(saved.items.map((i) => i.songId))
+      const byId = new Map(songs.map((song) => [song.id!, song]))
+      const items: QueueItem[] = []
+      let currentIndex = -1
+      saved.items.forEach((entry, index) => {
+        const song = byId.get(entry.songId)
+        if (!song) return // deleted since the state was saved
+        if (index === saved.currentIndex) currentIndex = items.length
+        items.push(this.createItem(song, entry))
       })
+
+      // Something may have started playing while the saved state was loading
+      if (this.queue.value.length > 0) return this.activePlaylistId.value
+      this.queue.value = items
+      this.currentSongIndex.value = currentIndex
+      this.activePlaylistId.value = saved.activePlaylistId ?? null
+
+      const item = this.currentItem
+      if (item && item.song.id === saved.currentSongId) {
+        await this.loadItem(item, false, saved.position || 0)
+      }
+      return this.activePlaylistId.value
+    } finally {
+      this.restoring = false
     }
   }
 
+  // Plays a single track that another device decides on, starting `startAt` seconds in.
+  // It replaces the queue and stops at its end instead of repeating. Returns its queue id.
+  playShared(song: Song, audio: Blob | undefined, startAt: number, autoplay: boolean): number {
+    const item = this.createItem(song, { manual: true, audio })
+    this.queue.value = [item]
+    this.activePlaylistId.value = null
+    this.currentSongIndex.value = 0
+    this.saveState()
+    this.loadItem(item, autoplay, startAt)
+    return item.queueId
+  }
+
+  // Entry points that will start playing later, outside the user's click, call this inside it
+  unlock() {
+    this.engine.unlock()
+  }
+
+  resume() {
+    this.engine.play().catch((e) => console.warn('[Playback] Failed to resume:', e))
+  }
+
+  pause() {
+    this.engine.pause()
+  }
+
+  seek(seconds: number) {
+    const player = this.engine.current
+    player.currentTime = Math.max(0, Math.min(seconds, player.duration || seconds))
+  }
+
+  // Slightly faster or slower playback, to catch up with another device without a jump
+  setPlaybackRate(rate: number) {
+    this.engine.current.playbackRate = rate
+  }
+
   togglePlayPause() {
-    if (!this.audioPlayer) return
     if (this.isPlaying.value) {
-      this.audioPlayer.pause()
-    } else {
-      if (this.currentSongIndex.value > -1) {
-        this.audioPlayer.play()
-      } else if (this.activeSongs.value.length > 0) {
-        this.playSong(0)
-      }
+      this.engine.pause()
+      return
+    }
+    this.engine.unlock()
+    const item = this.currentItem
+    if (item && item.queueId === this.engine.currentQueueId) {
+      this.engine.play().catch((e) => console.warn('[Playback] Failed to resume:', e))
+    } else if (item) {
+      // The queue was restored or edited but this track was never loaded
+      this.playSong(this.currentSongIndex.value)
+    } else if (this.queue.value.length > 0) {
+      this.playSong(0)
     }
   }
 
   nextTrack() {
-    const nextIndex = this.currentSongIndex.value + 1
-    if (nextIndex < this.activeSongs.value.length) {
-      this.playSong(nextIndex)
-    } else {
-      if (this.activeSongs.value.length > 0) {
-        this.playSong(0)
-      } else {
-        this.stop()
-      }
-    }
+    this.advance()
   }
 
   prevTrack() {
+    const player = this.engine.current
+    // Like most players: restart the track unless it just started
+    if (player.currentTime > 3) {
+      player.currentTime = 0
+      return
+    }
     const prevIndex = this.currentSongIndex.value - 1
     if (prevIndex >= 0) {
       this.playSong(prevIndex)
+    } else if (this.repeatMode.value === 'all' && this.queue.value.length > 0) {
+      this.playSong(this.queue.value.length - 1)
+    } else {
+      player.currentTime = 0
+    }
+  }
+
+  setVolume(volume: number) {
+    this.volume.value = Math.min(1, Math.max(0, volume))
+    this.engine.setVolume(this.volume.value)
+    this.saveState()
+  }
+
+  setCrossfade(seconds: number) {
+    this.crossfade.value = Math.min(MAX_CROSSFADE, Math.max(0, seconds))
+    this.cancelTransition()
+    this.saveState()
+  }
+
+  async setNormalization(mode: NormalizationMode) {
+    this.normalization.value = mode
+    this.albumGains.clear() // albums may have grown since they were measured
+    this.saveState()
+    // Re-level what is already loaded: the current track and the preloaded one
+    for (const item of [this.currentItem, this.peekNext()]) {
+      if (!item) continue
+      this.engine.setTrackGain(item.queueId, await this.gainFor(item.song))
     }
   }
 
+  // --- Queue editing ---
+
+  // Inserts right after the current track
+  playNext(song: Song | PlaylistSong) {
+    const item = this.createItem(song, { manual: true })
+    this.queue.value.splice(this.currentSongIndex.value + 1, 0, item)
+    this.queueChanged()
+  }
+
+  // Appends after the tracks already added by hand, before the rest of the playlist.
+  // `audio` is for songs that are not in the library.
+  addToQueue(song: Song | PlaylistSong, audio?: Blob) {
+    const item = this.createItem(song, { manual: true, audio })
+    let at = this.currentSongIndex.value + 1
+    while (at < this.queue.value.length && this.queue.value[at].manual) at++
+    this.queue.value.splice(at, 0, item)
+    this.queueChanged()
+  }
+
+  moveQueueItem(from: number, to: number) {
+    const queue = this.queue.value
+    if (from === to || from < 0 || from >= queue.length || to < 0 || to >= queue.length) return
+    const currentId = this.currentItem?.queueId
+    const [item] = queue.splice(from, 1)
+    queue.splice(to, 0, item)
+    this.currentSongIndex.value = queue.findIndex((i) => i.queueId === currentId)
+    this.queueChanged()
+  }
+
+  removeQueueItem(index: number) {
+    const queue = this.queue.value
+    if (index < 0 || index >= queue.length || index === this.currentSongIndex.value) return
+    queue.splice(index, 1)
+    if (index < this.currentSongIndex.value) this.currentSongIndex.value--
+    this.queueChanged()
+  }
+
+  clearUpNext() {
+    this.queue.value.splice(this.currentSongIndex.value + 1)
+    this.queueChanged()
+  }
+
+  // --- Modes ---
+
+  setShuffle(enabled: boolean) {
+    if (this.shuffle.value === enabled) return
+    this.shuffle.value = enabled
+
+    const current = this.currentSongIndex.value
+    const upcoming = this.queue.value.slice(current + 1)
+    // Tracks queued by hand keep their place at the front
+    let manualCount = 0
+    while (manualCount < upcoming.length && upcoming[manualCount].manual) manualCount++
+    const manual = upcoming.slice(0, manualCount)
+    const rest = upcoming.slice(manualCount)
+
+    if (enabled) {
+      shuffleInPlace(rest)
+    } else {
+      rest.sort((a, b) => (a.contextIndex ?? Infinity) - (b.contextIndex ?? Infinity))
+    }
+    this.queue.value = [...this.queue.value.slice(0, current + 1), ...manual, ...rest]
+    this.queueChanged()
+  }
+
+  cycleRepeatMode() {
+    const order: RepeatMode[] = ['all', 'one', 'off']
+    this.repeatMode.value = order[(order.indexOf(this.repeatMode.value) + 1) % order.length]
+    this.engine.current.loop = this.repeatMode.value === 'one'
+    this.queueChanged()
+  }
+
   stop() {
-    if (!this.audioPlayer) return
-    this.audioPlayer.pause()
-    this.audioPlayer.src = ''
+    this.cancelTransition()
+    ++this.loadToken
+    this.engine.stop()
     this.isPlaying.value = false
     this.currentSongIndex.value = -1
+    this.saveState()
+  }
+
+  // Empties the queue, e.g. when the library it points to was replaced
+  clearQueue() {
+    this.stop()
+    this.queue.value = []
+    this.activePlaylistId.value = null
   }
 
   cleanup() {
-    // No longer need to revoke Object URLs, so this can be empty
-    // or we can just remove the call to it.
+    // Save before pausing so the position and track survive leaving the view
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.writeState()
+    this.disposed = true
+    this.cancelTransition()
+    window.removeEventListener('pagehide', this.handlePageHide)
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+    this.engine.dispose()
+  }
+
+  private async loadItem(item: QueueItem, autoplay: boolean, startAt = 0) {
+    const song = item.song
+    if (!song || (!song.id && !item.audio)) return
+
+    // Audio is fetched on demand; ignore the result if another track was picked meanwhile
+    const token = ++this.loadToken
+    this.cancelTransition()
+    const [audio, gain] = await Promise.all([
+      item.audio ?? dbService.getSongAudio(song.id!),
+      this.gainFor(song),
+    ])
+    if (token !== this.loadToken) return
+    if (!audio) {
+      console.error('[Playback] Audio not found for song', song.id)
+      return
+    }
+
+    this.engine.load(audio, item.queueId, gain)
+    const player = this.engine.current
+    if (startAt > 0) {
+      // The position can only be set once the browser knows the duration
+      player.addEventListener(
+        'loadedmetadata',
+        () => {
+          player.currentTime = Math.min(startAt, player.duration || startAt)
+        },
+        { once: true },
+      )
+    }
+    if (autoplay) {
+      this.engine.play().catch((e) => console.warn('[Playback] Failed to play:', e))
+      this.countPlay(item)
+    }
+    this.trackStarted(item)
+  }
+
+  // Runs whenever a track becomes the current one, loaded from scratch or preloaded
+  private trackStarted(item: QueueItem) {
+    this.engine.current.loop = this.repeatMode.value === 'one'
+    // Tracks queued by hand use the profile of the playlist being played
+    this.equalizer.useProfileFor(item.playlistId ?? this.activePlaylistId.value)
+
+    // Update Media Session API
+    if ('mediaSession' in navigator) {
+      const song = item.song
+      navigator.mediaSession.metadata = new MediaMetadata({
+        title: song.title,
+        artist: song.artist,
+        album: song.album || '',
+        artwork: [{ src: song.img || 'musica.png', sizes: '512x512', type: artworkType(song.img) }],
+      })
+    }
+
+    this.prepareNext()
+    this.emit('track')
+  }
+
+  private queueChanged() {
+    this.saveState()
+    this.prepareNext()
+    this.emit('queue')
+  }
+
+  private emit(event: PlaybackEvent) {
+    this.listeners.forEach((listener) => listener(event))
+  }
+
+  private handleEnded() {
+    // Normally the next track has already started by now; this covers tracks that ended
+    // before a switch could be scheduled
+    if (this.repeatMode.value === 'one') {
+      this.engine.current.currentTime = 0
+      this.engine.play().catch(() => {})
+      return
+    }
+    this.advance()
+  }
+
+  // The track advance() would move to, without touching the queue. Returns null when it
+  // cannot be known in advance (a new shuffled round) or when the current track loops.
+  private peekNext(): QueueItem | null {
+    const queue = this.queue.value
+    const index = this.currentSongIndex.value
+    const current = queue[index]
+    if (!current || this.repeatMode.value === 'one') return null
+    if (index + 1 < queue.length) return queue[index + 1]
+    if (this.repeatMode.value !== 'all' || this.shuffle.value) return null
+    // A manual track leaves the queue when it ends, so it cannot start the next round
+    if (index === 0 && current.manual) return null
+    return queue[0]
+  }
+
+  // Keeps the idle deck loaded with whatever will play next
+  private async prepareNext() {
+    const next = this.peekNext()
+    if (!next || (!next.song.id && !next.audio)) {
+      this.cancelTransition()
+      this.engine.clearPreload()
+      return
+    }
+    if (next.queueId === this.engine.preloadedQueueId) return
+
+    this.cancelTransition()
+    const token = ++this.preloadToken
+    const [audio, gain] = await Promise.all([
+      next.audio ?? dbService.getSongAudio(next.song.id!),
+      this.gainFor(next.song),
+    ])
+    if (token !== this.preloadToken || !audio || this.disposed) return
+    if (this.peekNext()?.queueId !== next.queueId) return
+    this.engine.preload(audio, next.queueId, gain)
+  }
+
+  // Linear normalization gain for a song under the current setting
+  private async gainFor(song: Song): Promise<number> {
+    const mode = this.normalization.value
+    if (mode === 'album' && song.album && song.replayGain?.albumGain === undefined) {
+      return normalizationGain(song, mode, await this.albumGainFor(song.album, song.artist))
+    }
+    return normalizationGain(song, mode)
+  }
+
+  private async albumGainFor(album: string, artist: string) {
+    const key = `${album}|${artist}`
+    let info = this.albumGains.get(key)
+    if (!info) {
+      try {
+        const songs = await dbService.getAlbumSongs(album, artist)
+        // Songs known only through their tags count with the loudness their gain implies
+        const loudness = albumLoudness(
+          songs.map((s) => ({
+            duration: s.duration,
+            loudness:
+              s.loudness ??
+              (s.replayGain?.trackGain !== undefined
+                ? REFERENCE_LOUDNESS - s.replayGain.trackGain
+                : undefined),
+          })),
+        )
+        const peaks = songs.map((s) => s.replayGain?.trackPeak ?? s.peak ?? 0)
+        info = {
+          gain: loudness !== undefined ? REFERENCE_LOUDNESS - loudness : undefined,
+          peak: peaks.length > 0 ? Math.max(...peaks) || undefined : undefined,
+        }
+      } catch (e) {
+        console.warn('[Playback] Failed to compute album gain:', e)
+        info = {}
+      }
+      this.albumGains.set(key, info)
+    }
+    return info
+  }
+
+  // Called on timeupdate: once the end of the track is near, works out the audio clock time
+  // at which it ends (or `crossfade` seconds earlier), where the preloaded track starts
+  private scheduleTransition() {
+    if (this.transitionTimer || !this.isPlaying.value) return
+    const next = this.peekNext()
+    if (!next || next.queueId !== this.engine.preloadedQueueId) return
+
+    const player = this.engine.current
+    const remaining = player.duration - player.currentTime
+    if (!Number.isFinite(remaining)) return
+    const fade = this.engine.supportsCrossfade
+      ? Math.min(this.crossfade.value, player.duration / 2)
+      : 0
+    const delay = remaining / player.playbackRate - fade
+    if (delay > TRANSITION_LOOKAHEAD) return
+
+    const at = this.engine.clockIn(delay)
+    const lead = at === null ? START_LEAD : SWITCH_LEAD
+    this.transitionTimer = setTimeout(
+      () => {
+        this.transitionTimer = null
+        this.advance(fade, at)
+      },
+      Math.max(0, delay - lead) * 1000,
+    )
+  }
+
+  private cancelTransition() {
+    if (this.transitionTimer) {
+      clearTimeout(this.transitionTimer)
+      this.transitionTimer = null
+    }
+  }
+
+  // `fade` and `at` only apply when the next track is preloaded (see switchToPreloaded)
+  private advance(fade = 0, at: number | null = null) {
+    const queue = this.queue.value
+    if (queue.length === 0) {
+      this.stop()
+      return
+    }
+
+    let index = this.currentSongIndex.value
+    // Tracks added by hand play once and then leave the queue
+    if (index > -1 && queue[index]?.manual) {
+      queue.splice(index, 1)
+      index--
+      this.currentSongIndex.value = index
+    }
+
+    const nextIndex = index + 1
+    if (nextIndex < queue.length) {
+      this.startItem(nextIndex, fade, at)
+    } else if (this.repeatMode.value === 'off' || queue.length === 0) {
+      this.stop()
+    } else {
+      if (this.shuffle.value) {
+        // New round: every track plays once more, without starting on the one that just ended
+        const last = queue[queue.length - 1]
+        const round = shuffleInPlace(queue.slice())
+        if (round.length > 1 && round[0].queueId === last?.queueId) {
+          ;[round[0], round[round.length - 1]] = [round[round.length - 1], round[0]]
+        }
+        this.queue.value = round
+      }
+      this.startItem(0, fade, at)
+    }
+  }
+
+  private startItem(index: number, fade: number, at: number | null) {
+    const item = this.queue.value[index]
+    if (!item || item.queueId !== this.engine.preloadedQueueId) {
+      this.playSong(index)
+      return
+    }
+    // Already buffered in the idle deck: switch without reloading
+    ++this.loadToken
+    this.cancelTransition()
+    this.currentSongIndex.value = index
+    this.engine.switchToPreloaded(fade, at)
+    this.saveState()
+    this.countPlay(item)
+    this.trackStarted(item)
+  }
+
+  // Counted whenever a track starts playing; a restored track loaded paused is not
+  private countPlay(item: QueueItem) {
+    const song = item.song
+    if (!song.id) return
+    song.playCount = (song.playCount ?? 0) + 1
+    song.lastPlayedAt = Date.now()
+    dbService.recordPlay(song.id).catch((e) => console.warn('[Playback] Failed to record play:', e))
+  }
+
+  private createItem(song: Song, extra: Partial<Omit<QueueItem, 'queueId' | 'song'>>): QueueItem {
+    const { entryId, playlistId, contextIndex, audio } = extra
+    return {
+      queueId: this.nextQueueId++,
+      song,
+      entryId,
+      playlistId,
+      contextIndex,
+      manual: extra.manual ?? false,
+      audio,
+    }
+  }
+
+  // --- Persistence ---
+
+  private saveState() {
+    if (this.restoring || this.disposed) return
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = setTimeout(() => this.writeState(), 300)
+  }
+
+  private writeState() {
+    if (this.restoring || this.disposed) return
+    this.saveTimer = null
+    this.lastPositionSave = Date.now()
+    const current = this.currentItem
+    // Only the loaded track has a meaningful position
+    const position =
+      current && current.queueId === this.engine.currentQueueId
+        ? this.engine.current.currentTime || 0
+        : 0
+    // Songs outside the library cannot be brought back
+    const items = this.queue.value.filter((item) => item.song.id !== undefined)
+    const saved: SavedPlaybackState = {
+      items: items.map(({ song, entryId, playlistId, contextIndex, manual }) => ({
+        songId: song.id!,
+        entryId,
+        playlistId,
+        contextIndex,
+        manual,
+      })),
+      currentIndex: current ? items.indexOf(current) : -1,
+      currentSongId: current?.song.id ?? null,
+      position,
+      volume: this.volume.value,
+      crossfade: this.crossfade.value,
+      normalization: this.normalization.value,
+      activePlaylistId: this.activePlaylistId.value,
+      repeatMode: this.repeatMode.value,
+      shuffle: this.shuffle.value,
+    }
+    dbService
+      .setSetting(STATE_SETTING_KEY, saved)
+      .catch((e) => console.warn('[Playback] Failed to save playback state:', e))
   }
 }
@@ -1,10 +1,16 @@
-import { dbService, type Playlist, type Song } from './db'
+import {
+  dbService,
+  type AddSongResult,
+  type NewSong,
+  type Playlist,
+  type PlaylistSharing,
+  type PlaylistSong,
+} from './db'
 
 export interface PlaylistWithSongs extends Playlist {
-  songs: Song[]
-  offset: number
+  songs: PlaylistSong[]
   allSongsLoaded: boolean
-  isLoadingMore: boolean
+  isLoading: boolean
 }
 
 export class PlaylistService {
@@ -39,10 +45,10 @@ export class PlaylistService {
   playlistId: number,
   limit?: number,
   offset?: number,
-): Promise<Song[]> {
+): Promise<PlaylistSong[]> {
   try {
     let songs = await dbService.getSongsByPlaylist(playlistId, limit, offset)
-    return songs.filter((s) => s && s.id && s.title && s.data)
+    return songs.filter((s) => s && s.id && s.title)
   } catch (error) {
     console.error(`Error loading songs for playlist ${playlistId}:`, error)
     return []
@@ -53,11 +59,15 @@ export class PlaylistService {
     return await dbService.getSongCountForPlaylist(playlistId);
   }
 
-  async getSongByIndex(playlistId: number, index: number): Promise<Song | null> {
+  async getSongByIndex(playlistId: number, index: number): Promise<PlaylistSong | null> {
     const songs = await dbService.getSongsByPlaylist(playlistId, 1, index);
     return songs[0] || null;
   }
 
+  async getSongAudio(songId: number): Promise<Blob | undefined> {
+    return await dbService.getSongAudio(songId);
+  }
+
   async addPlaylist(name: string): Promise<number> {
     if (name.trim()) {
       return await dbService.addPlaylist(name.trim());
@@ -86,8 +96,30 @@ export class PlaylistService {
     }
   }
 
-  async addSong(song: Omit<Song, 'id'>): Promise<void> {
-    await dbService.addSong(song)
+  async updatePlaylistSharing(playlistId: number, sharing: PlaylistSharing): Promise<void> {
+    await dbService.setPlaylistSharing(playlistId, sharing)
+  }
+
+  async addSong(song: NewSong): Promise<AddSongResult> {
+    return await dbService.addSong(song)
+  }
+
+  async addSongToPlaylist(songId: number, playlistId: number): Promise<boolean> {
+    const { created } = await dbService.addSongToPlaylist(songId, playlistId)
+    return created
+  }
+
+  // Removes the song from this playlist only
+  async removeFromPlaylist(entryId: number): Promise<void> {
+    await dbService.removeEntry(entryId)
+  }
+
+  async moveSong(entryId: number, toIndex: number): Promise<void> {
+    await dbService.moveEntry(entryId, toIndex)
+  }
+
+  async moveSongToPlaylist(entryId: number, targetPlaylistId: number): Promise<void> {
+    await dbService.moveEntryToPlaylist(entryId, targetPlaylistId)
   }
 
   async deleteSong(songId: number): Promise<void> {
@@ -108,9 +140,8 @@ export class PlaylistService {
       result.push({
         ...playlist,
         songs,
-        offset: 0,
         allSongsLoaded: true,
-        isLoadingMore: false
+        isLoading: false
       });
     }
     
@@ -125,15 +156,18 @@ export class PlaylistService {
     return {
       ...playlist,
       songs,
-      offset: 0,
       allSongsLoaded: true,
-      isLoadingMore: false
+      isLoading: false
     };
   }
 
-  async createPlaylistWithSongs(name: string, songs: Song[]): Promise<number> {
+  // Songs can also come from an async generator, so imports read one file at a time
+  async createPlaylistWithSongs(
+    name: string,
+    songs: Iterable<Omit<NewSong, 'playlistId'>> | AsyncIterable<Omit<NewSong, 'playlistId'>>,
+  ): Promise<number> {
     const playlistId = await this.addPlaylist(name);
-    for (const song of songs) {
+    for await (const song of songs) {
       await this.addSong({
         ...song,
         playlistId
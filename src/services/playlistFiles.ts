@@ -0,0 +1,385 @@
+import { dbService, type Song } from './db'
+import { audioExtension, isAudioFile, readSongFile } from './importer'
+import { PlaylistService } from './playlist'
+import { safeFileName } from './text'
+import { DownloadSink, ZipReader, ZipWriter, downloadBlob } from './zip'
+
+export type PlaylistFormat = 'm3u8' | 'pls' | 'xspf'
+
+export interface PlaylistFileEntry {
+  location: string
+  title?: string
+  artist?: string
+  duration?: number // seconds
+}
+
+export interface ParsedPlaylist {
+  name?: string
+  entries: PlaylistFileEntry[]
+}
+
+export interface PlaylistImportResult {
+  playlistId: number
+  name: string
+  added: number
+  // Entries whose audio was not among the imported files, as written in the playlist
+  missing: string[]
+}
+
+// An audio file that playlist entries can point to: a picked file or an entry of a ZIP
+interface AudioSource {
+  path: string // relative path, '/'-separated
+  open(): Promise<File>
+}
+
+const FORMAT_EXTENSIONS: Record<string, PlaylistFormat> = {
+  m3u: 'm3u8',
+  m3u8: 'm3u8',
+  pls: 'pls',
+  xspf: 'xspf',
+}
+
+const FORMAT_MIME_TYPES: Record<PlaylistFormat, string> = {
+  m3u8: 'audio/x-mpegurl',
+  pls: 'audio/x-scpls',
+  xspf: 'application/xspf+xml',
+}
+
+export function playlistFormatOf(fileName: string): PlaylistFormat | null {
+  return FORMAT_EXTENSIONS[fileName.split('.').pop()?.toLowerCase() ?? ''] ?? null
+}
+
+// Old .m3u and .pls files are usually Windows-1252, newer ones UTF-8
+function decodeText(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '')
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+// "Artist - Title" as written after #EXTINF and in PLS titles
+function splitDisplayTitle(text: string): { title?: string; artist?: string } {
+  const separator = text.indexOf(' - ')
+  if (separator === -1) return { title: text.trim() || undefined }
+  return {
+    artist: text.slice(0, separator).trim() || undefined,
+    title: text.slice(separator + 3).trim() || undefined,
+  }
+}
+
+function parseM3u(text: string): ParsedPlaylist {
+  const result: ParsedPlaylist = { entries: [] }
+  let pending: Omit<PlaylistFileEntry, 'location'> = {}
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line) continue
+    if (line.startsWith('#PLAYLIST:')) {
+      result.name = line.slice(10).trim()
+    } else if (line.startsWith('#EXTINF:')) {
+      const info = line.slice(8)
+      const comma = info.indexOf(',')
+      const duration = parseFloat(comma === -1 ? info : info.slice(0, comma))
+      pending = {
+        ...(comma === -1 ? {} : splitDisplayTitle(info.slice(comma + 1))),
+        duration: duration > 0 ? duration : undefined,
+      }
+    } else if (!line.startsWith('#')) {
+      result.entries.push({ location: line, ...pending })
+      pending = {}
+    }
+  }
+  return result
+}
+
+function parsePls(text: string): ParsedPlaylist {
+  const byIndex = new Map<number, Partial<PlaylistFileEntry>>()
+  for (const raw of text.split(/\r?\n/)) {
+    const match = raw.trim().match(/^(File|Title|Length)(\d+)=(.*)$/i)
+    if (!match) continue
+    const index = Number(match[2])
+    const entry = byIndex.get(index) ?? {}
+    const key = match[1].toLowerCase()
+    if (key === 'file') entry.location = match[3].trim()
+    if (key === 'title') Object.assign(entry, splitDisplayTitle(match[3]))
+    if (key === 'length' && Number(match[3]) > 0) entry.duration = Number(match[3])
+    byIndex.set(index, entry)
+  }
+  const entries = [...byIndex.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, entry]) => entry)
+    .filter((entry): entry is PlaylistFileEntry => !!entry.location)
+  return { entries }
+}
+
+function parseXspf(text: string): ParsedPlaylist {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('O arquivo XSPF não é um XML válido.')
+  }
+  const childText = (parent: Element, tag: string) =>
+    Array.from(parent.children).find((child) => child.localName === tag)?.textContent?.trim() ||
+    undefined
+
+  const playlist = doc.documentElement
+  const entries: PlaylistFileEntry[] = []
+  for (const track of Array.from(doc.getElementsByTagNameNS('*', 'track'))) {
+    const location = childText(track, 'location')
+    if (!location) continue
+    const duration = Number(childText(track, 'duration'))
+    entries.push({
+      location,
+      title: childText(track, 'title'),
+      artist: childText(track, 'creator'),
+      duration: duration > 0 ? duration / 1000 : undefined,
+    })
+  }
+  return { name: childText(playlist, 'title'), entries }
+}
+
+export function parsePlaylist(text: string, format: PlaylistFormat): ParsedPlaylist {
+  if (format === 'pls') return parsePls(text)
+  if (format === 'xspf') return parseXspf(text)
+  return parseM3u(text)
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, (c) => `&#${c.charCodeAt(0)};`)
+}
+
+export function writePlaylist(
+  name: string,
+  tracks: Array<{ song: Song; location: string }>,
+  format: PlaylistFormat,
+): string {
+  const duration = (song: Song) => Math.round(song.duration ?? -1)
+
+  if (format === 'pls') {
+    const lines = ['[playlist]']
+    tracks.forEach(({ song, location }, i) => {
+      lines.push(`File${i + 1}=${location}`)
+      lines.push(`Title${i + 1}=${song.artist} - ${song.title}`)
+      lines.push(`Length${i + 1}=${duration(song)}`)
+    })
+    lines.push(`NumberOfEntries=${tracks.length}`, 'Version=2')
+    return lines.join('\r\n') + '\r\n'
+  }
+
+  if (format === 'xspf') {
+    const items = tracks.map(({ song, location }) => {
+      const fields = [
+        // XSPF locations are URIs
+        `<location>${escapeXml(location.split('/').map(encodeURIComponent).join('/'))}</location>`,
+        `<title>${escapeXml(song.title)}</title>`,
+        `<creator>${escapeXml(song.artist)}</creator>`,
+        song.album ? `<album>${escapeXml(song.album)}</album>` : '',
+        song.duration ? `<duration>${Math.round(song.duration * 1000)}</duration>` : '',
+      ]
+      return `    <track>${fields.join('')}</track>`
+    })
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+      `  <title>${escapeXml(name)}</title>`,
+      '  <trackList>',
+      ...items,
+      '  </trackList>',
+      '</playlist>',
+      '',
+    ].join('\n')
+  }
+
+  const lines = ['#EXTM3U', `#PLAYLIST:${name}`]
+  for (const { song, location } of tracks) {
+    lines.push(`#EXTINF:${duration(song)},${song.artist} - ${song.title}`, location)
+  }
+  return lines.join('\n') + '\n'
+}
+
+// Lower-case '/'-separated path of a playlist location, or null for remote URLs
+function normalizeLocation(location: string, encoded: boolean): string | null {
+  let path = location.trim()
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path) && !/^file:/i.test(path)) return null
+  if (/^file:/i.test(path) || encoded) {
+    try {
+      path = decodeURIComponent(path.replace(/^file:\/*/i, ''))
+    } catch {
+      path = path.replace(/^file:\/*/i, '')
+    }
+  }
+  return path.replace(/\\/g, '/').replace(/^\.\//, '').toLowerCase()
+}
+
+function joinPath(dir: string, relative: string): string {
+  const parts = dir ? dir.split('/') : []
+  for (const part of relative.split('/')) {
+    if (part === '..') parts.pop()
+    else if (part && part !== '.') parts.push(part)
+  }
+  return parts.join('/')
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+export class PlaylistFileService {
+  private playlistService = new PlaylistService()
+
+  // Downloads a playlist file, or a ZIP with the playlist next to its audio files. Songs
+  // whose audio is missing are left out of a ZIP's playlist and their titles returned.
+  async exportPlaylist(
+    playlistId: number,
+    format: PlaylistFormat,
+    bundled: boolean,
+  ): Promise<string[]> {
+    const playlist = await dbService.getPlaylist(playlistId)
+    if (!playlist) throw new Error('Playlist não encontrada.')
+    const songs = await this.playlistService.getSongsForPlaylist(playlistId)
+    const digits = String(songs.length).length
+    const tracks = songs.map((song, i) => ({
+      song,
+      location: `${String(i + 1).padStart(Math.max(2, digits), '0')} - ${safeFileName(
+        `${song.artist} - ${song.title}`,
+      )}.${audioExtension(song.mimeType)}`,
+    }))
+    const fileName = `${safeFileName(playlist.name)}.${format}`
+
+    if (!bundled) {
+      const text = writePlaylist(playlist.name, tracks, format)
+      downloadBlob(new Blob([text], { type: FORMAT_MIME_TYPES[format] }), fileName)
+      return []
+    }
+
+    const sink = new DownloadSink()
+    const zip = new ZipWriter(sink)
+    const included: typeof tracks = []
+    const missing: string[] = []
+    for (const track of tracks) {
+      const audio = await dbService.getSongAudio(track.song.id)
+      if (audio) {
+        await zip.add(track.location, audio)
+        included.push(track)
+      } else {
+        missing.push(`${track.song.artist} - ${track.song.title}`)
+      }
+    }
+    // Written last, so it only lists the files that made it into the ZIP
+    const text = writePlaylist(playlist.name, included, format)
+    await zip.add(fileName, new Blob([text], { type: FORMAT_MIME_TYPES[format] }))
+    await zip.finish()
+    sink.save(`${safeFileName(playlist.name)}.zip`)
+    return missing
+  }
+
+  // Imports a playlist file picked together with the audio it references (loose files or a
+  // folder), or a ZIP bundle as written by exportPlaylist. Creates a new playlist in the
+  // order of the file; entries without audio are reported in `missing`.
+  async importFiles(
+    files: File[],
+    onProgress?: (done: number, total: number) => void,
+  ): Promise<PlaylistImportResult> {
+    const archive = files.find((f) => f.name.toLowerCase().endsWith('.zip'))
+    const sources: AudioSource[] = []
+    let playlistFile: { path: string; text: string } | null = null
+
+    if (archive) {
+      const zip = new ZipReader(archive)
+      await zip.open()
+      const path = zip.names().find((name) => playlistFormatOf(name))
+      if (path) playlistFile = { path, text: decodeText(await (await zip.read(path)).arrayBuffer()) }
+      sources.push(...this.zipSources(zip))
+    } else {
+      const file = files.find((f) => playlistFormatOf(f.name))
+      if (file) {
+        playlistFile = {
+          path: file.webkitRelativePath || file.name,
+          text: decodeText(await file.arrayBuffer()),
+        }
+      }
+      for (const file of files) {
+        if (isAudioFile(file)) {
+          sources.push({ path: file.webkitRelativePath || file.name, open: async () => file })
+        }
+      }
+    }
+    if (!playlistFile) throw new Error('Nenhum arquivo M3U, M3U8, PLS ou XSPF foi selecionado.')
+
+    const format = playlistFormatOf(playlistFile.path)!
+    const parsed = parsePlaylist(playlistFile.text, format)
+    const fileBase = baseName(playlistFile.path)
+    const name = parsed.name || fileBase.slice(0, fileBase.lastIndexOf('.')) || 'Playlist importada'
+
+    // Locations are relative to the playlist file; absolute paths from another computer
+    // still match when the file name does
+    const directory = playlistFile.path.includes('/')
+      ? playlistFile.path.slice(0, playlistFile.path.lastIndexOf('/')).toLowerCase()
+      : ''
+    const byPath = new Map(sources.map((s) => [s.path.toLowerCase(), s]))
+    const byName = new Map<string, AudioSource>()
+    for (const source of sources) {
+      const key = baseName(source.path.toLowerCase())
+      if (!byName.has(key)) byName.set(key, source)
+    }
+
+    const missing: string[] = []
+    const matched: Array<{ entry: PlaylistFileEntry; source: AudioSource }> = []
+    for (const entry of parsed.entries) {
+      const path = normalizeLocation(entry.location, format === 'xspf')
+      const source =
+        path !== null
+          ? (byPath.get(joinPath(directory, path)) ?? byPath.get(path) ?? byName.get(baseName(path)))
+          : undefined
+      if (source) matched.push({ entry, source })
+      else missing.push(entry.location)
+    }
+    if (matched.length === 0) {
+      throw new Error(
+        parsed.entries.length === 0
+          ? 'A playlist está vazia.'
+          : 'Nenhum arquivo de áudio da playlist foi encontrado. Selecione também as músicas.',
+      )
+    }
+
+    let added = 0
+    async function* songs() {
+      for (const [index, { entry, source }] of matched.entries()) {
+        onProgress?.(index, matched.length)
+        let song
+        try {
+          song = await readSongFile(await source.open(), {
+            title: entry.title,
+            artist: entry.artist,
+          })
+        } catch (error) {
+          // Unreadable audio counts as missing, the rest of the playlist still comes in
+          console.error('[PlaylistFiles] Failed to read', source.path, error)
+          missing.push(entry.location)
+          continue
+        }
+        added++
+        yield song
+      }
+      onProgress?.(matched.length, matched.length)
+    }
+
+    const playlistId = await this.playlistService.createPlaylistWithSongs(name, songs())
+    return { playlistId, name, added, missing }
+  }
+
+  private zipSources(zip: ZipReader): AudioSource[] {
+    return zip
+      .names()
+      .filter((name) => !name.endsWith('/') && !playlistFormatOf(name))
+      .map((name) => ({
+        path: name,
+        open: async () => {
+          const file = new File([await zip.read(name)], baseName(name))
+          // Entries carry no MIME type; let the extension decide, like a folder import
+          return isAudioFile(file) ? file : Promise.reject(new Error('Não é um arquivo de áudio.'))
+        },
+      }))
+  }
+}
+
+export const playlistFileService = new PlaylistFileService()
@@ -0,0 +1,324 @@
+import { fingerprint, identityService } from './identity';
+import { base64ToBytes, bytesToBase64 } from './p2pProtocol';
+import type { RelayedData } from './signaling';
+
+// End-to-end encryption for messages relayed through the signaling transport (Ably or the
+// self-hosted server), used when two peers have no data channel. The relay only sees key
+// exchanges and ciphertext.
+//
+// Each pair of peers agrees on an AES-GCM key through ECDH, with fresh ECDH keys for every
+// session. Key offers are signed with the device identity key (see identity.ts), so a
+// relay swapping keys cannot pass as a device the peer already knows; it can only show up
+// as an unknown one. Every sealed message carries a sequence number in its authenticated
+// data, so it cannot be altered, sent to another peer or replayed.
+
+// Ask again for a key that has not arrived, and give up on queued messages after a while
+const OFFER_RETRY_MS = 5000;
+const KEY_TIMEOUT_MS = 20000;
+
+const ECDH_ALGORITHM: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+// Plaintext tag: JSON messages and binary frames are sealed alike
+const CONTENT_JSON = 0;
+const CONTENT_FRAME = 1;
+
+export interface RelayKeyOffer {
+  publicKey: string; // base64 raw ECDH public key
+  // Set when answering an offer, so the exchange stops there. An offer that is not a reply
+  // starts a new session.
+  reply: boolean;
+  deviceId?: string;
+  identityKey?: string; // base64 SPKI, see identity.ts
+  signature?: string;
+}
+
+export interface SealedMessage {
+  iv: string;
+  seq: number;
+  data: string; // base64 ciphertext
+}
+
+export type RelayedContent = { json: string } | { frame: Uint8Array };
+
+interface RelaySession {
+  keyPair: Promise<CryptoKeyPair>;
+  remoteKey: string | null;
+  key: CryptoKey | null;
+  // Device the peer proved to be by signing its offer
+  deviceId?: string;
+  ready: Promise<void>;
+  resolveReady: () => void;
+  sent: number;
+  received: number;
+  lastOffer: number;
+  // Sealing and opening run in order per peer
+  outgoing: Promise<void>;
+  incoming: Promise<unknown>;
+}
+
+export const canEncryptRelay = (): boolean => !!globalThis.crypto?.subtle;
+
+function offerMessage(publicKey: string, from: string, to: string): string {
+  return `online-player-relay-key|${publicKey}|${from}|${to}`;
+}
+
+function isOffer(value: any): value is RelayKeyOffer {
+  return (
+    typeof value?.publicKey === 'string' &&
+    typeof value.reply === 'boolean' &&
+    ['deviceId', 'identityKey', 'signature'].every((field) => value[field] === undefined || typeof value[field] === 'string')
+  );
+}
+
+function isSealed(value: any): value is SealedMessage {
+  return typeof value?.iv === 'string' && typeof value.data === 'string' && Number.isInteger(value.seq) && value.seq > 0;
+}
+
+export class RelayEncryption {
+  private sessions = new Map<string, RelaySession>();
+
+  // `expectedDevice` names the device a peer proved to be over its data channel, if any;
+  // an offer signed by another device is refused
+  constructor(
+    private localId: string,
+    private send: (to: string, data: RelayedData) => void,
+    private expectedDevice: (peerId: string) => string | undefined,
+  ) {}
+
+  // Encrypts and relays, once the peer's key is known
+  seal(peerId: string, content: RelayedContent): void {
+    if (!canEncryptRelay()) {
+      console.warn('[Relay] WebCrypto is unavailable (page not served over https?), not relaying to', peerId);
+      return;
+    }
+    const session = this.session(peerId);
+    session.outgoing = session.outgoing
+      .then(async () => {
+        const key = await this.keyFor(peerId, session);
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const seq = ++session.sent;
+        const ciphertext = await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv, additionalData: this.associatedData(this.localId, peerId, seq) },
+          key,
+          encodeContent(content),
+        );
+        this.send(peerId, {
+          sealed: { iv: bytesToBase64(iv), seq, data: bytesToBase64(new Uint8Array(ciphertext)) },
+        });
+      })
+      .catch((error) => console.warn('[Relay] Dropping message to', peerId, '-', error?.message ?? error));
+  }
+
+  // Handles relayed data from a peer. Resolves with the decrypted content, or null for key
+  // exchanges and anything that fails to decrypt or verify.
+  receive(peerId: string, data: unknown): Promise<RelayedContent | null> {
+    if (!canEncryptRelay()) return Promise.resolve(null);
+    const session = this.session(peerId);
+    const run = session.incoming.then(async () => {
+      const { key: offer, sealed } = (data ?? {}) as { key?: unknown; sealed?: unknown };
+      if (isOffer(offer)) {
+        await this.acceptOffer(peerId, session, offer);
+        return null;
+      }
+      if (isSealed(sealed)) return this.open(peerId, session, sealed);
+      console.warn('[Relay] Dropping unencrypted or malformed relayed data from', peerId);
+      return null;
+    });
+    session.incoming = run.catch(() => null);
+    return run.catch((error) => {
+      console.warn('[Relay] Could not handle relayed data from', peerId, error);
+      return null;
+    });
+  }
+
+  // Device the peer proved to be through its key offer
+  deviceOf(peerId: string): string | undefined {
+    return this.sessions.get(peerId)?.deviceId;
+  }
+
+  forget(peerId: string): void {
+    this.sessions.delete(peerId);
+  }
+
+  reset(): void {
+    this.sessions.clear();
+  }
+
+  private session(peerId: string): RelaySession {
+    let session = this.sessions.get(peerId);
+    if (!session) {
+      session = {
+        keyPair: createKeyPair(),
+        remoteKey: null,
+        key: null,
+        ready: Promise.resolve(),
+        resolveReady: () => {},
+        sent: 0,
+        received: 0,
+        lastOffer: 0,
+        outgoing: Promise.resolve(),
+        incoming: Promise.resolve(),
+      };
+      this.startOver(session);
+      this.sessions.set(peerId, session);
+    }
+    return session;
+  }
+
+  // Forgets the agreed key; messages wait for a new one
+  private startOver(session: RelaySession): void {
+    session.keyPair = createKeyPair();
+    session.remoteKey = null;
+    session.key = null;
+    session.deviceId = undefined;
+    session.sent = 0;
+    session.received = 0;
+    session.ready = new Promise<void>((resolve) => (session.resolveReady = resolve));
+  }
+
+  private async keyFor(peerId: string, session: RelaySession): Promise<CryptoKey> {
+    const started = Date.now();
+    while (!session.key) {
+      if (Date.now() - started >= KEY_TIMEOUT_MS) throw new Error('no key agreed with the peer');
+      if (Date.now() - session.lastOffer >= OFFER_RETRY_MS) await this.sendOffer(peerId, session, false);
+      await Promise.race([session.ready, new Promise((resolve) => setTimeout(resolve, OFFER_RETRY_MS))]);
+    }
+    return session.key;
+  }
+
+  private async sendOffer(peerId: string, session: RelaySession, reply: boolean): Promise<void> {
+    session.lastOffer = Date.now();
+    const publicKey = bytesToBase64(
+      new Uint8Array(await crypto.subtle.exportKey('raw', (await session.keyPair).publicKey)),
+    );
+    const identity = await identityService.load();
+    const offer: RelayKeyOffer = { publicKey, reply, deviceId: identity.deviceId };
+    const signature = identity.publicKey && (await identityService.sign(offerMessage(publicKey, this.localId, peerId)));
+    if (identity.publicKey && signature) {
+      offer.identityKey = identity.publicKey;
+      offer.signature = signature;
+    }
+    this.send(peerId, { key: offer });
+  }
+
+  private async acceptOffer(peerId: string, session: RelaySession, offer: RelayKeyOffer): Promise<void> {
+    const deviceId = await this.verifyOffer(peerId, offer);
+    if (deviceId === null) {
+      console.warn('[Relay] ❌ Refusing a key offer from', peerId, 'that does not match its identity');
+      return;
+    }
+    if (offer.publicKey !== session.remoteKey) {
+      if (session.key) {
+        // A reply for a session we did not start: stale, or replayed by the relay
+        if (offer.reply) return;
+        // The peer started over (it reconnected); so do we, with new keys
+        session.keyPair = createKeyPair();
+      }
+      const remoteKey = base64ToBytes(offer.publicKey);
+      if (!remoteKey) return;
+      const publicKey = await crypto.subtle.importKey('raw', remoteKey, ECDH_ALGORITHM, false, []);
+      const { privateKey } = await session.keyPair;
+      const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+      const material = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveKey']);
+      const [first, second] = [this.localId, peerId].sort();
+      session.key = await crypto.subtle.deriveKey(
+        {
+          name: 'HKDF',
+          hash: 'SHA-256',
+          salt: new Uint8Array(0),
+          info: new TextEncoder().encode(`online-player-relay|${first}|${second}`),
+        },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+      );
+      // A new key restarts both sequences
+      session.remoteKey = offer.publicKey;
+      session.deviceId = deviceId;
+      session.sent = 0;
+      session.received = 0;
+      console.log('[Relay] 🔐 Agreed on a relay key with', peerId, deviceId ? `(device ${deviceId})` : '(unproven device)');
+    }
+    session.resolveReady();
+    if (!offer.reply) await this.sendOffer(peerId, session, true);
+  }
+
+  // The proven device id, undefined for an unsigned offer, or null for one that is forged
+  // or contradicts what the data channel proved
+  private async verifyOffer(peerId: string, offer: RelayKeyOffer): Promise<string | undefined | null> {
+    const expected = this.expectedDevice(peerId);
+    if (!offer.identityKey || !offer.signature || !offer.deviceId) return expected ? null : undefined;
+    const valid =
+      (await fingerprint(offer.identityKey)) === offer.deviceId &&
+      (await identityService.verify(offer.identityKey, offerMessage(offer.publicKey, peerId, this.localId), offer.signature));
+    if (!valid || (expected && expected !== offer.deviceId)) return null;
+    return offer.deviceId;
+  }
+
+  private async open(peerId: string, session: RelaySession, sealed: SealedMessage): Promise<RelayedContent | null> {
+    if (!session.key) {
+      // We lost the key (the peer kept one from before we reset): agree on a new one
+      if (Date.now() - session.lastOffer >= OFFER_RETRY_MS) await this.sendOffer(peerId, session, false);
+      return null;
+    }
+    if (sealed.seq <= session.received) {
+      console.warn('[Relay] Dropping replayed or reordered message', sealed.seq, 'from', peerId);
+      return null;
+    }
+    const iv = base64ToBytes(sealed.iv);
+    const ciphertext = base64ToBytes(sealed.data);
+    if (!iv || !ciphertext) return null;
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: this.associatedData(peerId, this.localId, sealed.seq) },
+        session.key,
+        ciphertext,
+      );
+    } catch {
+      console.warn('[Relay] ❌ Message from', peerId, 'failed authentication');
+      // Tampered with, or the two sides no longer share a key (a stale offer made one of
+      // them change it): agree on a new one
+      if (Date.now() - session.lastOffer >= OFFER_RETRY_MS) {
+        this.startOver(session);
+        await this.sendOffer(peerId, session, false);
+      }
+      return null;
+    }
+    session.received = sealed.seq;
+    return decodeContent(new Uint8Array(plaintext));
+  }
+
+  private associatedData(from: string, to: string, seq: number): Uint8Array<ArrayBuffer> {
+    return new TextEncoder().encode(`${from}>${to}#${seq}`);
+  }
+}
+
+function createKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(ECDH_ALGORITHM, false, ['deriveBits']) as Promise<CryptoKeyPair>;
+}
+
+function encodeContent(content: RelayedContent): Uint8Array<ArrayBuffer> {
+  const body = 'json' in content ? new TextEncoder().encode(content.json) : content.frame;
+  const bytes = new Uint8Array(1 + body.byteLength);
+  bytes[0] = 'json' in content ? CONTENT_JSON : CONTENT_FRAME;
+  bytes.set(body, 1);
+  return bytes;
+}
+
+function decodeContent(bytes: Uint8Array): RelayedContent | null {
+  const body = bytes.subarray(1);
+  switch (bytes[0]) {
+    case CONTENT_JSON:
+      try {
+        return { json: new TextDecoder('utf-8', { fatal: true }).decode(body) };
+      } catch {
+        return null;
+      }
+    case CONTENT_FRAME:
+      return { frame: body };
+    default:
+      return null;
+  }
+}
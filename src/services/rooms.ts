@@ -0,0 +1,59 @@
+import { dbService } from './db';
+
+// Devices only see each other inside the same room. A room is a short code shared by
+// whoever created it; the public room is the old everyone-sees-everyone channel and is
+// only joined when picked on purpose.
+
+export const PUBLIC_ROOM = 'PUBLICO';
+
+// No 0/O, 1/I/L: codes are read aloud and typed on phones
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+const CODE_PATTERN = new RegExp(`^[${CODE_ALPHABET}]{${CODE_LENGTH}}$`);
+const SETTINGS_KEY = 'p2p-room';
+// Query parameter of invite links
+export const ROOM_LINK_PARAM = 'sala';
+
+export function generateRoomCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(CODE_LENGTH));
+  return Array.from(values, (value) => CODE_ALPHABET[value % CODE_ALPHABET.length]).join('');
+}
+
+// Accepts a code as typed ("abc-234", " ABC 234 ") or a whole invite link. Returns null
+// if it is neither.
+export function parseRoomCode(input: string): string | null {
+  const text = input.trim();
+  let candidate = text;
+  if (/^https?:\/\//i.test(text)) {
+    try {
+      candidate = new URL(text).searchParams.get(ROOM_LINK_PARAM) ?? '';
+    } catch {
+      return null;
+    }
+  }
+  const code = candidate.toUpperCase().replace(/[\s-]/g, '');
+  if (code === PUBLIC_ROOM) return PUBLIC_ROOM;
+  return CODE_PATTERN.test(code) ? code : null;
+}
+
+// "ABC234" → "ABC-234", easier to read out
+export function formatRoomCode(code: string): string {
+  if (code === PUBLIC_ROOM) return 'Sala pública';
+  return `${code.slice(0, 3)}-${code.slice(3)}`;
+}
+
+export function roomLink(code: string): string {
+  const url = new URL(`${import.meta.env.BASE_URL}mapa`, window.location.origin);
+  url.searchParams.set(ROOM_LINK_PARAM, code);
+  return url.href;
+}
+
+// null: not in any room, so nothing is joined
+export async function loadRoom(): Promise<string | null> {
+  const saved = await dbService.getSetting<string | null>(SETTINGS_KEY);
+  return typeof saved === 'string' ? parseRoomCode(saved) : null;
+}
+
+export async function saveRoom(code: string | null): Promise<void> {
+  await dbService.setSetting(SETTINGS_KEY, code);
+}
@@ -0,0 +1,176 @@
+import { ref } from 'vue';
+import { dbService, type PlaylistSharing } from './db';
+import { p2pService } from './p2p';
+import type { DenialReason } from './p2pProtocol';
+
+// Decides what other devices may do with this device's library. Each playlist has its own
+// sharing level (see PlaylistSharing in db.ts); downloads also need the owner's approval,
+// given once or for good per device; blocked devices get nothing at all.
+
+const PERMISSIONS_KEY = 'p2p-device-permissions';
+// An unanswered prompt counts as declined, so the requester is not left waiting forever
+const APPROVAL_TIMEOUT_MS = 60000;
+
+export type DevicePermission = 'allowed' | 'blocked';
+
+export interface DeviceRule {
+  deviceId: string;
+  permission: DevicePermission;
+  // How the device was shown when the rule was made
+  label: string;
+  updatedAt: number;
+}
+
+export type ApprovalDecision = 'allow' | 'always' | 'deny' | 'block';
+
+export interface ApprovalRequest {
+  id: number;
+  peerId: string;
+  label: string;
+  // False for peers that did not prove their device id: then "always" and "block" only
+  // last until they disconnect
+  persistent: boolean;
+  playlistName: string;
+  songCount: number;
+  // Set when a single song is asked for
+  songTitle?: string;
+  // The song is to be played as it arrives; the asker may still keep it afterwards
+  streaming?: boolean;
+}
+
+export type ApprovalDetails = Pick<ApprovalRequest, 'playlistName' | 'songCount' | 'songTitle' | 'streaming'>;
+
+interface PendingApproval {
+  peerId: string;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Text shown to the requester
+export function describeDenial(reason: string): string {
+  switch (reason as DenialReason) {
+    case 'blocked':
+      return 'Este dispositivo foi bloqueado pelo dono.';
+    case 'private':
+      return 'Esta playlist é privada.';
+    case 'not-downloadable':
+      return 'O dono desta playlist não permite downloads.';
+    case 'declined':
+      return 'O dono recusou o pedido.';
+    case 'not-paired':
+      return 'A sincronização não está ativada para este dispositivo no outro lado.';
+    default:
+      return 'O pedido foi recusado.';
+  }
+}
+
+class SharingPolicyService {
+  public readonly rules = ref<DeviceRule[]>([]);
+  // Download requests waiting for the owner, oldest first (see SharingPrompt.vue)
+  public readonly approvals = ref<ApprovalRequest[]>([]);
+  private loaded: Promise<void> | null = null;
+  // Decisions about peers without a device id. Peer ids change every session, so these
+  // never outlive it.
+  private sessionRules = new Map<string, DevicePermission>();
+  private pending = new Map<number, PendingApproval>();
+  private nextApprovalId = 1;
+
+  load(): Promise<void> {
+    this.loaded ??= dbService.getSetting<DeviceRule[]>(PERMISSIONS_KEY).then((saved) => {
+      this.rules.value = Array.isArray(saved) ? saved : [];
+    });
+    return this.loaded;
+  }
+
+  async permissionOf(peerId: string): Promise<DevicePermission | null> {
+    await this.load();
+    const deviceId = p2pService.getDeviceId(peerId);
+    if (!deviceId) return this.sessionRules.get(peerId) ?? null;
+    return this.rules.value.find((rule) => rule.deviceId === deviceId)?.permission ?? null;
+  }
+
+  // Why the peer may not see ('view') or download ('download') the playlist, or null if
+  // it may. Downloads may still need approval: see requestApproval.
+  async check(peerId: string, playlistId: number, action: 'view' | 'download'): Promise<DenialReason | null> {
+    if ((await this.permissionOf(peerId)) === 'blocked') return 'blocked';
+    const sharing = await this.sharingOf(playlistId);
+    if (sharing === 'private') return 'private';
+    if (action === 'download' && sharing !== 'downloadable') return 'not-downloadable';
+    return null;
+  }
+
+  // Missing playlists are private: nothing tells the peer whether an id exists
+  async sharingOf(playlistId: number): Promise<PlaylistSharing> {
+    const playlist = await dbService.getPlaylist(playlistId);
+    return playlist?.sharing ?? 'private';
+  }
+
+  // Asks the owner whether the peer may download. Resolves with the answer, or 'deny' once
+  // the prompt times out.
+  requestApproval(peerId: string, details: ApprovalDetails): Promise<ApprovalDecision> {
+    const request: ApprovalRequest = {
+      id: this.nextApprovalId++,
+      peerId,
+      label: p2pService.getPeerName(peerId),
+      persistent: !!p2pService.getDeviceId(peerId),
+      ...details,
+    };
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.settle(request.id, 'deny'), APPROVAL_TIMEOUT_MS);
+      this.pending.set(request.id, { peerId, resolve, timer });
+      this.approvals.value.push(request);
+    });
+  }
+
+  // The owner's answer. "Always" and "block" are remembered for the device and also
+  // settle its other waiting requests.
+  async answer(approvalId: number, decision: ApprovalDecision): Promise<void> {
+    const pending = this.pending.get(approvalId);
+    if (!pending) return;
+    if (decision === 'always' || decision === 'block') {
+      await this.remember(pending.peerId, decision === 'always' ? 'allowed' : 'blocked');
+      this.pending.forEach((other, id) => {
+        if (other.peerId === pending.peerId) this.settle(id, decision);
+      });
+    }
+    this.settle(approvalId, decision);
+  }
+
+  // The peer left: nobody is waiting for these answers anymore
+  dismissApprovals(peerId: string): void {
+    this.pending.forEach((pending, id) => {
+      if (pending.peerId === peerId) this.settle(id, 'deny');
+    });
+  }
+
+  // null removes the rule, so the device is asked again
+  async setPermission(deviceId: string, permission: DevicePermission | null, label?: string): Promise<void> {
+    await this.load();
+    const existing = this.rules.value.find((rule) => rule.deviceId === deviceId);
+    const others = this.rules.value.filter((rule) => rule.deviceId !== deviceId);
+    this.rules.value = permission
+      ? [...others, { deviceId, permission, label: label ?? existing?.label ?? deviceId, updatedAt: Date.now() }]
+      : others;
+    await dbService.setSetting(PERMISSIONS_KEY, this.rules.value.map((rule) => ({ ...rule })));
+  }
+
+  private async remember(peerId: string, permission: DevicePermission): Promise<void> {
+    const deviceId = p2pService.getDeviceId(peerId);
+    if (deviceId) {
+      await this.setPermission(deviceId, permission, p2pService.getPeerName(peerId));
+    } else {
+      this.sessionRules.set(peerId, permission);
+    }
+  }
+
+  private settle(approvalId: number, decision: ApprovalDecision): void {
+    const pending = this.pending.get(approvalId);
+    if (!pending) return;
+    this.pending.delete(approvalId);
+    clearTimeout(pending.timer);
+    this.approvals.value = this.approvals.value.filter((request) => request.id !== approvalId);
+    pending.resolve(decision);
+  }
+}
+
+export const sharingPolicy = new SharingPolicyService();
@@ -0,0 +1,95 @@
+import { dbService } from './db';
+import type { RelayKeyOffer, SealedMessage } from './relayEncryption';
+
+// How peers find each other and exchange WebRTC offers, answers and ICE candidates.
+// Some transports can also relay messages when no data channel could be opened.
+
+export type SignalingKind = 'ably' | 'websocket' | 'manual';
+
+export interface SignalingSettings {
+  kind: SignalingKind;
+  // Address of the self-hosted server, for 'websocket'
+  url?: string;
+}
+
+// Messages relayed through the signaling transport. The relay is a third party, so all it
+// carries is a key exchange or an encrypted message (see relayEncryption.ts).
+export type RelayedData = { key: RelayKeyOffer } | { sealed: SealedMessage };
+
+export interface SignalingEvents {
+  // Another device is reachable. `initiator` forces which side sends the WebRTC offer;
+  // otherwise the caller decides.
+  peer(peerId: string, initiator?: boolean): void;
+  leave(peerId: string): void;
+  signal(from: string, signal: unknown): void;
+  // Unchecked: it comes from the network
+  data(from: string, data: unknown): void;
+}
+
+export interface SignalingTransport {
+  readonly kind: SignalingKind;
+  // Whether ICE candidates can be sent one by one as they are found. Manual pairing can
+  // only carry a single offer and a single answer, so it waits for all of them.
+  readonly trickle: boolean;
+  // Whether send() reaches anyone
+  readonly relays: boolean;
+  // Whether it knows who is in the room. Without presence (manual pairing) every peer
+  // was introduced by hand, so every offer is accepted.
+  readonly presence: boolean;
+  // Joins `room` (see rooms.ts); only its members are announced and reachable
+  connect(localId: string, room: string, events: SignalingEvents): Promise<void>;
+  disconnect(): Promise<void>;
+  // Ids of the devices currently present, for transports that track presence
+  members(): Promise<string[]>;
+  signal(to: string, signal: unknown): void;
+  send(to: string, data: RelayedData): void;
+}
+
+const ABLY_API_KEY = import.meta.env.VITE_ABLY_API_KEY;
+const SIGNALING_ENV = import.meta.env.VITE_SIGNALING;
+const SIGNALING_URL_ENV = import.meta.env.VITE_SIGNALING_URL;
+const SETTINGS_KEY = 'p2p-signaling';
+
+export const isAblyConfigured = (): boolean => !!ABLY_API_KEY;
+
+// Defaults come from the build: an explicit VITE_SIGNALING, else the local server when
+// its address is set, else Ably when it has a key, else manual pairing
+export function defaultSignalingSettings(): SignalingSettings {
+  if (SIGNALING_ENV === 'ably' || SIGNALING_ENV === 'websocket' || SIGNALING_ENV === 'manual') {
+    return { kind: SIGNALING_ENV, url: SIGNALING_URL_ENV };
+  }
+  if (SIGNALING_URL_ENV) return { kind: 'websocket', url: SIGNALING_URL_ENV };
+  if (ABLY_API_KEY) return { kind: 'ably' };
+  return { kind: 'manual' };
+}
+
+export async function loadSignalingSettings(): Promise<SignalingSettings> {
+  const saved = await dbService.getSetting<SignalingSettings>(SETTINGS_KEY);
+  return saved?.kind ? saved : defaultSignalingSettings();
+}
+
+export async function saveSignalingSettings(settings: SignalingSettings): Promise<void> {
+  await dbService.setSetting(SETTINGS_KEY, { ...settings });
+}
+
+// Implementations are loaded on demand, so a build that never uses Ably does not ship it
+export async function createSignaling(settings: SignalingSettings): Promise<SignalingTransport> {
+  switch (settings.kind) {
+    case 'ably': {
+      if (!ABLY_API_KEY) {
+        throw new Error('Chave da API do Ably não configurada. Configure VITE_ABLY_API_KEY no arquivo .env');
+      }
+      const { AblySignaling } = await import('./ablySignaling');
+      return new AblySignaling(ABLY_API_KEY);
+    }
+    case 'websocket': {
+      if (!settings.url) throw new Error('Informe o endereço do servidor de sinalização.');
+      const { WebSocketSignaling } = await import('./wsSignaling');
+      return new WebSocketSignaling(settings.url);
+    }
+    case 'manual': {
+      const { manualSignaling } = await import('./manualSignaling');
+      return manualSignaling;
+    }
+  }
+}
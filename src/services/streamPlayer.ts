@@ -0,0 +1,249 @@
+import { ref, shallowRef } from 'vue';
+import { TRANSFER_CHUNK_SIZE, type P2PMessage, type TransferSongHeader } from './p2pProtocol';
+import { peerStreamService, type SongStream, type StreamedSong } from './peerStream';
+
+// Audio handed to the MediaSource ahead of the playhead, and kept behind it. Everything
+// that arrived stays in memory anyway, for seeking back and for keeping the song.
+const FEED_AHEAD_SECONDS = 60;
+const KEEP_BEHIND_SECONDS = 30;
+// Less than this behind the playhead is not worth a remove()
+const MIN_TRIM_SECONDS = 10;
+
+export type StreamPlayerStatus = 'connecting' | 'buffering' | 'playing' | 'paused' | 'failed';
+
+// Plays a song from another device while it arrives. Formats a MediaSource takes as a
+// plain byte stream (MP3 and AAC in most browsers) start after the first chunks, and a
+// seek asks the sender for the part of the file at that time. Anything else plays once
+// the whole song is here. Times are mapped to bytes as if the bitrate were constant, so
+// in a VBR file a seek lands near the time asked for rather than on it.
+export class StreamPlayer {
+  public readonly header = shallowRef<TransferSongHeader | null>(null);
+  public readonly status = ref<StreamPlayerStatus>('connecting');
+  public readonly error = ref<string | null>(null);
+  public readonly position = ref(0);
+  public readonly duration = ref(0);
+  // Fraction of the song received so far
+  public readonly received = ref(0);
+  public readonly complete = ref(false);
+  // Seeking needs either the whole song or a MediaSource to ask for the part at that time
+  public readonly seekable = ref(false);
+  // Resolves with the whole song once it arrived and its SHA-256 matched
+  public readonly done: Promise<StreamedSong>;
+
+  private readonly audio = new Audio();
+  private readonly stream: SongStream;
+  private mediaSource: MediaSource | null = null;
+  private sourceBuffer: SourceBuffer | null = null;
+  private objectUrl: string | null = null;
+  // Chunks in the source buffer, as far as we know: a remove() or a VBR file can make it
+  // wrong, and a stall where audio should be starts over from the playhead (see recover)
+  private appended = new Set<number>();
+  private lastAppended = -1;
+  private disposed = false;
+
+  constructor(peerId: string, request: (transferId: string) => P2PMessage) {
+    this.stream = peerStreamService.open(peerId, request);
+    this.stream.onHeader = (header) => this.begin(header);
+    this.stream.onChunk = () => {
+      const total = this.stream.header?.totalChunks ?? 0;
+      this.received.value = total ? this.stream.received / total : 0;
+      this.feed();
+    };
+    this.done = this.stream.done;
+    this.done.then(
+      (song) => {
+        this.received.value = 1;
+        this.complete.value = true;
+        this.seekable.value = true;
+        if (!this.sourceBuffer && !this.disposed) this.playWhole(song);
+      },
+      (error: Error) => {
+        if (this.disposed) return;
+        this.error.value = error.message;
+        this.status.value = 'failed';
+      },
+    );
+
+    this.audio.addEventListener('timeupdate', () => {
+      this.position.value = this.audio.currentTime;
+      this.feed();
+    });
+    this.audio.addEventListener('durationchange', () => {
+      if (Number.isFinite(this.audio.duration)) this.duration.value = this.audio.duration;
+    });
+    this.audio.addEventListener('playing', () => (this.status.value = 'playing'));
+    this.audio.addEventListener('pause', () => {
+      if (this.status.value !== 'failed') this.status.value = 'paused';
+    });
+    this.audio.addEventListener('waiting', () => {
+      this.status.value = 'buffering';
+      this.recover();
+    });
+  }
+
+  togglePlay(): void {
+    if (this.audio.paused) {
+      this.play();
+    } else {
+      this.audio.pause();
+    }
+  }
+
+  seek(seconds: number): void {
+    if (!this.seekable.value) return;
+    const target = Math.max(0, Math.min(seconds, this.duration.value));
+    if (this.sourceBuffer && !this.isBuffered(target)) this.jumpTo(target);
+    this.audio.currentTime = target;
+    this.position.value = target;
+  }
+
+  // Stops playing and, unless it already arrived, stops the song from coming
+  dispose(): void {
+    this.disposed = true;
+    this.stream.onHeader = null;
+    this.stream.onChunk = null;
+    peerStreamService.cancel(this.stream);
+    this.audio.pause();
+    this.audio.removeAttribute('src');
+    this.audio.load();
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+    this.mediaSource = null;
+    this.sourceBuffer = null;
+  }
+
+  private begin(header: TransferSongHeader): void {
+    this.header.value = header;
+    this.duration.value = header.duration;
+    this.status.value = 'buffering';
+    // Without a duration there is no telling which bytes a time is at
+    if (typeof MediaSource === 'undefined' || !MediaSource.isTypeSupported(header.mimeType) || !(header.duration > 0)) {
+      console.log('[StreamPlayer] Cannot stream', header.mimeType, '- playing once it arrives');
+      return;
+    }
+    const mediaSource = new MediaSource();
+    this.mediaSource = mediaSource;
+    mediaSource.addEventListener('sourceopen', () => this.openSource(mediaSource, header), { once: true });
+    this.setSource(URL.createObjectURL(mediaSource));
+    this.play();
+  }
+
+  private openSource(mediaSource: MediaSource, header: TransferSongHeader): void {
+    if (this.disposed || this.mediaSource !== mediaSource) return;
+    try {
+      const buffer = mediaSource.addSourceBuffer(header.mimeType);
+      // Each append is placed after the previous one, or where timestampOffset says
+      buffer.mode = 'sequence';
+      mediaSource.duration = header.duration;
+      buffer.addEventListener('updateend', () => this.feed());
+      this.sourceBuffer = buffer;
+      this.seekable.value = true;
+    } catch (error) {
+      console.warn('[StreamPlayer] MediaSource refused the song, playing once it arrives:', error);
+      this.mediaSource = null;
+      this.audio.removeAttribute('src');
+      return;
+    }
+    this.feed();
+  }
+
+  private playWhole(song: StreamedSong): void {
+    const position = this.audio.currentTime;
+    this.setSource(URL.createObjectURL(song.audio));
+    if (position > 0) this.audio.currentTime = position;
+    this.play();
+  }
+
+  private setSource(url: string): void {
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = url;
+    this.audio.src = url;
+  }
+
+  private play(): void {
+    this.audio.play().catch((error) => {
+      console.warn('[StreamPlayer] Playback did not start:', error);
+      this.status.value = 'paused';
+    });
+  }
+
+  // Appends the next chunk the playhead will need, if it arrived; called again when the
+  // append ends, a chunk arrives or the playhead moves
+  private feed(): void {
+    const buffer = this.sourceBuffer;
+    const header = this.header.value;
+    if (this.disposed || !buffer || !header || buffer.updating) return;
+    if (this.mediaSource?.readyState === 'closed') return;
+
+    const now = this.audio.currentTime;
+    if (this.trimBehind(buffer, now)) return;
+
+    let index = this.chunkAt(now);
+    while (index < header.totalChunks && this.appended.has(index)) index++;
+    if (index >= header.totalChunks) {
+      // Lets the element play to the end instead of waiting for more
+      if (this.mediaSource?.readyState === 'open') this.mediaSource.endOfStream();
+      return;
+    }
+    const data = this.stream.chunks[index];
+    if (!data || this.timeOf(index) > now + FEED_AHEAD_SECONDS) return;
+    try {
+      if (index !== this.lastAppended + 1) buffer.timestampOffset = this.timeOf(index);
+      buffer.appendBuffer(data);
+    } catch (error) {
+      console.warn('[StreamPlayer] Could not append chunk', index, error);
+      return;
+    }
+    this.appended.add(index);
+    this.lastAppended = index;
+  }
+
+  private trimBehind(buffer: SourceBuffer, now: number): boolean {
+    const until = now - KEEP_BEHIND_SECONDS;
+    if (buffer.buffered.length === 0 || buffer.buffered.start(0) > until - MIN_TRIM_SECONDS) return false;
+    buffer.remove(0, until);
+    this.appended.forEach((index) => {
+      if (this.timeOf(index + 1) <= until) this.appended.delete(index);
+    });
+    return true;
+  }
+
+  // Starts appending again from `time`, and asks the sender for the chunks there first
+  private jumpTo(time: number): void {
+    const buffer = this.sourceBuffer!;
+    if (buffer.updating) buffer.abort();
+    this.appended.clear();
+    // Whatever comes next is placed by its own time
+    this.lastAppended = Number.NaN;
+    peerStreamService.seek(this.stream, this.chunkAt(time));
+    this.feed();
+  }
+
+  // The element stalled: either the audio there has not arrived, which it will, or it was
+  // appended somewhere else than expected and has to be appended again
+  private recover(): void {
+    if (!this.sourceBuffer) return;
+    const now = this.audio.currentTime;
+    if (!this.isBuffered(now) && this.appended.has(this.chunkAt(now))) this.jumpTo(now);
+  }
+
+  private isBuffered(time: number): boolean {
+    const ranges = this.sourceBuffer?.buffered;
+    if (!ranges) return false;
+    for (let i = 0; i < ranges.length; i++) {
+      if (time >= ranges.start(i) && time < ranges.end(i)) return true;
+    }
+    return false;
+  }
+
+  private timeOf(chunkIndex: number): number {
+    const header = this.header.value!;
+    return ((chunkIndex * TRANSFER_CHUNK_SIZE) / header.size) * header.duration;
+  }
+
+  private chunkAt(time: number): number {
+    const header = this.header.value!;
+    const index = Math.floor(((time / header.duration) * header.size) / TRANSFER_CHUNK_SIZE);
+    return Math.max(0, Math.min(index, header.totalChunks - 1));
+  }
+}
@@ -0,0 +1,224 @@
+import type { SyncDeletion, SyncEntry, SyncPlaylist } from './p2pProtocol';
+
+// The merge behind library sync (see librarySync.ts), kept apart from the messaging so it
+// can be checked on its own.
+
+export interface Manifest {
+  playlists: SyncPlaylist[];
+  entries: SyncEntry[];
+  deletions: SyncDeletion[];
+}
+
+// A manifest indexed by playlist uid, and by song hash within each playlist
+interface Library {
+  playlists: Map<string, SyncPlaylist>;
+  deleted: Map<string, number>;
+  entries: Map<string, Map<string, SyncEntry>>;
+  removed: Map<string, Map<string, number>>;
+}
+
+// One playlist as it is to be on this device
+export interface SettledPlaylist {
+  uid: string;
+  name: string;
+  nameAt: number;
+  orderAt: number;
+  songs: Array<{ hash: string; addedAt: number }>;
+  removed: Array<{ hash: string; deletedAt: number }>;
+}
+
+export interface SyncPlan {
+  // Local uid → the uid both devices use from now on
+  relabel: Map<string, string>;
+  settle: SettledPlaylist[];
+  deletePlaylists: Array<{ uid: string; deletedAt: number }>;
+  // Playlist deletions we only pass on
+  deletions: Array<{ uid: string; deletedAt: number }>;
+  conflicts: Array<{ playlist: string; message: string }>;
+}
+
+function index(manifest: Manifest): Library {
+  const library: Library = { playlists: new Map(), deleted: new Map(), entries: new Map(), removed: new Map() };
+  const within = <T>(map: Map<string, Map<string, T>>, uid: string) => {
+    let inner = map.get(uid);
+    if (!inner) map.set(uid, (inner = new Map()));
+    return inner;
+  };
+  manifest.playlists.forEach((playlist) => library.playlists.set(playlist.uid, playlist));
+  manifest.entries.forEach((entry) => within(library.entries, entry.playlist).set(entry.sha256, entry));
+  manifest.deletions.forEach(({ playlist, sha256, deletedAt }) => {
+    if (sha256) within(library.removed, playlist).set(sha256, deletedAt);
+    else library.deleted.set(playlist, deletedAt);
+  });
+  return library;
+}
+
+// The last time anything about the playlist changed on that side
+function lastChange(library: Library, uid: string): number {
+  const playlist = library.playlists.get(uid);
+  let at = Math.max(playlist?.nameAt ?? 0, playlist?.orderAt ?? 0);
+  library.entries.get(uid)?.forEach((entry) => (at = Math.max(at, entry.addedAt)));
+  library.removed.get(uid)?.forEach((deletedAt) => (at = Math.max(at, deletedAt)));
+  return at;
+}
+
+// Playlists of the same name that the other device does not know by uid are taken to be
+// the same playlist (e.g. one cloned from the other, before the devices first synced), and
+// both devices give them the smaller uid. Pairs are made in uid order, so both make the same.
+function pairByName(local: Manifest, remote: Manifest): Map<string, string> {
+  const known = (manifest: Manifest) =>
+    new Set([...manifest.playlists.map((p) => p.uid), ...manifest.deletions.map((d) => d.playlist)]);
+  const byName = (playlists: SyncPlaylist[], others: Set<string>) => {
+    const names = new Map<string, string[]>();
+    playlists
+      .filter((playlist) => !others.has(playlist.uid))
+      .sort((a, b) => (a.uid < b.uid ? -1 : 1))
+      .forEach((playlist) => names.set(playlist.name, [...(names.get(playlist.name) ?? []), playlist.uid]));
+    return names;
+  };
+  const ours = byName(local.playlists, known(remote));
+  const theirs = byName(remote.playlists, known(local));
+  const relabel = new Map<string, string>();
+  ours.forEach((uids, name) => {
+    const matches = theirs.get(name) ?? [];
+    uids.slice(0, matches.length).forEach((uid, i) => relabel.set(uid, uid < matches[i] ? uid : matches[i]));
+  });
+  return relabel;
+}
+
+// Renames playlist uids throughout a manifest
+function relabelled(manifest: Manifest, uids: Map<string, string>): Manifest {
+  const uid = (old: string) => uids.get(old) ?? old;
+  return {
+    playlists: manifest.playlists.map((playlist) => ({ ...playlist, uid: uid(playlist.uid) })),
+    entries: manifest.entries.map((entry) => ({ ...entry, playlist: uid(entry.playlist) })),
+    deletions: manifest.deletions.map((deletion) => ({ ...deletion, playlist: uid(deletion.playlist) })),
+  };
+}
+
+// Works out the merged library. Both devices run this on the same two manifests with the
+// sides swapped, and must come to the same result: every rule is symmetric, and ties go to
+// the device with the greater id (`localWinsTies`). `since` is when the last sync was.
+export function planSync(local: Manifest, remote: Manifest, localWinsTies: boolean, since: number): SyncPlan {
+  const relabel = pairByName(local, remote);
+  const plan: SyncPlan = { relabel, settle: [], deletePlaylists: [], deletions: [], conflicts: [] };
+  const ours = index(relabelled(local, relabel));
+  const theirs = index(relabelled(remote, pairByName(remote, local)));
+  const uids = new Set([
+    ...ours.playlists.keys(),
+    ...ours.deleted.keys(),
+    ...theirs.playlists.keys(),
+    ...theirs.deleted.keys(),
+  ]);
+
+  for (const uid of uids) {
+    const mine = ours.playlists.get(uid);
+    const other = theirs.playlists.get(uid);
+    const name = (mine ?? other)?.name ?? '';
+
+    if (!mine && !other) {
+      const deletedAt = theirs.deleted.get(uid) ?? -1;
+      if (deletedAt > (ours.deleted.get(uid) ?? -1)) plan.deletions.push({ uid, deletedAt });
+      continue;
+    }
+    // Deleted on one side: the deletion wins over changes made before it, and loses to
+    // those made after
+    const deletedHere = mine ? undefined : ours.deleted.get(uid);
+    const deletedThere = other ? undefined : theirs.deleted.get(uid);
+    const deletion = deletedHere ?? deletedThere;
+    if (deletion !== undefined) {
+      const changedAt = lastChange(mine ? ours : theirs, uid);
+      const deleted = deletion > changedAt;
+      if (deletion > since && changedAt > since) {
+        plan.conflicts.push({
+          playlist: name,
+          message: deleted
+            ? 'Apagada num dispositivo e alterada no outro antes disso; ficou apagada.'
+            : 'Apagada num dispositivo e alterada no outro depois disso; foi mantida.',
+        });
+      }
+      if (deleted) {
+        if (mine) plan.deletePlaylists.push({ uid, deletedAt: deletion });
+        continue;
+      }
+    }
+    // Nothing to take from the other side, which takes this playlist as it is
+    if (!other) continue;
+
+    let merged = { name: other.name, nameAt: other.nameAt };
+    if (mine && (mine.nameAt > other.nameAt || (mine.nameAt === other.nameAt && mine.name > other.name))) {
+      merged = { name: mine.name, nameAt: mine.nameAt };
+    }
+    if (mine && mine.name !== other.name && mine.nameAt > since && other.nameAt > since) {
+      plan.conflicts.push({
+        playlist: merged.name,
+        message: `Renomeada nos dois dispositivos; ficou "${merged.name}".`,
+      });
+    }
+
+    const ourEntries = (mine && ours.entries.get(uid)) || new Map<string, SyncEntry>();
+    const theirEntries = theirs.entries.get(uid) ?? new Map<string, SyncEntry>();
+    const ourRemoved = (mine && ours.removed.get(uid)) || new Map<string, number>();
+    const theirRemoved = theirs.removed.get(uid) ?? new Map<string, number>();
+    const hashes = new Set([
+      ...ourEntries.keys(),
+      ...theirEntries.keys(),
+      ...ourRemoved.keys(),
+      ...theirRemoved.keys(),
+    ]);
+    const kept = new Map<string, number>();
+    const removed: SettledPlaylist['removed'] = [];
+    let disputed = 0;
+    for (const hash of hashes) {
+      const addedAt = Math.max(ourEntries.get(hash)?.addedAt ?? -1, theirEntries.get(hash)?.addedAt ?? -1);
+      const deletedAt = Math.max(ourRemoved.get(hash) ?? -1, theirRemoved.get(hash) ?? -1);
+      // A song added and removed at the same moment stays
+      if (addedAt >= deletedAt) kept.set(hash, addedAt);
+      else removed.push({ hash, deletedAt });
+      const addedHere = (ourEntries.get(hash)?.addedAt ?? -1) > since && (theirRemoved.get(hash) ?? -1) > since;
+      const addedThere = (theirEntries.get(hash)?.addedAt ?? -1) > since && (ourRemoved.get(hash) ?? -1) > since;
+      if (addedHere || addedThere) disputed++;
+    }
+    if (disputed > 0) {
+      plan.conflicts.push({
+        playlist: merged.name,
+        message: `${disputed} música(s) removida(s) num dispositivo e adicionada(s) no outro; valeu a mudança mais recente.`,
+      });
+    }
+
+    // The order of the side that reordered last, then the songs only the other side has
+    const ourOrder = mine?.orderAt ?? -1;
+    const oursFirst = ourOrder > other.orderAt || (ourOrder === other.orderAt && localWinsTies);
+    const [first, second] = oursFirst ? [ourEntries, theirEntries] : [theirEntries, ourEntries];
+    const inOrder = (entries: Map<string, SyncEntry>) =>
+      [...entries.values()]
+        .filter((e) => kept.has(e.sha256))
+        .sort((a, b) => a.position - b.position)
+        .map((e) => e.sha256);
+    const order = inOrder(first);
+    const placed = new Set(order);
+    order.push(...inOrder(second).filter((hash) => !placed.has(hash)));
+    // Only the songs both sides have can be in a different order
+    const common = (list: string[], entries: Map<string, SyncEntry>) => list.filter((hash) => entries.has(hash)).join();
+    if (
+      mine &&
+      mine.orderAt > since &&
+      other.orderAt > since &&
+      common(inOrder(ourEntries), theirEntries) !== common(inOrder(theirEntries), ourEntries)
+    ) {
+      plan.conflicts.push({
+        playlist: merged.name,
+        message: `Ordem alterada nos dois dispositivos; valeu a ${oursFirst ? 'deste' : 'do outro'}.`,
+      });
+    }
+
+    plan.settle.push({
+      uid,
+      ...merged,
+      orderAt: Math.max(ourOrder, other.orderAt),
+      songs: order.map((hash) => ({ hash, addedAt: kept.get(hash)! })),
+      removed,
+    });
+  }
+  return plan;
+}
@@ -0,0 +1,658 @@
+export interface AudioPicture {
+  mime: string
+  data: Uint8Array
+}
+
+// Gains in dB relative to the ReplayGain reference (-18 LUFS), peaks as linear sample values
+export interface ReplayGainInfo {
+  trackGain?: number
+  trackPeak?: number
+  albumGain?: number
+  albumPeak?: number
+}
+
+export interface AudioTags {
+  title?: string
+  artist?: string
+  album?: string
+  year?: string
+  track?: number
+  duration?: number // seconds
+  picture?: AudioPicture
+  replayGain?: ReplayGainInfo
+}
+
+// Upper bound for a single metadata block we are willing to load (covers embedded artwork)
+const MAX_TAG_BYTES = 16 * 1024 * 1024
+
+async function readBytes(file: Blob, start: number, end: number): Promise<Uint8Array> {
+  const from = Math.max(0, start)
+  const to = Math.min(file.size, end)
+  if (to <= from) return new Uint8Array(0)
+  return new Uint8Array(await file.slice(from, to).arrayBuffer())
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  let out = ''
+  for (let i = start; i < start + length && i < bytes.length; i++) {
+    out += String.fromCharCode(bytes[i])
+  }
+  return out
+}
+
+function u32be(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) >>> 0) +
+    (bytes[offset + 1] << 16) +
+    (bytes[offset + 2] << 8) +
+    bytes[offset + 3]
+  )
+}
+
+function u32le(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] +
+    (bytes[offset + 1] << 8) +
+    (bytes[offset + 2] << 16) +
+    ((bytes[offset + 3] << 24) >>> 0)
+  )
+}
+
+function syncsafe(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f)
+  )
+}
+
+function decodeText(bytes: Uint8Array, encoding: string): string {
+  try {
+    return new TextDecoder(encoding).decode(bytes).replace(/\0+$/, '').trim()
+  } catch {
+    return ''
+  }
+}
+
+function clean(value: string | undefined): string | undefined {
+  const trimmed = value?.replace(/\0/g, '').trim()
+  return trimmed ? trimmed : undefined
+}
+
+function parseTrack(value: string | undefined): number | undefined {
+  if (!value) return undefined
+  const track = parseInt(value.split('/')[0], 10)
+  return Number.isFinite(track) && track > 0 ? track : undefined
+}
+
+function parseYear(value: string | undefined): string | undefined {
+  const match = value?.match(/\d{4}/)
+  return match ? match[0] : undefined
+}
+
+// Reads REPLAYGAIN_* and Opus R128_* values, whichever tag format they came from
+function applyReplayGain(tags: AudioTags, key: string, value: string): void {
+  const number = parseFloat(value)
+  if (!Number.isFinite(number)) return
+  const info = (tags.replayGain ??= {})
+  switch (key.toUpperCase()) {
+    case 'REPLAYGAIN_TRACK_GAIN':
+      info.trackGain = number
+      break
+    case 'REPLAYGAIN_TRACK_PEAK':
+      info.trackPeak = number
+      break
+    case 'REPLAYGAIN_ALBUM_GAIN':
+      info.albumGain = number
+      break
+    case 'REPLAYGAIN_ALBUM_PEAK':
+      info.albumPeak = number
+      break
+    // Q7.8 fixed point relative to -23 LUFS, which is 5 dB below the ReplayGain reference
+    case 'R128_TRACK_GAIN':
+      info.trackGain = info.trackGain ?? number / 256 + 5
+      break
+    case 'R128_ALBUM_GAIN':
+      info.albumGain = info.albumGain ?? number / 256 + 5
+      break
+  }
+  if (Object.keys(info).length === 0) delete tags.replayGain
+}
+
+// Removes the 0xFF 0x00 unsynchronisation scheme used by ID3v2
+function removeUnsync(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(bytes.length)
+  let j = 0
+  for (let i = 0; i < bytes.length; i++) {
+    out[j++] = bytes[i]
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++
+  }
+  return out.subarray(0, j)
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export function pictureToDataUrl(picture: AudioPicture): string {
+  let binary = ''
+  const step = 0x8000
+  for (let i = 0; i < picture.data.length; i += step) {
+    binary += String.fromCharCode(...picture.data.subarray(i, i + step))
+  }
+  return `data:${picture.mime || 'image/jpeg'};base64,${btoa(binary)}`
+}
+
+// Falls back to the browser decoder when the container does not tell us the duration
+function probeDuration(file: Blob): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const audio = new Audio()
+    const url = URL.createObjectURL(file)
+    const finish = (value?: number) => {
+      clearTimeout(timer)
+      audio.removeAttribute('src')
+      URL.revokeObjectURL(url)
+      resolve(value && Number.isFinite(value) ? value : undefined)
+    }
+    const timer = setTimeout(() => finish(), 5000)
+    audio.preload = 'metadata'
+    audio.addEventListener('loadedmetadata', () => finish(audio.duration))
+    audio.addEventListener('error', () => finish())
+    audio.src = url
+  })
+}
+
+export class TagService {
+  async read(file: Blob): Promise<AudioTags> {
+    let tags: AudioTags = {}
+    try {
+      const head = await readBytes(file, 0, 12)
+      if (ascii(head, 0, 4) === 'fLaC') {
+        tags = await this.readFlac(file)
+      } else if (ascii(head, 0, 4) === 'OggS') {
+        tags = await this.readOgg(file)
+      } else if (ascii(head, 4, 4) === 'ftyp') {
+        tags = await this.readMp4(file)
+      } else {
+        tags = await this.readMp3(file)
+      }
+    } catch (error) {
+      console.warn('[Tags] Could not parse tags, using defaults:', error)
+    }
+
+    if (!tags.duration) {
+      tags.duration = await probeDuration(file)
+    }
+    return tags
+  }
+
+  // --- MP3: ID3v2.3 / ID3v2.4 with ID3v1 fallback ---
+
+  private async readMp3(file: Blob): Promise<AudioTags> {
+    const v2 = await this.readId3v2(file)
+    const v1 = await this.readId3v1(file)
+    return {
+      title: v2.title ?? v1.title,
+      artist: v2.artist ?? v1.artist,
+      album: v2.album ?? v1.album,
+      year: v2.year ?? v1.year,
+      track: v2.track ?? v1.track,
+      duration: v2.duration,
+      picture: v2.picture,
+      replayGain: v2.replayGain,
+    }
+  }
+
+  private async readId3v1(file: Blob): Promise<AudioTags> {
+    if (file.size < 128) return {}
+    const bytes = await readBytes(file, file.size - 128, file.size)
+    if (ascii(bytes, 0, 3) !== 'TAG') return {}
+    const text = (start: number, length: number) =>
+      clean(decodeText(bytes.subarray(start, start + length), 'iso-8859-1'))
+    return {
+      title: text(3, 30),
+      artist: text(33, 30),
+      album: text(63, 30),
+      year: parseYear(text(93, 4)),
+      // ID3v1.1 stores the track number in the last comment byte
+      track: bytes[125] === 0 && bytes[126] > 0 ? bytes[126] : undefined,
+    }
+  }
+
+  private async readId3v2(file: Blob): Promise<AudioTags> {
+    const header = await readBytes(file, 0, 10)
+    if (ascii(header, 0, 3) !== 'ID3') return {}
+
+    const version = header[3]
+    if (version !== 3 && version !== 4) return {}
+
+    const flags = header[5]
+    const size = syncsafe(header, 6)
+    if (size > MAX_TAG_BYTES) return {}
+
+    let body = await readBytes(file, 10, 10 + size)
+    if (version === 3 && flags & 0x80) {
+      body = removeUnsync(body)
+    }
+
+    let offset = 0
+    if (flags & 0x40) {
+      // Extended header: v2.3 size excludes itself, v2.4 size is syncsafe and includes itself
+      offset = version === 3 ? u32be(body, 0) + 4 : syncsafe(body, 0)
+    }
+
+    const tags: AudioTags = {}
+    while (offset + 10 <= body.length) {
+      const id = ascii(body, offset, 4)
+      if (!/^[A-Z0-9]{4}$/.test(id)) break
+
+      const frameSize = version === 4 ? syncsafe(body, offset + 4) : u32be(body, offset + 4)
+      const formatFlags = body[offset + 9]
+      let frame = body.subarray(offset + 10, offset + 10 + frameSize)
+      offset += 10 + frameSize
+      if (frameSize === 0) continue
+
+      if (version === 4) {
+        if (formatFlags & 0x02) frame = removeUnsync(frame)
+        if (formatFlags & 0x01) frame = frame.subarray(4) // data length indicator
+      }
+
+      switch (id) {
+        case 'TIT2':
+          tags.title = clean(this.id3Text(frame))
+          break
+        case 'TPE1':
+          tags.artist = clean(this.id3Text(frame))
+          break
+        case 'TALB':
+          tags.album = clean(this.id3Text(frame))
+          break
+        case 'TYER':
+        case 'TDRC':
+          tags.year = tags.year ?? parseYear(this.id3Text(frame))
+          break
+        case 'TRCK':
+          tags.track = parseTrack(this.id3Text(frame))
+          break
+        case 'TLEN': {
+          const ms = parseInt(this.id3Text(frame), 10)
+          if (ms > 0) tags.duration = ms / 1000
+          break
+        }
+        case 'TXXX': {
+          // User defined text: description, NUL, value
+          const [description, value] = this.id3UserText(frame)
+          if (description.toUpperCase().startsWith('REPLAYGAIN_')) {
+            applyReplayGain(tags, description, value)
+          }
+          break
+        }
+        case 'APIC':
+          // Prefer the front cover (type 3) when several pictures exist
+          if (!tags.picture || this.id3PictureType(frame) === 3) {
+            tags.picture = this.id3Picture(frame) ?? tags.picture
+          }
+          break
+      }
+    }
+    return tags
+  }
+
+  // `text` is the encoded string: with encoding 1 each string starts with its own byte
+  // order mark, and TextDecoder('utf-16') would read a big-endian one as little-endian
+  private id3Encoding(encodingByte: number, text: Uint8Array): string {
+    switch (encodingByte) {
+      case 1:
+        return text[0] === 0xfe && text[1] === 0xff ? 'utf-16be' : 'utf-16le'
+      case 2:
+        return 'utf-16be'
+      case 3:
+        return 'utf-8'
+      default:
+        return 'iso-8859-1'
+    }
+  }
+
+  private id3Text(frame: Uint8Array): string {
+    const text = frame.subarray(1)
+    // Multiple values are NUL separated; keep only the first one
+    return decodeText(text, this.id3Encoding(frame[0], text)).split('\0')[0]
+  }
+
+  private id3UserText(frame: Uint8Array): [string, string] {
+    const wide = frame[0] === 1 || frame[0] === 2
+    const descriptionEnd = this.id3Terminator(frame, 1, wide)
+    const descriptionBytes = frame.subarray(1, descriptionEnd)
+    const valueBytes = frame.subarray(descriptionEnd + (wide ? 2 : 1))
+    const description = decodeText(descriptionBytes, this.id3Encoding(frame[0], descriptionBytes))
+    const value = decodeText(valueBytes, this.id3Encoding(frame[0], valueBytes))
+    return [description, value]
+  }
+
+  // Finds the end of a NUL terminated string, honouring 2-byte terminators for UTF-16
+  private id3Terminator(frame: Uint8Array, start: number, wide: boolean): number {
+    if (!wide) {
+      const end = frame.indexOf(0, start)
+      return end === -1 ? frame.length : end
+    }
+    for (let i = start; i + 1 < frame.length; i += 2) {
+      if (frame[i] === 0 && frame[i + 1] === 0) return i
+    }
+    return frame.length
+  }
+
+  private id3PictureType(frame: Uint8Array): number {
+    const mimeEnd = frame.indexOf(0, 1)
+    return mimeEnd === -1 ? -1 : frame[mimeEnd + 1]
+  }
+
+  private id3Picture(frame: Uint8Array): AudioPicture | undefined {
+    const wide = frame[0] === 1 || frame[0] === 2
+    const mimeEnd = frame.indexOf(0, 1)
+    if (mimeEnd === -1) return undefined
+    let mime = ascii(frame, 1, mimeEnd - 1).toLowerCase()
+    if (!mime.includes('/')) mime = `image/${mime === 'png' ? 'png' : 'jpeg'}`
+
+    const descriptionStart = mimeEnd + 2 // skip picture type byte
+    const descriptionEnd = this.id3Terminator(frame, descriptionStart, wide)
+    const dataStart = descriptionEnd + (wide ? 2 : 1)
+    if (dataStart >= frame.length) return undefined
+    return { mime, data: frame.slice(dataStart) }
+  }
+
+  // --- Vorbis comments (shared by FLAC, Ogg Vorbis and Opus) ---
+
+  private parseVorbisComments(bytes: Uint8Array, tags: AudioTags): void {
+    let offset = 0
+    const vendorLength = u32le(bytes, offset)
+    offset += 4 + vendorLength
+    const count = u32le(bytes, offset)
+    offset += 4
+
+    for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+      const length = u32le(bytes, offset)
+      offset += 4
+      const entry = decodeText(bytes.subarray(offset, offset + length), 'utf-8')
+      offset += length
+
+      const separator = entry.indexOf('=')
+      if (separator === -1) continue
+      const key = entry.substring(0, separator).toUpperCase()
+      const value = entry.substring(separator + 1)
+
+      switch (key) {
+        case 'TITLE':
+          tags.title = tags.title ?? clean(value)
+          break
+        case 'ARTIST':
+          tags.artist = tags.artist ?? clean(value)
+          break
+        case 'ALBUM':
+          tags.album = tags.album ?? clean(value)
+          break
+        case 'DATE':
+        case 'YEAR':
+          tags.year = tags.year ?? parseYear(value)
+          break
+        case 'TRACKNUMBER':
+          tags.track = tags.track ?? parseTrack(value)
+          break
+        case 'REPLAYGAIN_TRACK_GAIN':
+        case 'REPLAYGAIN_TRACK_PEAK':
+        case 'REPLAYGAIN_ALBUM_GAIN':
+        case 'REPLAYGAIN_ALBUM_PEAK':
+        case 'R128_TRACK_GAIN':
+        case 'R128_ALBUM_GAIN':
+          applyReplayGain(tags, key, value)
+          break
+        case 'METADATA_BLOCK_PICTURE':
+          if (!tags.picture) {
+            try {
+              tags.picture = this.parseFlacPicture(base64ToBytes(value))
+            } catch {
+              // Ignore malformed artwork
+            }
+          }
+          break
+      }
+    }
+  }
+
+  private parseFlacPicture(bytes: Uint8Array): AudioPicture | undefined {
+    let offset = 4 // picture type
+    const mimeLength = u32be(bytes, offset)
+    offset += 4
+    const mime = ascii(bytes, offset, mimeLength) || 'image/jpeg'
+    offset += mimeLength
+    const descriptionLength = u32be(bytes, offset)
+    offset += 4 + descriptionLength
+    offset += 16 // width, height, colour depth, indexed colours
+    const dataLength = u32be(bytes, offset)
+    offset += 4
+    if (offset + dataLength > bytes.length) return undefined
+    return { mime, data: bytes.slice(offset, offset + dataLength) }
+  }
+
+  // --- FLAC ---
+
+  private async readFlac(file: Blob): Promise<AudioTags> {
+    const tags: AudioTags = {}
+    let offset = 4
+    let isLast = false
+
+    while (!isLast && offset + 4 <= file.size) {
+      const header = await readBytes(file, offset, offset + 4)
+      isLast = (header[0] & 0x80) !== 0
+      const type = header[0] & 0x7f
+      const length = (header[1] << 16) | (header[2] << 8) | header[3]
+      offset += 4
+
+      if ((type === 0 || type === 4 || type === 6) && length <= MAX_TAG_BYTES) {
+        const block = await readBytes(file, offset, offset + length)
+        if (type === 0) {
+          // STREAMINFO: 20-bit sample rate followed by a 36-bit total sample count
+          const sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4)
+          const totalSamples = (block[13] & 0x0f) * 2 ** 32 + u32be(block, 14)
+          if (sampleRate > 0 && totalSamples > 0) tags.duration = totalSamples / sampleRate
+        } else if (type === 4) {
+          this.parseVorbisComments(block, tags)
+        } else if (!tags.picture) {
+          tags.picture = this.parseFlacPicture(block)
+        }
+      }
+      offset += length
+    }
+    return tags
+  }
+
+  // --- Ogg (Vorbis / Opus) ---
+
+  private async readOgg(file: Blob): Promise<AudioTags> {
+    const tags: AudioTags = {}
+    const packets: Uint8Array[] = []
+    let current: Uint8Array[] = []
+    let currentLength = 0
+    let offset = 0
+
+    // Reassemble the first two packets (identification + comment header) from the page segments
+    while (packets.length < 2 && offset + 27 <= file.size) {
+      const header = await readBytes(file, offset, offset + 27)
+      if (ascii(header, 0, 4) !== 'OggS') break
+      const segmentCount = header[26]
+      const table = await readBytes(file, offset + 27, offset + 27 + segmentCount)
+      const bodyLength = table.reduce((sum, value) => sum + value, 0)
+      const body = await readBytes(file, offset + 27 + segmentCount, offset + 27 + segmentCount + bodyLength)
+      offset += 27 + segmentCount + bodyLength
+
+      let position = 0
+      for (const segment of table) {
+        current.push(body.subarray(position, position + segment))
+        currentLength += segment
+        position += segment
+        if (currentLength > MAX_TAG_BYTES) return tags
+        if (segment < 255) {
+          const packet = new Uint8Array(currentLength)
+          let at = 0
+          for (const part of current) {
+            packet.set(part, at)
+            at += part.length
+          }
+          packets.push(packet)
+          current = []
+          currentLength = 0
+          if (packets.length === 2) break
+        }
+      }
+    }
+
+    const [identification, comments] = packets
+    if (!identification) return tags
+
+    let sampleRate = 0
+    let preSkip = 0
+    if (ascii(identification, 0, 8) === 'OpusHead') {
+      sampleRate = 48000 // Opus granule positions always use 48 kHz
+      preSkip = identification[10] | (identification[11] << 8)
+      if (comments && ascii(comments, 0, 8) === 'OpusTags') {
+        this.parseVorbisComments(comments.subarray(8), tags)
+      }
+    } else if (ascii(identification, 1, 6) === 'vorbis') {
+      sampleRate = u32le(identification, 12)
+      if (comments && comments[0] === 3 && ascii(comments, 1, 6) === 'vorbis') {
+        this.parseVorbisComments(comments.subarray(7), tags)
+      }
+    }
+
+    // Duration comes from the granule position of the last page
+    if (sampleRate > 0) {
+      const tail = await readBytes(file, file.size - 65536, file.size)
+      for (let i = tail.length - 27; i >= 0; i--) {
+        if (tail[i] === 0x4f && ascii(tail, i, 4) === 'OggS') {
+          const granule = u32le(tail, i + 6) + u32le(tail, i + 10) * 2 ** 32
+          if (granule > preSkip) tags.duration = (granule - preSkip) / sampleRate
+          break
+        }
+      }
+    }
+    return tags
+  }
+
+  // --- MP4 / M4A ---
+
+  private async readMp4(file: Blob): Promise<AudioTags> {
+    // moov can live at the start or the end of the file, so walk the top-level atoms
+    let offset = 0
+    while (offset + 8 <= file.size) {
+      const header = await readBytes(file, offset, offset + 16)
+      let size = u32be(header, 0)
+      const type = ascii(header, 4, 4)
+      let headerSize = 8
+      if (size === 1) {
+        size = u32be(header, 8) * 2 ** 32 + u32be(header, 12)
+        headerSize = 16
+      } else if (size === 0) {
+        size = file.size - offset
+      }
+      if (size < headerSize) break
+
+      if (type === 'moov') {
+        if (size > MAX_TAG_BYTES * 2) return {}
+        const moov = await readBytes(file, offset + headerSize, offset + size)
+        return this.parseMoov(moov)
+      }
+      offset += size
+    }
+    return {}
+  }
+
+  private mp4Children(bytes: Uint8Array): Array<{ type: string; body: Uint8Array }> {
+    const atoms: Array<{ type: string; body: Uint8Array }> = []
+    let offset = 0
+    while (offset + 8 <= bytes.length) {
+      let size = u32be(bytes, offset)
+      const type = ascii(bytes, offset + 4, 4)
+      let headerSize = 8
+      if (size === 1) {
+        size = u32be(bytes, offset + 8) * 2 ** 32 + u32be(bytes, offset + 12)
+        headerSize = 16
+      } else if (size === 0) {
+        size = bytes.length - offset
+      }
+      if (size < headerSize) break
+      atoms.push({ type, body: bytes.subarray(offset + headerSize, offset + size) })
+      offset += size
+    }
+    return atoms
+  }
+
+  private parseMoov(moov: Uint8Array): AudioTags {
+    const tags: AudioTags = {}
+    const children = this.mp4Children(moov)
+
+    const mvhd = children.find((atom) => atom.type === 'mvhd')?.body
+    if (mvhd) {
+      const version = mvhd[0]
+      const timescale = version === 1 ? u32be(mvhd, 20) : u32be(mvhd, 12)
+      const duration =
+        version === 1 ? u32be(mvhd, 24) * 2 ** 32 + u32be(mvhd, 28) : u32be(mvhd, 16)
+      if (timescale > 0 && duration > 0) tags.duration = duration / timescale
+    }
+
+    const udta = children.find((atom) => atom.type === 'udta')?.body
+    const meta = udta && this.mp4Children(udta).find((atom) => atom.type === 'meta')?.body
+    // meta is a full atom: skip version and flags
+    const ilst = meta && this.mp4Children(meta.subarray(4)).find((atom) => atom.type === 'ilst')
+    if (!ilst) return tags
+
+    for (const item of this.mp4Children(ilst.body)) {
+      const atoms = this.mp4Children(item.body)
+      const data = atoms.find((atom) => atom.type === 'data')?.body
+      if (!data || data.length < 8) continue
+      const dataType = u32be(data, 0) & 0xffffff
+      const value = data.subarray(8)
+      const text = () => clean(decodeText(value, 'utf-8'))
+
+      switch (item.type) {
+        case '©nam':
+          tags.title = text()
+          break
+        case '©ART':
+          tags.artist = text()
+          break
+        case 'aART':
+          tags.artist = tags.artist ?? text()
+          break
+        case '©alb':
+          tags.album = text()
+          break
+        case '©day':
+          tags.year = parseYear(text())
+          break
+        case 'trkn':
+          if (value.length >= 4) {
+            const track = (value[2] << 8) | value[3]
+            if (track > 0) tags.track = track
+          }
+          break
+        case 'covr':
+          if (!tags.picture) {
+            tags.picture = { mime: dataType === 14 ? 'image/png' : 'image/jpeg', data: value.slice() }
+          }
+          break
+        case '----': {
+          // Freeform iTunes atom: the key is in 'name' (a full atom, so skip version and flags)
+          const name = atoms.find((atom) => atom.type === 'name')?.body
+          if (name) applyReplayGain(tags, decodeText(name.subarray(4), 'utf-8'), text() ?? '')
+          break
+        }
+      }
+    }
+    return tags
+  }
+}
+
+export const tagService = new TagService()
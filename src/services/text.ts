@@ -0,0 +1,42 @@
+// Lower case without accents, so "Canção" and "cancao" (or "Beyoncé" and "beyonce") match
+export function normalizeText(value: string | undefined | null): string {
+  return (value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+}
+
+// Words of a normalized text; punctuation separates words
+export function tokenize(value: string | undefined | null): string[] {
+  return normalizeText(value)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0)
+}
+
+// Tokens indexed for library search: title, artist, album and year
+export function songSearchTokens(song: {
+  title?: string
+  artist?: string
+  album?: string
+  year?: string
+}): string[] {
+  return Array.from(
+    new Set([
+      ...tokenize(song.title),
+      ...tokenize(song.artist),
+      ...tokenize(song.album),
+      ...tokenize(song.year),
+    ]),
+  )
+}
+
+// A name usable as a file name on every system
+export function safeFileName(name: string, maxLength = 80): string {
+  return (
+    name
+      .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_')
+      .slice(0, maxLength)
+      .trim() || 'sem nome'
+  )
+}
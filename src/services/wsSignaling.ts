@@ -0,0 +1,154 @@
+import type { RelayedData, SignalingEvents, SignalingTransport } from './signaling';
+
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+// Signaling through the self-hosted server in server/signaling.js. Same roles as Ably:
+// presence, offer/answer exchange and relaying, on a server that can live on the LAN.
+export class WebSocketSignaling implements SignalingTransport {
+  readonly kind = 'websocket';
+  readonly trickle = true;
+  readonly relays = true;
+  readonly presence = true;
+  private socket: WebSocket | null = null;
+  private localId = '';
+  private room = '';
+  private events: SignalingEvents | null = null;
+  private present = new Set<string>();
+  private reconnectDelay = RECONNECT_MIN_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  // `address` may be relative to the page (e.g. "/signaling" behind the dev server proxy)
+  constructor(private address: string) {}
+
+  async connect(localId: string, room: string, events: SignalingEvents): Promise<void> {
+    this.localId = localId;
+    this.room = room;
+    this.events = events;
+    this.closed = false;
+    await this.open();
+  }
+
+  async disconnect(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.present.clear();
+  }
+
+  async members(): Promise<string[]> {
+    return [...this.present];
+  }
+
+  signal(to: string, signal: unknown): void {
+    this.post({ type: 'signal', to, signal });
+  }
+
+  send(to: string, data: RelayedData): void {
+    this.post({ type: 'data', to, data });
+  }
+
+  private url(): string {
+    const url = new URL(this.address, window.location.href);
+    if (url.protocol === 'http:') url.protocol = 'ws:';
+    if (url.protocol === 'https:') url.protocol = 'wss:';
+    return url.href;
+  }
+
+  // Resolves once the room is joined, rejects if the connection closes before that
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let joined = false;
+      const socket = new WebSocket(this.url());
+      this.socket = socket;
+
+      socket.onopen = () => {
+        console.log('[Signaling] ✅ Connected to signaling server');
+        socket.send(JSON.stringify({ type: 'join', room: this.room, id: this.localId }));
+      };
+      socket.onmessage = (event) => {
+        let message: any;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        if (message?.type === 'joined') {
+          joined = true;
+          this.reconnectDelay = RECONNECT_MIN_MS;
+          this.syncMembers(Array.isArray(message.members) ? message.members : []);
+          resolve();
+          return;
+        }
+        this.handle(message);
+      };
+      // Browsers follow an error with a close event, but not every implementation does
+      socket.onerror = socket.onclose = () => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        if (!joined) reject(new Error(`Não foi possível conectar ao servidor de sinalização (${this.address}).`));
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.closed || this.reconnectTimer) return;
+    console.warn('[Signaling] ⚠️ Signaling server connection lost, retrying in', this.reconnectDelay, 'ms');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open().catch(() => {});
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_MS);
+  }
+
+  // After a reconnect the server's member list is the truth: announce who arrived and
+  // who left while we were away
+  private syncMembers(ids: string[]): void {
+    const next = new Set(ids.filter((id) => typeof id === 'string' && id !== this.localId));
+    this.present.forEach((id) => {
+      if (!next.has(id)) this.events?.leave(id);
+    });
+    const previous = this.present;
+    this.present = next;
+    next.forEach((id) => {
+      if (!previous.has(id)) this.events?.peer(id);
+    });
+  }
+
+  private handle(message: any): void {
+    const events = this.events;
+    if (!events || typeof message?.type !== 'string') return;
+    switch (message.type) {
+      case 'peer-joined':
+        if (typeof message.id !== 'string' || message.id === this.localId) return;
+        this.present.add(message.id);
+        events.peer(message.id);
+        break;
+      case 'peer-left':
+        if (!this.present.delete(message.id)) return;
+        events.leave(message.id);
+        break;
+      case 'signal':
+        if (typeof message.from === 'string') events.signal(message.from, message.signal);
+        break;
+      case 'data':
+        if (typeof message.from === 'string' && message.data) events.data(message.from, message.data);
+        break;
+      case 'error':
+        console.warn('[Signaling] Server error:', message.message);
+        break;
+    }
+  }
+
+  private post(message: object): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      console.warn('[Signaling] Not connected to the signaling server, dropping', (message as any).type);
+      return;
+    }
+    this.socket.send(JSON.stringify(message));
+  }
+}
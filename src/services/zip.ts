@@ -0,0 +1,379 @@
+// Minimal ZIP support for library backups. Entries are written uncompressed (audio is
+// already compressed) and ZIP64 records are added when offsets or sizes pass 4 GB, so an
+// archive of any size can be produced as a sequence of Blob parts without holding the
+// audio in memory. Reading also accepts DEFLATE entries, in case an archive was repacked.
+
+export interface ZipEntry {
+  name: string
+  method: number // 0 stored, 8 deflate
+  crc: number
+  compressedSize: number
+  size: number
+  headerOffset: number
+}
+
+// Where archive bytes go: a file picked with the File System Access API, or a Blob in the end
+export interface ZipSink {
+  write(part: Blob | Uint8Array<ArrayBuffer>): Promise<void>
+}
+
+// Offers a Blob as a file download
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // The download keeps its own reference; give it time to start before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 60_000)
+}
+
+// Collects the archive as Blob parts (audio Blobs stay backed by IndexedDB, so this is light
+// on memory) and downloads it at the end, for browsers without the File System Access API
+export class DownloadSink implements ZipSink {
+  private parts: BlobPart[] = []
+
+  async write(part: Blob | Uint8Array<ArrayBuffer>) {
+    this.parts.push(part)
+  }
+
+  save(fileName: string) {
+    downloadBlob(new Blob(this.parts, { type: 'application/zip' }), fileName)
+    this.parts = []
+  }
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL = 0x06054b50
+const ZIP64_END_OF_CENTRAL = 0x06064b50
+const ZIP64_LOCATOR = 0x07064b50
+const ZIP64_EXTRA = 0x0001
+const UTF8_FLAG = 0x0800
+const MAX_32 = 0xffffffff
+const MAX_16 = 0xffff
+// CRC is computed over the audio in slices so large files never sit in memory whole
+const CRC_CHUNK = 4 * 1024 * 1024
+// The end record plus the longest possible comment
+const MAX_END_SEARCH = 22 + MAX_16
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+function updateCrc(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ MAX_32
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ MAX_32) >>> 0
+}
+
+// Little-endian writer over a fixed-size buffer
+class ByteWriter {
+  readonly bytes: Uint8Array<ArrayBuffer>
+  private view: DataView
+  private offset = 0
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length)
+    this.view = new DataView(this.bytes.buffer)
+  }
+
+  u16(value: number) {
+    this.view.setUint16(this.offset, value, true)
+    this.offset += 2
+  }
+
+  u32(value: number) {
+    this.view.setUint32(this.offset, value >>> 0, true)
+    this.offset += 4
+  }
+
+  u64(value: number) {
+    this.u32(value % 0x100000000)
+    this.u32(Math.floor(value / 0x100000000))
+  }
+
+  raw(bytes: Uint8Array) {
+    this.bytes.set(bytes, this.offset)
+    this.offset += bytes.length
+  }
+}
+
+function readU64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000
+}
+
+async function readView(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer())
+}
+
+// MS-DOS date and time, as every ZIP header stores them
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+export class ZipWriter {
+  private sink: ZipSink
+  private entries: ZipEntry[] = []
+  private offset = 0
+  private stamp = dosDateTime(new Date())
+  private encoder = new TextEncoder()
+
+  constructor(sink: ZipSink) {
+    this.sink = sink
+  }
+
+  // Adds one file. `onProgress` receives the bytes checksummed so far.
+  async add(name: string, data: Blob, onProgress?: (bytes: number) => void) {
+    let crc = 0
+    for (let start = 0; start < data.size; start += CRC_CHUNK) {
+      const chunk = new Uint8Array(await data.slice(start, start + CRC_CHUNK).arrayBuffer())
+      crc = updateCrc(crc, chunk)
+      onProgress?.(Math.min(data.size, start + CRC_CHUNK))
+    }
+
+    const entry: ZipEntry = {
+      name,
+      method: 0,
+      crc,
+      compressedSize: data.size,
+      size: data.size,
+      headerOffset: this.offset,
+    }
+    const nameBytes = this.encoder.encode(name)
+    const large = data.size >= MAX_32
+    const header = new ByteWriter(30 + nameBytes.length + (large ? 20 : 0))
+    header.u32(LOCAL_HEADER)
+    header.u16(large ? 45 : 20)
+    header.u16(UTF8_FLAG)
+    header.u16(0)
+    header.u16(this.stamp.time)
+    header.u16(this.stamp.date)
+    header.u32(crc)
+    header.u32(large ? MAX_32 : data.size)
+    header.u32(large ? MAX_32 : data.size)
+    header.u16(nameBytes.length)
+    header.u16(large ? 20 : 0)
+    header.raw(nameBytes)
+    if (large) {
+      header.u16(ZIP64_EXTRA)
+      header.u16(16)
+      header.u64(data.size)
+      header.u64(data.size)
+    }
+
+    await this.sink.write(header.bytes)
+    await this.sink.write(data)
+    this.offset += header.bytes.length + data.size
+    this.entries.push(entry)
+  }
+
+  // Writes the central directory; nothing can be added afterwards
+  async finish() {
+    const start = this.offset
+    for (const entry of this.entries) {
+      const record = this.centralRecord(entry)
+      await this.sink.write(record)
+      this.offset += record.length
+    }
+    const size = this.offset - start
+    const count = this.entries.length
+    const zip64 = count >= MAX_16 || start >= MAX_32 || size >= MAX_32
+
+    if (zip64) {
+      const end = new ByteWriter(56 + 20)
+      end.u32(ZIP64_END_OF_CENTRAL)
+      end.u64(44)
+      end.u16(45)
+      end.u16(45)
+      end.u32(0)
+      end.u32(0)
+      end.u64(count)
+      end.u64(count)
+      end.u64(size)
+      end.u64(start)
+      end.u32(ZIP64_LOCATOR)
+      end.u32(0)
+      end.u64(this.offset)
+      end.u32(1)
+      await this.sink.write(end.bytes)
+    }
+
+    const end = new ByteWriter(22)
+    end.u32(END_OF_CENTRAL)
+    end.u16(0)
+    end.u16(0)
+    end.u16(zip64 ? MAX_16 : count)
+    end.u16(zip64 ? MAX_16 : count)
+    end.u32(zip64 ? MAX_32 : size)
+    end.u32(zip64 ? MAX_32 : start)
+    end.u16(0)
+    await this.sink.write(end.bytes)
+  }
+
+  private centralRecord(entry: ZipEntry): Uint8Array<ArrayBuffer> {
+    const nameBytes = this.encoder.encode(entry.name)
+    // ZIP64 extra fields list only the values that overflowed, in this order
+    const extra: number[] = []
+    if (entry.size >= MAX_32) extra.push(entry.size, entry.compressedSize)
+    if (entry.headerOffset >= MAX_32) extra.push(entry.headerOffset)
+    const extraLength = extra.length > 0 ? 4 + extra.length * 8 : 0
+
+    const record = new ByteWriter(46 + nameBytes.length + extraLength)
+    record.u32(CENTRAL_HEADER)
+    record.u16(45)
+    record.u16(extra.length > 0 ? 45 : 20)
+    record.u16(UTF8_FLAG)
+    record.u16(entry.method)
+    record.u16(this.stamp.time)
+    record.u16(this.stamp.date)
+    record.u32(entry.crc)
+    record.u32(entry.size >= MAX_32 ? MAX_32 : entry.compressedSize)
+    record.u32(entry.size >= MAX_32 ? MAX_32 : entry.size)
+    record.u16(nameBytes.length)
+    record.u16(extraLength)
+    record.u16(0) // comment
+    record.u16(0) // disk
+    record.u16(0) // internal attributes
+    record.u32(0) // external attributes
+    record.u32(entry.headerOffset >= MAX_32 ? MAX_32 : entry.headerOffset)
+    record.raw(nameBytes)
+    if (extra.length > 0) {
+      record.u16(ZIP64_EXTRA)
+      record.u16(extra.length * 8)
+      extra.forEach((value) => record.u64(value))
+    }
+    return record.bytes
+  }
+}
+
+// Reads entries straight from the picked file: only headers are loaded, and each entry's
+// content is a slice of the file until it is actually read
+export class ZipReader {
+  private file: Blob
+  private entries = new Map<string, ZipEntry>()
+
+  constructor(file: Blob) {
+    this.file = file
+  }
+
+  async open(): Promise<void> {
+    const tailStart = Math.max(0, this.file.size - MAX_END_SEARCH)
+    const tail = await readView(this.file, tailStart, this.file.size)
+    let endAt = -1
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+      if (tail.getUint32(i, true) === END_OF_CENTRAL) {
+        endAt = i
+        break
+      }
+    }
+    if (endAt === -1) throw new Error('O arquivo não é um ZIP válido.')
+
+    let count = tail.getUint16(endAt + 10, true)
+    let size = tail.getUint32(endAt + 12, true)
+    let start = tail.getUint32(endAt + 16, true)
+    if (count === MAX_16 || size === MAX_32 || start === MAX_32) {
+      const locatorAt = tailStart + endAt - 20
+      const locator = await readView(this.file, locatorAt, locatorAt + 20)
+      if (locator.getUint32(0, true) !== ZIP64_LOCATOR) {
+        throw new Error('O arquivo ZIP está corrompido.')
+      }
+      const recordAt = readU64(locator, 8)
+      const record = await readView(this.file, recordAt, recordAt + 56)
+      if (record.getUint32(0, true) !== ZIP64_END_OF_CENTRAL) {
+        throw new Error('O arquivo ZIP está corrompido.')
+      }
+      count = readU64(record, 32)
+      size = readU64(record, 40)
+      start = readU64(record, 48)
+    }
+
+    const directory = await readView(this.file, start, start + size)
+    const decoder = new TextDecoder()
+    let at = 0
+    for (let i = 0; i < count; i++) {
+      if (directory.getUint32(at, true) !== CENTRAL_HEADER) {
+        throw new Error('O arquivo ZIP está corrompido.')
+      }
+      const nameLength = directory.getUint16(at + 28, true)
+      const extraLength = directory.getUint16(at + 30, true)
+      const commentLength = directory.getUint16(at + 32, true)
+      const name = decoder.decode(new Uint8Array(directory.buffer, at + 46, nameLength))
+      const entry: ZipEntry = {
+        name,
+        method: directory.getUint16(at + 10, true),
+        crc: directory.getUint32(at + 16, true),
+        compressedSize: directory.getUint32(at + 20, true),
+        size: directory.getUint32(at + 24, true),
+        headerOffset: directory.getUint32(at + 42, true),
+      }
+
+      // Overflowed values live in the ZIP64 extra field
+      let extraAt = at + 46 + nameLength
+      const extraEnd = extraAt + extraLength
+      while (extraAt + 4 <= extraEnd) {
+        const id = directory.getUint16(extraAt, true)
+        const length = directory.getUint16(extraAt + 2, true)
+        if (id === ZIP64_EXTRA) {
+          let field = extraAt + 4
+          if (entry.size === MAX_32) {
+            entry.size = readU64(directory, field)
+            field += 8
+          }
+          if (entry.compressedSize === MAX_32) {
+            entry.compressedSize = readU64(directory, field)
+            field += 8
+          }
+          if (entry.headerOffset === MAX_32) entry.headerOffset = readU64(directory, field)
+        }
+        extraAt += 4 + length
+      }
+
+      this.entries.set(name, entry)
+      at += 46 + nameLength + extraLength + commentLength
+    }
+  }
+
+  names(): string[] {
+    return Array.from(this.entries.keys())
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name)
+  }
+
+  // Contents of an entry. Stored entries are file slices, so nothing is read yet.
+  async read(name: string, type = ''): Promise<Blob> {
+    const entry = this.entries.get(name)
+    if (!entry) throw new Error(`"${name}" não está no arquivo.`)
+
+    const header = await readView(this.file, entry.headerOffset, entry.headerOffset + 30)
+    if (header.getUint32(0, true) !== LOCAL_HEADER) {
+      throw new Error('O arquivo ZIP está corrompido.')
+    }
+    const dataStart =
+      entry.headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true)
+    const data = this.file.slice(dataStart, dataStart + entry.compressedSize, type)
+
+    if (entry.method === 0) return data
+    if (entry.method === 8 && typeof DecompressionStream !== 'undefined') {
+      const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+      const inflated = await new Response(stream).blob()
+      return type ? new Blob([inflated], { type }) : inflated
+    }
+    throw new Error(`"${name}" usa uma compressão não suportada.`)
+  }
+
+  async readText(name: string): Promise<string> {
+    return (await this.read(name)).text()
+  }
+}
@@ -4,14 +4,51 @@ import { defineConfig } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import vueDevTools from 'vite-plugin-vue-devtools'
 import mkcert from 'vite-plugin-mkcert'
+import { VitePWA } from 'vite-plugin-pwa'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     vue(),
     vueDevTools(),
-    mkcert()
+    mkcert(),
+    VitePWA({
+      // The app asks before reloading, so a new version never interrupts a song
+      registerType: 'prompt',
+      injectRegister: false,
+      includeAssets: ['favicon.ico', 'icons/apple-touch-icon.png'],
+      manifest: {
+        name: 'Player de Música Offline',
+        short_name: 'Player',
+        description: 'Suas músicas salvas no navegador, disponíveis mesmo sem internet.',
+        lang: 'pt-BR',
+        start_url: '/',
+        scope: '/',
+        display: 'standalone',
+        background_color: '#1a103c',
+        theme_color: '#1a103c',
+        icons: [
+          { src: 'icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'icons/maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        // Every emitted chunk is precached, including the lazily loaded views, so the
+        // player opens without a connection even if it was never visited online
+        globPatterns: ['**/*.{js,css,html,ico,png,apng,jpg,svg,woff2}'],
+        navigateFallback: 'index.html',
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+        cleanupOutdatedCaches: true,
+      },
+    }),
   ],
+  server: {
+    // Lets the https dev server reach `npm run signaling` on the same origin (wss://…/signaling)
+    proxy: {
+      '/signaling': { target: 'ws://localhost:8787', ws: true },
+    },
+  },
   resolve: {
     alias: {
       '@': fileURLToPath(new URL('./src', import.meta.url)),
@@ -0,0 +1,11 @@
+import { configDefaults, defineConfig } from 'vitest/config'
+
+// Separate from vite.config.ts: the unit tests cover plain services and need none of the
+// app's plugins
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['src/**/__tests__/*.spec.ts'],
+    exclude: [...configDefaults.exclude],
+  },
+})